@@ -1,8 +1,23 @@
 import { DataSource } from "typeorm";
-import dotenv from "dotenv";
+import "./env.js";
+import { DatabaseLogger, parseDatabaseLogging } from "./databaseLogger.js";
+import { ApiKey } from "../models/ApiKey.js";
+import { AuditEvent } from "../models/AuditEvent.js";
+import { DataExport } from "../models/DataExport.js";
+import { Impersonation } from "../models/Impersonation.js";
+import { Membership } from "../models/Membership.js";
+import { OidcState } from "../models/OidcState.js";
+import { Organization } from "../models/Organization.js";
+import { OrganizationInvitation } from "../models/OrganizationInvitation.js";
+import { PasswordResetToken } from "../models/PasswordResetToken.js";
+import { RecoveryCode } from "../models/RecoveryCode.js";
+import { RefreshToken } from "../models/RefreshToken.js";
+import { Role } from "../models/Role.js";
+import { Session } from "../models/Session.js";
 import { User } from "../models/User.js";
+import { UserIdentity } from "../models/UserIdentity.js";
 
-dotenv.config();
+const logging = parseDatabaseLogging(process.env.DATABASE_LOGGING);
 
 export const AppDataSource = new DataSource({
     type: "postgres",
@@ -20,7 +35,26 @@ export const AppDataSource = new DataSource({
         connectionTimeoutMillis: 5000,
     },
     synchronize: process.env.NODE_ENV === "development",
-    logging: false,
-    entities: [User],
+    //Run before synchronize, so schema changes keep the existing data
+    migrationsRun: true,
+    logging: logging,
+    logger: new DatabaseLogger(logging),
+    entities: [
+        User,
+        RefreshToken,
+        Session,
+        PasswordResetToken,
+        RecoveryCode,
+        UserIdentity,
+        OidcState,
+        ApiKey,
+        Role,
+        Impersonation,
+        Organization,
+        Membership,
+        OrganizationInvitation,
+        DataExport,
+        AuditEvent,
+    ],
     migrations: ["src/migration/**/*.ts"],
 });
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { DatabaseLogger } from "./databaseLogger.js";
+import { logger } from "./logger.js";
+
+describe("DatabaseLogger", () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("logs the queries without their parameters", () => {
+        const debug = mock.method(logger, "debug", () => undefined);
+
+        new DatabaseLogger(["query"]).logQuery(
+            `UPDATE "user" SET "password" = $1 WHERE "id" = $2`,
+            ["$2b$10$hash", 1]
+        );
+
+        const [message] = debug.mock.calls[0]?.arguments ?? [];
+        assert.match(`${message}`, /UPDATE "user" SET "password" = \$1/);
+        assert.ok(!`${message}`.includes("$2b$10$hash"));
+    });
+});
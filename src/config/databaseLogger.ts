@@ -0,0 +1,65 @@
+import {
+    AbstractLogger,
+    type LoggerOptions,
+    type LogLevel,
+    type LogMessage,
+} from "typeorm";
+import { logger } from "./logger.js";
+
+const LOG_LEVELS: LogLevel[] = ["query", "schema", "error", "warn", "info", "log", "migration"];
+
+/**
+ * Read the TypeORM log levels from DATABASE_LOGGING.
+ * @param value "all", "true" or a comma separated list of levels (query, schema, error, warn, info, log, migration).
+ * @returns TypeORM logging option, disabled if the variable is not set.
+ */
+export const parseDatabaseLogging = (value: string | undefined): LoggerOptions => {
+    if (!value || value === "false") {
+        return false;
+    }
+    if (value === "all" || value === "true") {
+        return "all";
+    }
+    const levels = value.split(",").map((level) => level.trim());
+    const invalid = levels.filter((level) => !LOG_LEVELS.includes(level as LogLevel));
+    if (invalid.length > 0) {
+        throw new Error(`Invalid DATABASE_LOGGING levels : ${invalid.join(", ")}`);
+    }
+    return levels as LogLevel[];
+};
+
+/**
+ * Write the TypeORM logs with the application logger, so queries carry the context of their request.
+ */
+export class DatabaseLogger extends AbstractLogger {
+    protected writeLog(
+        level: LogLevel,
+        logMessage: LogMessage | string | number | (LogMessage | string | number)[]
+    ): void {
+        //Parameters hold password hashes, tokens and personal data, only the SQL is logged
+        const messages = this.prepareLogMessages(logMessage, {
+            highlightSql: false,
+            appendParameterAsComment: false,
+        });
+        for (const message of messages) {
+            const text = message.prefix
+                ? `${message.prefix} ${message.message}`
+                : `${message.message}`;
+            switch (message.type ?? level) {
+                case "error":
+                case "query-error":
+                    logger.error(text);
+                    break;
+                case "warn":
+                case "query-slow":
+                    logger.warn(text);
+                    break;
+                case "query":
+                    logger.debug(text);
+                    break;
+                default:
+                    logger.info(text);
+            }
+        }
+    }
+}
@@ -0,0 +1,4 @@
+import dotenv from "dotenv";
+
+//Load the .env file once, before any module reads its settings. Quiet, so the standard output only holds log entries
+dotenv.config({ quiet: true });
@@ -0,0 +1,76 @@
+import { createPrivateKey, createPublicKey, type KeyObject } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { Algorithm } from "jsonwebtoken";
+
+export interface JwtKey {
+    kid: string;
+    algorithm: Algorithm;
+    publicKey: string;
+    //Missing for retired keys, only kept to verify tokens issued before the rotation
+    privateKey?: string;
+}
+
+/**
+ * Pick the JWT algorithm matching a key.
+ * @param key Public key.
+ * @returns RS256 for RSA keys, ES256/ES384/ES512 for EC keys depending on the curve.
+ */
+const algorithmFor = (key: KeyObject): Algorithm => {
+    if (key.asymmetricKeyType === "rsa") {
+        return "RS256";
+    }
+    if (key.asymmetricKeyType === "ec") {
+        switch (key.asymmetricKeyDetails?.namedCurve) {
+            case "prime256v1":
+                return "ES256";
+            case "secp384r1":
+                return "ES384";
+            case "secp521r1":
+                return "ES512";
+        }
+    }
+    throw new Error(`Unsupported JWT key type : ${key.asymmetricKeyType}`);
+};
+
+/**
+ * Load the asymmetric keys used to sign access tokens from JWT_KEYS_DIR.
+ * Each key is a PEM file named after its key id: "<kid>.key.pem" for a private key
+ * or "<kid>.pub.pem" for a public key only used to verify tokens.
+ * @returns Keys indexed by key id, empty if JWT_KEYS_DIR is not set.
+ */
+export const loadJwtKeys = (): Map<string, JwtKey> => {
+    const keys = new Map<string, JwtKey>();
+    if (!process.env.JWT_KEYS_DIR) {
+        return keys;
+    }
+
+    const keysDir = path.resolve(process.env.JWT_KEYS_DIR);
+    for (const fileName of fs.readdirSync(keysDir).sort()) {
+        const match = /^(.+)\.(key|pub)\.pem$/.exec(fileName);
+        if (!match) {
+            continue;
+        }
+        const kid = match[1] as string;
+        const pem = fs.readFileSync(path.join(keysDir, fileName), "utf8");
+
+        if (match[2] === "key") {
+            const privateKey = createPrivateKey(pem);
+            const publicKey = createPublicKey(privateKey);
+            keys.set(kid, {
+                kid: kid,
+                algorithm: algorithmFor(publicKey),
+                publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+                privateKey: pem,
+            });
+        } else if (!keys.has(kid)) {
+            const publicKey = createPublicKey(pem);
+            keys.set(kid, {
+                kid: kid,
+                algorithm: algorithmFor(publicKey),
+                publicKey: pem,
+            });
+        }
+    }
+    return keys;
+};
@@ -0,0 +1,222 @@
+import { createSocket } from "dgram";
+import { hostname } from "os";
+import * as path from "path";
+import {
+    RotatingFileStream,
+    type RotationOptions,
+} from "./rotatingFileStream.js";
+
+//Log entry given to the transports, sensitive values are already redacted
+export interface LogRecord {
+    timestamp: string;
+    level: string;
+    //tslog level id: 0 silly, 1 trace, 2 debug, 3 info, 4 warn, 5 error, 6 fatal
+    levelId: number;
+    message: string;
+    //Request being handled when the entry was written, see requestContext
+    context?: {
+        requestId: string;
+        traceId?: string;
+        parentId?: string;
+        userId?: number;
+    };
+    //Other arguments of the log call
+    data?: unknown;
+    error?: {
+        name: string;
+        message: string;
+        stack?: string;
+    };
+}
+
+export interface LogTransport {
+    /**
+     * Write an entry, must not throw nor call the logger.
+     * @param record Entry to write.
+     * @param line Entry formatted with LOG_FORMAT, without the trailing new line.
+     */
+    write(record: LogRecord, line: string): void;
+    //Write the pending entries and release the resources
+    close?(): Promise<void>;
+}
+
+export type LogTransportFactory = () => LogTransport;
+
+/**
+ * Report a transport failure on stderr, the logger cannot be used as it may be the one failing.
+ * @param name Name of the transport.
+ * @param error Error raised by the transport.
+ */
+const reportFailure = (name: string, error: unknown) => {
+    process.stderr.write(
+        `Log transport ${name} failed: ${error instanceof Error ? error.message : error}\n`
+    );
+};
+
+//Write the entries on the standard output, default transport
+const stdoutTransport: LogTransportFactory = () => ({
+    write(record, line) {
+        process.stdout.write(`${line}\n`);
+    },
+});
+
+/**
+ * Write the entries inside LOG_DIR (default: ./logs), warnings and errors are also written in a separate file.
+ * Files are rotated every day and when they reach LOG_MAX_SIZE megabytes (default: 10), then compressed unless LOG_COMPRESS=false.
+ * LOG_MAX_FILES (default: 14) rotated files of each kind are kept, for at most LOG_MAX_AGE days (default: 30).
+ */
+const fileTransport: LogTransportFactory = () => {
+    const logDir = path.resolve(process.env.LOG_DIR || "logs");
+    const options: RotationOptions = {
+        maxSize: parseFloat(process.env.LOG_MAX_SIZE || "10") * 1024 * 1024,
+        maxFiles: parseInt(process.env.LOG_MAX_FILES || "14"),
+        maxAge: parseFloat(process.env.LOG_MAX_AGE || "30") * 86400000,
+        compress: process.env.LOG_COMPRESS !== "false",
+    };
+    const onError = (error: unknown) => reportFailure("file", error);
+
+    //Format: app-YYYY-MM-DD.log and error-YYYY-MM-DD.log
+    const logStream = new RotatingFileStream(logDir, "app", options, onError);
+    const errorStream = new RotatingFileStream(
+        logDir,
+        "error",
+        options,
+        onError
+    );
+
+    return {
+        write(record, line) {
+            logStream.write(`${line}\n`);
+            if (record.levelId >= 4) {
+                errorStream.write(`${line}\n`);
+            }
+        },
+        async close() {
+            await Promise.all([logStream.close(), errorStream.close()]);
+        },
+    };
+};
+
+/**
+ * Send the entries as JSON arrays to LOG_HTTP_URL (e.g. a log collector).
+ * Entries are sent in batches of LOG_HTTP_BATCH_SIZE (default: 100) or every LOG_HTTP_INTERVAL milliseconds (default: 5000).
+ */
+const httpTransport: LogTransportFactory = () => {
+    const url = process.env.LOG_HTTP_URL;
+    if (!url) {
+        throw new Error("LOG_HTTP_URL is required by the http log transport");
+    }
+    const batchSize = parseInt(process.env.LOG_HTTP_BATCH_SIZE || "100");
+    const interval = parseInt(process.env.LOG_HTTP_INTERVAL || "5000");
+    let batch: LogRecord[] = [];
+    let sending: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+        if (batch.length === 0) {
+            return sending;
+        }
+        const body = JSON.stringify(batch);
+        batch = [];
+        sending = sending
+            .then(async () => {
+                const response = await fetch(url, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body,
+                });
+                if (!response.ok) {
+                    throw new Error(`${url} answered ${response.status}`);
+                }
+            })
+            .catch((error) => reportFailure("http", error));
+        return sending;
+    };
+    const timer = setInterval(flush, interval);
+    //The process can exit while entries are waiting
+    timer.unref();
+
+    return {
+        write(record) {
+            batch.push(record);
+            if (batch.length >= batchSize) {
+                void flush();
+            }
+        },
+        async close() {
+            clearInterval(timer);
+            await flush();
+        },
+    };
+};
+
+/**
+ * Send the entries to the syslog server LOG_SYSLOG_HOST (default: localhost) on LOG_SYSLOG_PORT (default: 514) over UDP, as RFC 5424 messages.
+ * LOG_SYSLOG_FACILITY sets the facility (default: 16, local0).
+ */
+const syslogTransport: LogTransportFactory = () => {
+    const host = process.env.LOG_SYSLOG_HOST || "localhost";
+    const port = parseInt(process.env.LOG_SYSLOG_PORT || "514");
+    const facility = parseInt(process.env.LOG_SYSLOG_FACILITY || "16");
+    const appName = process.env.LOG_SYSLOG_APP_NAME || "todolist";
+    const socket = createSocket("udp4");
+    socket.on("error", (error) => reportFailure("syslog", error));
+    socket.unref();
+
+    //Syslog severity of each tslog level, from silly to fatal
+    const severities = [7, 7, 7, 6, 4, 3, 2];
+
+    return {
+        write(record, line) {
+            const priority =
+                facility * 8 + (severities[record.levelId] ?? 6);
+            const message = Buffer.from(
+                `<${priority}>1 ${record.timestamp} ${hostname()} ${appName} ${process.pid} - - ${line}`
+            );
+            socket.send(message, port, host);
+        },
+        async close() {
+            await new Promise<void>((resolve) => socket.close(resolve));
+        },
+    };
+};
+
+const transports: Record<string, LogTransportFactory> = {
+    stdout: stdoutTransport,
+    file: fileTransport,
+    http: httpTransport,
+    syslog: syslogTransport,
+};
+
+//Called by the logger to start the transports registered after it was created
+let onRegister: ((name: string) => void) | undefined;
+
+/**
+ * Be notified when a transport is registered.
+ * @param listener Function called with the name of the transport.
+ */
+export const onLogTransportRegistered = (listener: (name: string) => void) => {
+    onRegister = listener;
+};
+
+/**
+ * Make a transport available through the LOG_TRANSPORTS environment variable.
+ * @param name Name of the transport.
+ * @param factory Function creating the transport.
+ */
+export const registerLogTransport = (
+    name: string,
+    factory: LogTransportFactory
+) => {
+    transports[name] = factory;
+    onRegister?.(name);
+};
+
+/**
+ * Create a registered transport.
+ * @param name Name of the transport.
+ * @returns Log transport, null if no transport has this name.
+ */
+export const createLogTransport = (name: string): LogTransport | null => {
+    const factory = transports[name];
+    return factory ? factory() : null;
+};
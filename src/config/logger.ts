@@ -1,65 +1,255 @@
-import * as fs from "fs";
-import * as path from "path";
-import { Logger } from "tslog";
+import "./env.js";
+import { Logger, type ILogObj, type IErrorObject } from "tslog";
 import * as util from "util";
+import { getRequestContext } from "../modules/core/requestContext.js";
+import {
+    createLogTransport,
+    onLogTransportRegistered,
+    type LogRecord,
+    type LogTransport,
+} from "./logTransports.js";
 
-export const logger = new Logger({
+//pretty: one readable line per entry, json: one JSON object per line
+const LOG_FORMAT = process.env.LOG_FORMAT || "pretty";
+if (LOG_FORMAT !== "pretty" && LOG_FORMAT !== "json") {
+    throw new Error(`Invalid LOG_FORMAT : ${LOG_FORMAT}`);
+}
+
+//Transports receiving the entries, LOG_PERSIST=true is kept as a shortcut for the file transport
+const LOG_TRANSPORTS = new Set(
+    (process.env.LOG_TRANSPORTS || "stdout")
+        .split(",")
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0)
+);
+if (process.env.LOG_PERSIST === "true") {
+    LOG_TRANSPORTS.add("file");
+}
+
+const REDACTED = "[REDACTED]";
+//Keys whose values are never written: passwords, tokens, secrets, cookies and authorization headers.
+//Anchored at the end so e.g. tokenVersion or refreshTokenId are kept
+const SENSITIVE_KEY =
+    /pass(word)?([-_]?hash)?$|token$|secret$|^(set-)?cookie$|authorization$|api[-_]?key$|private[-_]?key$|code[-_]?verifier$|recovery[-_]?codes?$/i;
+//Loggers (see getSubLogger) whose `code` fields are one-time codes, elsewhere `code` is an error code
+const ONE_TIME_CODE_LOGGERS = new Set(["oidc", "twoFactor"]);
+//Values hidden inside strings, e.g. a message containing a header or an URL
+const SENSITIVE_VALUES: [RegExp, string][] = [
+    [/\bBearer\s+[\w~+/.-]+=*/gi, `Bearer ${REDACTED}`],
+    [/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED],
+    [
+        /([?&](?:token|code|password|api[-_]?key)=)[^&#\s]+/gi,
+        `$1${REDACTED}`,
+    ],
+];
+
+/**
+ * Copy a logged value without its sensitive fields.
+ * @param value Logged value.
+ * @param redactCode Also redact the `code` fields.
+ * @param seen Objects already copied, to stop on circular references.
+ * @returns Copy of the value.
+ */
+const redact = (
+    value: unknown,
+    redactCode = false,
+    seen = new WeakSet<object>()
+): unknown => {
+    if (typeof value === "string") {
+        return SENSITIVE_VALUES.reduce(
+            (text, [pattern, replacement]) =>
+                text.replace(pattern, replacement),
+            value
+        );
+    }
+    if (typeof value !== "object" || value === null) {
+        return value;
+    }
+    if (seen.has(value)) {
+        return "[Circular]";
+    }
+    seen.add(value);
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, redactCode, seen));
+    }
+    if (value instanceof Date || Buffer.isBuffer(value)) {
+        return value;
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+            key,
+            SENSITIVE_KEY.test(key) || (redactCode && key === "code")
+                ? REDACTED
+                : redact(item, redactCode, seen),
+        ])
+    );
+};
+
+/**
+ * Tell if a logged argument is an error converted by tslog.
+ * @param value Logged argument.
+ * @returns True for converted errors.
+ */
+const isErrorObject = (value: unknown): value is IErrorObject => {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        "nativeError" in value &&
+        value.nativeError instanceof Error
+    );
+};
+
+/**
+ * Build the entry given to the transports from the arguments of a log call.
+ * Strings and numbers form the message, the first error is kept with its stack and other values are kept as data.
+ * @param logObj Log object built by tslog.
+ * @returns Redacted log entry.
+ */
+const toLogRecord = (logObj: ILogObj): LogRecord => {
+    const meta = logObj["_meta"] as {
+        name?: string;
+        date: Date;
+        logLevelId: number;
+        logLevelName: string;
+    };
+    const redactCode =
+        meta.name !== undefined && ONE_TIME_CODE_LOGGERS.has(meta.name);
+    const args = (logObj["args"] as unknown[] | undefined) ?? [];
+
+    const message: string[] = [];
+    const data: unknown[] = [];
+    let error: LogRecord["error"];
+    for (const arg of args) {
+        if (typeof arg === "string" || typeof arg === "number") {
+            message.push(String(arg));
+        } else if (isErrorObject(arg) && !error) {
+            error = {
+                name: arg.name,
+                message: redact(arg.message) as string,
+            };
+            if (arg.nativeError.stack) {
+                error.stack = redact(arg.nativeError.stack) as string;
+            }
+        } else {
+            data.push(isErrorObject(arg) ? arg.nativeError.message : arg);
+        }
+    }
+
+    const record: LogRecord = {
+        timestamp: new Date(meta.date).toISOString(),
+        level: meta.logLevelName,
+        levelId: meta.logLevelId,
+        message: redact(
+            message.length > 0 ? message.join(" ") : (error?.message ?? "")
+        ) as string,
+    };
+    const context = getRequestContext();
+    if (context) {
+        record.context = { ...context };
+    }
+    if (data.length > 0) {
+        record.data = redact(data.length === 1 ? data[0] : data, redactCode);
+    }
+    if (error) {
+        record.error = error;
+    }
+    return record;
+};
+
+/**
+ * Serialize an entry for the json format, values which cannot be serialized are replaced by their description.
+ * @param record Log entry.
+ * @returns JSON object on one line.
+ */
+const toJsonLine = (record: LogRecord): string => {
+    return JSON.stringify(record, (key, value: unknown) =>
+        typeof value === "bigint" ? value.toString() : value
+    );
+};
+
+/**
+ * Format an entry for the pretty format: date, level, request id and user id, message, data and error stack.
+ * @param record Log entry.
+ * @returns Readable entry, on several lines if it has data or an error.
+ */
+const toPrettyLine = (record: LogRecord): string => {
+    const timestamp = record.timestamp.replace("T", " ").substring(0, 23);
+    const level = record.level.padEnd(5);
+    const context = record.context
+        ? `[${record.context.requestId}${record.context.userId !== undefined ? ` user:${record.context.userId}` : ""}] `
+        : "";
+    const details =
+        record.data !== undefined
+            ? `\n  ${util.inspect(record.data, { depth: null, colors: false })}`
+            : "";
+    const error = record.error
+        ? `\n${record.error.stack ?? `${record.error.name}: ${record.error.message}`}`
+        : "";
+    return `${timestamp}\t${level}:\t${context}${record.message}${details}${error}`;
+};
+
+export const logger = new Logger<ILogObj>({
     name: "Log_1",
     minLevel: process.env.LOG_LEVEL
         ? parseInt(process.env.LOG_LEVEL)
         : process.env.NODE_ENV === "production"
         ? 2
         : 0,
-    type: "pretty",
-
-    prettyLogTemplate:
-        "{{yyyy}}.{{mm}}.{{dd}} {{hh}}:{{MM}}:{{ss}}:{{ms}}\t{{logLevelName}}:\t",
-    prettyErrorTemplate:
-        "\n{{errorName}} {{errorMessage}}\nerror stack:\n{{errorStack}}",
-    prettyErrorStackTemplate:
-        "  • {{fileName}}\t{{method}}\n\t{{filePathWithLine}}",
-    prettyErrorParentNamesSeparator: ":",
-    prettyErrorLoggerNameDelimiter: "\t",
-    stylePrettyLogs: true,
-    prettyLogTimeZone: "local",
-
-    hideLogPositionForProduction: process.env.NODE_ENV === "production",
+    //Entries are only written by the transports below
+    type: "hidden",
+    argumentsArrayName: "args",
+    //Redaction is done by toLogRecord
+    maskValuesOfKeys: [],
+    hideLogPositionForProduction: true,
 });
 
-//Log entries sorted by day, format: app-YYYY-MM-DD.log
-if (process.env.LOG_PERSIST === "true") {
-    const logDir = path.join(process.cwd(), "logs");
-    if (!fs.existsSync(logDir)) {
-        fs.mkdirSync(logDir, { recursive: true });
-    }
+const transports = new Map<string, LogTransport>();
 
-    const logStream = fs.createWriteStream(
-        path.join(logDir, `app-${new Date().toISOString().split("T")[0]}.log`),
-        { flags: "a" }
-    );
-
-    const errorStream = fs.createWriteStream(
-        path.join(
-            logDir,
-            `error-${new Date().toISOString().split("T")[0]}.log`
-        ),
-        { flags: "a" }
-    );
-
-    logger.attachTransport((logObj) => {
-        if (logObj._meta !== undefined) {
-            const timestamp = new Date(logObj._meta.date).toISOString().replace('T', ' ').substring(0, 23);
-            const level = logObj._meta.logLevelName.padEnd(5);
-            const message = logObj["0"];
-            const details = logObj["1"] ? `\n  ${util.inspect(logObj["1"], { depth: null, colors: false })}` : '';
-            
-            const logEntry = `${timestamp}\t${level}:\t${message}${details}\n`;
+/**
+ * Start a transport listed in LOG_TRANSPORTS.
+ * @param name Name of the transport.
+ */
+const startTransport = (name: string) => {
+    if (!LOG_TRANSPORTS.has(name) || transports.has(name)) {
+        return;
+    }
+    const transport = createLogTransport(name);
+    if (transport) {
+        transports.set(name, transport);
+    }
+};
 
-            logStream.write(logEntry);
+LOG_TRANSPORTS.forEach(startTransport);
+//Custom transports can be registered after the logger is created
+onLogTransportRegistered(startTransport);
 
-            if ( logObj._meta?.logLevelId >= 4 ) {
-                errorStream.write(logEntry);
-            }
+/**
+ * Write the pending entries of the transports and close them, entries logged afterwards only reach the transports without close (stdout).
+ * Must be awaited before the process exits.
+ */
+export const closeLogTransports = async (): Promise<void> => {
+    const closing: Promise<void>[] = [];
+    transports.forEach((transport, name) => {
+        if (transport.close) {
+            transports.delete(name);
+            closing.push(transport.close());
         }
     });
-}
+    await Promise.all(closing);
+};
+
+//Log entries are written synchronously, inside the context of the request which wrote them
+logger.attachTransport((logObj) => {
+    const record = toLogRecord(logObj);
+    const line =
+        LOG_FORMAT === "json" ? toJsonLine(record) : toPrettyLine(record);
+    transports.forEach((transport) => transport.write(record, line));
+});
+
+LOG_TRANSPORTS.forEach((name) => {
+    if (!transports.has(name)) {
+        logger.warn(
+            `Log transport ${name} is not registered yet, its entries are dropped until it is.`
+        );
+    }
+});
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { createMailTransport } from "./mailer.js";
+
+describe("console mail transport", () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("prints the links of the mails without redacting their token", async () => {
+        const output: string[] = [];
+        mock.method(process.stdout, "write", (chunk: string) => {
+            output.push(chunk);
+            return true;
+        });
+        const previous = process.env.MAIL_TRANSPORT;
+        delete process.env.MAIL_TRANSPORT;
+
+        try {
+            await createMailTransport().send({
+                from: "noreply@example.com",
+                to: "john@example.com",
+                subject: "Reset your password",
+                text: "http://localhost/reset-password?token=abc123&lang=en",
+            });
+        } finally {
+            if (previous !== undefined) {
+                process.env.MAIL_TRANSPORT = previous;
+            }
+        }
+
+        const printed = output.join("");
+        assert.match(printed, /john@example\.com: Reset your password/);
+        assert.ok(
+            printed.includes(
+                "http://localhost/reset-password?token=abc123&lang=en"
+            )
+        );
+    });
+});
@@ -0,0 +1,61 @@
+import * as fs from "fs";
+import * as path from "path";
+import type {
+    MailTransport,
+    MailTransportFactory,
+} from "../modules/mail/mail.types.js";
+
+//Print the mails on stdout, default transport for local development.
+//The logger is bypassed as its redaction would hide the tokens of the links.
+const consoleTransport: MailTransportFactory = () => ({
+    async send(message) {
+        process.stdout.write(
+            `----- Mail from ${message.from} to ${message.to}: ${message.subject}\n${message.text}\n-----\n`
+        );
+    },
+});
+
+//Write each mail as a JSON file inside MAIL_DIR (default: ./mails), used by tests
+const fileTransport: MailTransportFactory = () => {
+    const mailDir = path.resolve(process.env.MAIL_DIR || "mails");
+    return {
+        async send(message) {
+            await fs.promises.mkdir(mailDir, { recursive: true });
+            const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+            await fs.promises.writeFile(
+                path.join(mailDir, fileName),
+                JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2)
+            );
+        },
+    };
+};
+
+const transports: Record<string, MailTransportFactory> = {
+    console: consoleTransport,
+    file: fileTransport,
+};
+
+/**
+ * Make a transport available through the MAIL_TRANSPORT environment variable (e.g. SMTP or an HTTP API).
+ * @param name Name of the transport.
+ * @param factory Function creating the transport.
+ */
+export const registerMailTransport = (
+    name: string,
+    factory: MailTransportFactory
+) => {
+    transports[name] = factory;
+};
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT, console by default.
+ * @returns Mail transport.
+ */
+export const createMailTransport = (): MailTransport => {
+    const name = process.env.MAIL_TRANSPORT || "console";
+    const factory = transports[name];
+    if (!factory) {
+        throw new Error(`Unknown mail transport : ${name}`);
+    }
+    return factory();
+};
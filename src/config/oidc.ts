@@ -0,0 +1,37 @@
+import type { OidcProviderConfig } from "../modules/oidc/oidc.types.js";
+
+/**
+ * Load the OpenID Connect providers from the environment.
+ * OIDC_PROVIDERS lists the provider names (e.g. "google,mock"), each one is then configured with
+ * OIDC_<NAME>_ISSUER, OIDC_<NAME>_CLIENT_ID, OIDC_<NAME>_CLIENT_SECRET, OIDC_<NAME>_REDIRECT_URI and OIDC_<NAME>_SCOPES.
+ * @returns Providers indexed by name.
+ */
+export const loadOidcProviders = (): Record<string, OidcProviderConfig> => {
+    const providers: Record<string, OidcProviderConfig> = {};
+    const names = (process.env.OIDC_PROVIDERS || "")
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name.length > 0);
+
+    for (const name of names) {
+        const prefix = `OIDC_${name.toUpperCase()}_`;
+        const issuer = process.env[`${prefix}ISSUER`];
+        const clientId = process.env[`${prefix}CLIENT_ID`];
+        if (!issuer || !clientId) {
+            throw new Error(
+                `Missing ${prefix}ISSUER or ${prefix}CLIENT_ID in .env.`
+            );
+        }
+        providers[name] = {
+            name: name,
+            issuer: issuer.replace(/\/+$/, ""),
+            clientId: clientId,
+            clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+            redirectUri:
+                process.env[`${prefix}REDIRECT_URI`] ||
+                `http://localhost:${process.env.PORT}/users/oidc/${name}/callback`,
+            scopes: process.env[`${prefix}SCOPES`] || "openid email profile",
+        };
+    }
+    return providers;
+};
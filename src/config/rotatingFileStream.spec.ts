@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { gunzipSync } from "node:zlib";
+import {
+    RotatingFileStream,
+    type RotationOptions,
+} from "./rotatingFileStream.js";
+
+const today = () => new Date().toISOString().split("T")[0] as string;
+
+describe("RotatingFileStream", () => {
+    let dir: string;
+    let errors: unknown[];
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "logs-"));
+        errors = [];
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        assert.deepEqual(errors, []);
+    });
+
+    /**
+     * Create a stream writing inside the temporary directory.
+     * @param options Options overriding the defaults: no rotation by size, no retention, no compression.
+     * @returns Rotating stream of the "app" files.
+     */
+    const createStream = (options: Partial<RotationOptions> = {}) =>
+        new RotatingFileStream(
+            dir,
+            "app",
+            {
+                maxSize: 0,
+                maxFiles: 0,
+                maxAge: 0,
+                compress: false,
+                ...options,
+            },
+            (error) => errors.push(error)
+        );
+
+    /**
+     * Read a log file, decompressing it if needed.
+     * @param file Name of the file.
+     * @returns Content of the file.
+     */
+    const read = (file: string) => {
+        const content = fs.readFileSync(path.join(dir, file));
+        return (
+            file.endsWith(".gz") ? gunzipSync(content) : content
+        ).toString();
+    };
+
+    it("appends to the file of the day", async () => {
+        fs.writeFileSync(path.join(dir, `app-${today()}.log`), "before\n");
+        const stream = createStream();
+        stream.write("first\n");
+        stream.write("second\n");
+        await stream.close();
+
+        assert.deepEqual(fs.readdirSync(dir), [`app-${today()}.log`]);
+        assert.equal(read(`app-${today()}.log`), "before\nfirst\nsecond\n");
+    });
+
+    it("rotates the file once it would exceed maxSize and compresses it", async () => {
+        const stream = createStream({ maxSize: 22, compress: true });
+        stream.write("0123456789\n");
+        stream.write("0123456789\n");
+        stream.write("abcdefghij\n");
+        stream.write("abcdefghij\n");
+        stream.write("last\n");
+        await stream.close();
+
+        const day = today();
+        assert.deepEqual(fs.readdirSync(dir).sort(), [
+            `app-${day}.1.log.gz`,
+            `app-${day}.2.log.gz`,
+            `app-${day}.log`,
+        ]);
+        assert.equal(
+            read(`app-${day}.1.log.gz`),
+            "0123456789\n0123456789\n"
+        );
+        assert.equal(
+            read(`app-${day}.2.log.gz`),
+            "abcdefghij\nabcdefghij\n"
+        );
+        assert.equal(read(`app-${day}.log`), "last\n");
+    });
+
+    it("keeps the maxFiles most recently rotated files", async () => {
+        const stream = createStream({ maxSize: 5, maxFiles: 2 });
+        for (let index = 1; index <= 5; index++) {
+            stream.write(`${index}...\n`);
+        }
+        await stream.close();
+
+        const day = today();
+        assert.deepEqual(fs.readdirSync(dir).sort(), [
+            `app-${day}.3.log`,
+            `app-${day}.4.log`,
+            `app-${day}.log`,
+        ]);
+        assert.equal(read(`app-${day}.4.log`), "4...\n");
+        assert.equal(read(`app-${day}.log`), "5...\n");
+    });
+
+    it("archives the files of previous days and deletes the ones older than maxAge", async () => {
+        const old = path.join(dir, "app-2020-01-01.1.log");
+        fs.writeFileSync(old, "old\n");
+        fs.utimesSync(old, new Date("2020-01-02"), new Date("2020-01-02"));
+        fs.writeFileSync(path.join(dir, "app-2020-01-03.log"), "previous\n");
+        //Files of other prefixes are left alone
+        fs.writeFileSync(path.join(dir, "error-2020-01-03.log"), "error\n");
+
+        const stream = createStream({ maxAge: 7 * 86400000 });
+        await stream.close();
+
+        assert.deepEqual(fs.readdirSync(dir).sort(), [
+            "app-2020-01-03.1.log",
+            `app-${today()}.log`,
+            "error-2020-01-03.log",
+        ]);
+        assert.equal(read("app-2020-01-03.1.log"), "previous\n");
+    });
+});
@@ -0,0 +1,251 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+
+export interface RotationOptions {
+    //Size in bytes after which the file is rotated, 0 to only rotate by date
+    maxSize: number;
+    //Number of rotated files kept, 0 to keep them all
+    maxFiles: number;
+    //Age in milliseconds after which rotated files are deleted, 0 to keep them all
+    maxAge: number;
+    //Compress the rotated files with gzip
+    compress: boolean;
+}
+
+/**
+ * Append-only log file rotated every day and when it reaches maxSize.
+ * The current file is <prefix>-YYYY-MM-DD.log, rotated files are renamed <prefix>-YYYY-MM-DD.<n>.log(.gz)
+ * and deleted once there are more than maxFiles of them or they are older than maxAge.
+ */
+export class RotatingFileStream {
+    private stream!: fs.WriteStream;
+    //Day of the current file, UTC
+    private day!: string;
+    private size = 0;
+    //Compressions and deletions still running
+    private tasks = new Set<Promise<void>>();
+    //Last deletion of old files, they run one after the other
+    private pruning: Promise<void> = Promise.resolve();
+
+    constructor(
+        private dir: string,
+        private prefix: string,
+        private options: RotationOptions,
+        private onError: (error: unknown) => void
+    ) {
+        fs.mkdirSync(dir, { recursive: true });
+        //Files left by a previous run on another day
+        const current = `${prefix}-${today()}.log`;
+        for (const file of fs.readdirSync(dir)) {
+            if (file !== current && this.isCurrentFile(file)) {
+                this.archive(
+                    path.join(dir, file),
+                    file.slice(prefix.length + 1, -4)
+                );
+            }
+        }
+        this.open();
+        this.track(this.prune());
+    }
+
+    /**
+     * Append text to the file, rotating it first if the day changed or it would exceed maxSize.
+     * @param text Text to write.
+     */
+    write(text: string): void {
+        const bytes = Buffer.byteLength(text);
+        if (
+            this.day !== today() ||
+            (this.options.maxSize > 0 &&
+                this.size > 0 &&
+                this.size + bytes > this.options.maxSize)
+        ) {
+            this.rotate();
+        }
+        this.stream.write(text);
+        this.size += bytes;
+    }
+
+    /**
+     * Flush the pending writes, close the file and wait for the running compressions.
+     */
+    async close(): Promise<void> {
+        await new Promise<void>((resolve) => this.stream.end(resolve));
+        while (this.tasks.size > 0) {
+            await Promise.all(this.tasks);
+        }
+    }
+
+    private open() {
+        this.day = today();
+        const file = this.currentPath();
+        //Opened synchronously so the file can be renamed while the stream still writes into it
+        const fd = fs.openSync(file, "a");
+        this.size = fs.fstatSync(fd).size;
+        this.stream = fs.createWriteStream(file, { fd });
+        this.stream.on("error", this.onError);
+    }
+
+    private rotate() {
+        const previous = this.stream;
+        const file = this.archive(this.currentPath(), this.day, previous);
+        this.open();
+        if (!file) {
+            previous.end();
+        }
+    }
+
+    /**
+     * Rename a file out of the way and compress it once it is written.
+     * @param file Path of the file.
+     * @param day Day of the entries of the file.
+     * @param stream Stream still writing into the file, ended by this function.
+     * @returns Path of the rotated file, null if it could not be renamed.
+     */
+    private archive(
+        file: string,
+        day: string,
+        stream?: fs.WriteStream
+    ): string | null {
+        let rotated: string;
+        try {
+            rotated = path.join(
+                this.dir,
+                `${this.prefix}-${day}.${this.nextIndex(day)}.log`
+            );
+            fs.renameSync(file, rotated);
+        } catch (error) {
+            this.onError(error);
+            return null;
+        }
+        this.track(
+            (async () => {
+                if (stream) {
+                    await new Promise<void>((resolve) => stream.end(resolve));
+                }
+                if (this.options.compress) {
+                    await pipeline(
+                        fs.createReadStream(rotated),
+                        createGzip(),
+                        fs.createWriteStream(`${rotated}.gz`)
+                    );
+                    await fs.promises.unlink(rotated);
+                }
+                await this.prune();
+            })()
+        );
+        return rotated;
+    }
+
+    /**
+     * Delete the rotated files beyond maxFiles or older than maxAge, most recently rotated files are kept first.
+     * @returns Promise resolved once the files are deleted.
+     */
+    private prune(): Promise<void> {
+        this.pruning = this.pruning
+            .catch(() => undefined)
+            .then(() => this.deleteOldFiles());
+        return this.pruning;
+    }
+
+    private async deleteOldFiles() {
+        const { maxFiles, maxAge } = this.options;
+        if (maxFiles <= 0 && maxAge <= 0) {
+            return;
+        }
+        const files = await Promise.all(
+            (await fs.promises.readdir(this.dir))
+                //Files being compressed are left alone
+                .filter(
+                    (file) =>
+                        this.isRotatedFile(file) &&
+                        file.endsWith(".gz") === this.options.compress
+                )
+                .map(async (file) => {
+                    const filePath = path.join(this.dir, file);
+                    const { mtimeMs } = await fs.promises.stat(filePath);
+                    return { filePath, mtimeMs };
+                })
+        );
+        //Newest first: by day, then by index
+        files.sort(
+            (a, b) => rotationOrder(b.filePath) - rotationOrder(a.filePath)
+        );
+        const now = Date.now();
+        await Promise.all(
+            files
+                .filter(
+                    ({ mtimeMs }, index) =>
+                        (maxFiles > 0 && index >= maxFiles) ||
+                        (maxAge > 0 && now - mtimeMs > maxAge)
+                )
+                .map(({ filePath }) => fs.promises.unlink(filePath))
+        );
+    }
+
+    /**
+     * Find the next free index for the rotated files of a day.
+     * @param day Day of the rotated file.
+     * @returns Index greater than the ones already used.
+     */
+    private nextIndex(day: string): number {
+        const pattern = new RegExp(
+            `^${escapeRegExp(this.prefix)}-${day}\\.(\\d+)\\.log(\\.gz)?$`
+        );
+        return (
+            fs.readdirSync(this.dir).reduce((max, file) => {
+                const match = pattern.exec(file);
+                return match
+                    ? Math.max(max, parseInt(match[1] as string))
+                    : max;
+            }, 0) + 1
+        );
+    }
+
+    private currentPath() {
+        return path.join(this.dir, `${this.prefix}-${this.day}.log`);
+    }
+
+    private isCurrentFile(file: string) {
+        return new RegExp(
+            `^${escapeRegExp(this.prefix)}-\\d{4}-\\d{2}-\\d{2}\\.log$`
+        ).test(file);
+    }
+
+    private isRotatedFile(file: string) {
+        return new RegExp(
+            `^${escapeRegExp(this.prefix)}-\\d{4}-\\d{2}-\\d{2}\\.\\d+\\.log(\\.gz)?$`
+        ).test(file);
+    }
+
+    private track(task: Promise<void>) {
+        const tracked = task
+            .catch(this.onError)
+            .finally(() => this.tasks.delete(tracked));
+        this.tasks.add(tracked);
+    }
+}
+
+//Current day, UTC, format YYYY-MM-DD
+const today = () => new Date().toISOString().split("T")[0] as string;
+
+const escapeRegExp = (text: string) =>
+    text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Sort key of a rotated file, later days and higher indexes come last.
+ * @param file Path of the rotated file.
+ * @returns Day and index of the file as a number.
+ */
+const rotationOrder = (file: string): number => {
+    const match = /(\d{4})-(\d{2})-(\d{2})\.(\d+)\.log/.exec(
+        path.basename(file)
+    );
+    if (!match) {
+        return 0;
+    }
+    const [, year, month, day, index] = match;
+    return Number(`${year}${month}${day}`) * 1e6 + Number(index);
+};
@@ -22,6 +22,12 @@ const options: swaggerJsdoc.Options = {
                     bearerFormat: "JWT",
                     description: "JWT access token,"
                 },
+                apiKeyAuth: {
+                    type: "apiKey",
+                    in: "header",
+                    name: "X-API-Key",
+                    description: "Personal API key, also accepted as \"Authorization: ApiKey <key>\""
+                },
                 cookieAuth: {
                     type: "apiKey",
                     in: "cookie",
@@ -34,9 +40,16 @@ const options: swaggerJsdoc.Options = {
             {
                 bearerAuth: [],
             },
+            {
+                apiKeyAuth: [],
+            },
         ],
     },
-    apis: ["./src/modules/*/*.routes.ts", "./src/models/*.ts"],
+    apis: [
+        "./src/modules/*/*.routes.ts",
+        "./src/modules/core/listQuery.ts",
+        "./src/models/*.ts",
+    ],
 };
 
 export const swaggerSpec = swaggerJsdoc(options);
@@ -1,20 +1,37 @@
+import "./config/env.js";
 import cookieParser from "cookie-parser";
-import dotenv from "dotenv";
 import express from "express";
+import type { Server } from "http";
 import "reflect-metadata";
 import swaggerUi from "swagger-ui-express";
 import { AppDataSource } from "./config/database.js";
-import { logger } from "./config/logger.js";
+import { closeLogTransports, logger } from "./config/logger.js";
 import { swaggerSpec } from "./config/swagger.js";
-import { errorHandler } from "./middlewares/errorHandler.js";
+import { databaseErrorTranslator } from "./middlewares/databaseErrors.js";
+import { errorHandler, notFoundHandler } from "./middlewares/errorHandler.js";
 import { httpLogger } from "./middlewares/httpLogger.js";
+import { requestId } from "./middlewares/requestId.js";
 import UserRoutes from "./modules/user/user.routes.js";
+import ApiKeyRoutes from "./modules/apiKey/apiKey.routes.js";
+import AuditRoutes from "./modules/audit/audit.routes.js";
+import DataExportRoutes from "./modules/dataExport/dataExport.routes.js";
 import HealthRoutes from "./modules/health/health.routes.js";
+import OidcRoutes from "./modules/oidc/oidc.routes.js";
+import OrganizationRoutes from "./modules/organization/organization.routes.js";
+import RoleRoutes from "./modules/role/role.routes.js";
+import { dataExportService } from "./modules/dataExport/dataExport.service.js";
+import { roleService } from "./modules/role/role.service.js";
+import SessionRoutes from "./modules/session/session.routes.js";
+import TwoFactorRoutes from "./modules/twoFactor/twoFactor.routes.js";
+import { userService } from "./modules/user/user.service.js";
+import WellKnownRoutes from "./modules/wellKnown/wellKnown.routes.js";
 
 const app = express();
-dotenv.config({ path: "./.env" });
 const port = process.env.PORT;
 
+//Request id and context of the logs, must run before every other middleware
+app.use(requestId);
+
 app.use(express.json({ limit: "10kb" }));
 
 //Cookies
@@ -30,16 +47,103 @@ if (logger.settings.minLevel <= 1) {
 }
 
 //Routes
+app.use("/users/sessions", SessionRoutes);
+app.use("/users/api-keys", ApiKeyRoutes);
+app.use("/users/me/export", DataExportRoutes);
+app.use("/users/2fa", TwoFactorRoutes);
+app.use("/users/oidc", OidcRoutes);
 app.use("/users", UserRoutes);
+app.use("/roles", RoleRoutes);
+app.use("/organizations", OrganizationRoutes);
+app.use("/audit", AuditRoutes);
 app.use("/health", HealthRoutes);
+app.use("/.well-known", WellKnownRoutes);
 
 //Errors handling
+app.use(notFoundHandler);
+app.use(databaseErrorTranslator);
 app.use(errorHandler);
 
+let server: Server | undefined;
+//Time in milliseconds given to running requests and background exports before the process exits anyway
+const shutdownTimeout = Number(process.env.SHUTDOWN_TIMEOUT) || 10000;
+
+/**
+ * Wait for a task, at most the given time.
+ * @param task Task to wait for.
+ * @param timeout Time in milliseconds.
+ * @returns True if the task settled in time.
+ */
+const settlesWithin = async (
+    task: Promise<unknown>,
+    timeout: number
+): Promise<boolean> => {
+    let timer: NodeJS.Timeout | undefined;
+    return await Promise.race([
+        task.then(
+            () => true,
+            () => true
+        ),
+        new Promise<boolean>((resolve) => {
+            timer = setTimeout(() => resolve(false), timeout);
+        }),
+    ]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Stop accepting connections and wait for the running requests.
+ * @returns Promise resolved once every connection is closed.
+ */
+const closeServer = (): Promise<void> => {
+    return new Promise((resolve) => {
+        if (!server?.listening) {
+            resolve();
+            return;
+        }
+        server.close(() => resolve());
+    });
+};
+
+/**
+ * Stop accepting requests, let the running ones and the background exports finish,
+ * then close the database connection and flush the logs before exiting.
+ * @param signal Signal received by the process.
+ */
+const shutdown = async (signal: string) => {
+    logger.info(`${signal} received, shutting down.`);
+    const finished = await settlesWithin(
+        Promise.all([
+            closeServer(),
+            dataExportService.waitForBackgroundTasks(),
+        ]),
+        shutdownTimeout
+    );
+    if (!finished) {
+        logger.warn(
+            `Running requests did not finish within ${shutdownTimeout} ms, closing their connections.`
+        );
+        server?.closeAllConnections();
+    }
+    try {
+        if (AppDataSource.isInitialized) {
+            await AppDataSource.destroy();
+        }
+    } catch (error) {
+        logger.error("Error closing the database connection:", error);
+    }
+    await closeLogTransports();
+    process.exit(finished ? 0 : 1);
+};
+process.once("SIGINT", shutdown);
+process.once("SIGTERM", shutdown);
+
 AppDataSource.initialize()
-    .then(() => {
+    .then(async () => {
         logger.info("Database connected successfully.");
-        app.listen(port, () => {
+        await roleService.seedDefaultRoles();
+        await userService.bootstrapAdmin();
+        userService.startPurgeJob();
+        server = app.listen(port, () => {
             if (process.env.NODE_ENV !== "production")
                 logger.info(
                     `Server running on port ${port} in ${process.env.NODE_ENV} mode`
@@ -49,8 +153,9 @@ AppDataSource.initialize()
             ); /*  */
         });
     })
-    .catch((error) => {
+    .catch(async (error) => {
         logger.error("Error connecting to database:", error);
+        await closeLogTransports();
         process.exit(1);
     });
 
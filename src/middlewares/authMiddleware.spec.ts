@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import type { NextFunction, Request, Response } from "express";
+import { Permission } from "../models/Permission.js";
+import { JwtService } from "../modules/core/jwt.service.js";
+import { impersonationService } from "../modules/impersonation/impersonation.service.js";
+import { roleService } from "../modules/role/role.service.js";
+import { userService } from "../modules/user/user.service.js";
+import type { AuthState } from "../modules/user/user.types.js";
+import { authenticate } from "./authMiddleware.js";
+import { ErrorCode } from "./errorCodes.js";
+
+const activeState: AuthState = {
+    tokenVersion: 0,
+    emailVerified: true,
+    twoFactorEnabled: false,
+    disabled: false,
+    passwordChangeRequired: false,
+};
+
+/**
+ * Run authenticate on a request carrying an access token.
+ * @returns Error passed to next, undefined if the request was authenticated.
+ */
+const runAuthenticate = async (): Promise<unknown> => {
+    const req = {
+        headers: { authorization: "Bearer token" },
+    } as unknown as Request;
+    let nextError: unknown;
+    const next: NextFunction = (error?: unknown) => {
+        nextError = error;
+    };
+    await authenticate(req, {} as Response, next);
+    return nextError;
+};
+
+describe("authenticate with an impersonation token", () => {
+    let actorState: AuthState | null;
+    let actorPermissions: Permission[];
+
+    beforeEach(() => {
+        actorState = { ...activeState, tokenVersion: 3 };
+        actorPermissions = [Permission.USERS_IMPERSONATE];
+        mock.method(JwtService, "verifyAccessToken", () => ({
+            id: 2,
+            name: "jane",
+            role: "USER",
+            tokenVersion: 0,
+            act: { id: 1, name: "admin", role: "ADMIN", tokenVersion: 3 },
+            impersonationId: "impersonation",
+        }));
+        mock.method(userService, "getAuthState", async (id: number) =>
+            id === 1 ? actorState : activeState
+        );
+        mock.method(impersonationService, "isActive", async () => true);
+        mock.method(
+            roleService,
+            "hasPermissions",
+            async (role: string, permissions: Permission[]) =>
+                role === "ADMIN" &&
+                permissions.every((permission) =>
+                    actorPermissions.includes(permission)
+                )
+        );
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("accepts the token while the actor may still impersonate", async () => {
+        assert.equal(await runAuthenticate(), undefined);
+    });
+
+    it("refuses the token once the actor is deleted, disabled or has changed", async () => {
+        const changes: Array<() => void> = [
+            () => (actorState = null),
+            () => (actorState = { ...activeState, disabled: true }),
+            //Password or role changed since the impersonation started
+            () => (actorState = { ...activeState, tokenVersion: 4 }),
+            () => (actorPermissions = []),
+        ];
+        for (const change of changes) {
+            actorState = { ...activeState, tokenVersion: 3 };
+            actorPermissions = [Permission.USERS_IMPERSONATE];
+            change();
+
+            const error = await runAuthenticate();
+
+            assert.deepEqual(
+                {
+                    statusCode: (error as { statusCode: number }).statusCode,
+                    code: (error as { code: string }).code,
+                },
+                { statusCode: 401, code: ErrorCode.IMPERSONATION_ENDED }
+            );
+        }
+    });
+});
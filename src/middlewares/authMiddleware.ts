@@ -1,84 +1,335 @@
 import type { Request, Response, NextFunction } from "express";
 import { AppError } from "./errorHandler.js";
-import { JwtService } from "../modules/core/jwt.service.js";
+import { ErrorCode } from "./errorCodes.js";
+import { hasPermission, type Policy } from "./policies.js";
+import { ApiKeyScope } from "../models/ApiKey.js";
+import { Permission } from "../models/Permission.js";
+import { apiKeyService } from "../modules/apiKey/apiKey.service.js";
+import { JwtService, type JwtActor } from "../modules/core/jwt.service.js";
+import { setRequestUser } from "../modules/core/requestContext.js";
+import { impersonationService } from "../modules/impersonation/impersonation.service.js";
+import { roleService } from "../modules/role/role.service.js";
+import { sessionService } from "../modules/session/session.service.js";
+import { twoFactorService } from "../modules/twoFactor/twoFactor.service.js";
 import { userService } from "../modules/user/user.service.js";
 
+export interface AuthUser {
+    id: number;
+    name: string;
+    role: string;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    //The password was set by an administrator and has not been changed yet
+    passwordChangeRequired: boolean;
+    sessionId?: string | undefined;
+    //Only set when the request is authenticated with an API key
+    apiKeyId?: number | undefined;
+    //Real user behind the request while an administrator impersonates this user
+    actor?: JwtActor | undefined;
+    impersonationId?: string | undefined;
+}
+
 declare global {
     namespace Express {
         interface Request {
-            user: {
-                id: number;
-                name: string;
-                role: string;
-            };
+            user: AuthUser;
         }
     }
 }
 
 export interface AuthRequest extends Request {
-    user: { id: number; name: string; role: string };
+    user: AuthUser;
+}
+
+export interface AuthOptions {
+    //Reject users who have not verified their e-mail address yet
+    requireVerifiedEmail?: boolean;
+    //API keys are accepted unless set to false, used by the routes managing credentials
+    allowApiKey?: boolean;
+    //Impersonation tokens are accepted unless set to false, used by credential and destructive routes
+    allowImpersonation?: boolean;
+    //Users who still have to replace the password set by an administrator are only accepted if set to true
+    allowPasswordChangeRequired?: boolean;
 }
 
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
 /**
- * Check if the user is logged in. This is accomplished by testing an Bearer token in the request header.
- * After the user is logged in, the user datas are then stored inside the request under the 'user' object and correspond to the interface AuthRequest.
- * In the instance a token return a deleted user the authentification will fail.
+ * Read the API key of a request, sent either as "Authorization: ApiKey <key>" or "X-API-Key: <key>".
  * @param req Incoming request.
- * @param res Response for the incoming request.
- * @param next Function to execute after this one.
+ * @returns Raw API key, undefined if the request does not use one.
+ */
+const getApiKey = (req: Request): string | undefined => {
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith("ApiKey ")) {
+        return authHeader.substring("ApiKey ".length).trim();
+    }
+    const apiKeyHeader = req.headers["x-api-key"];
+    return typeof apiKeyHeader === "string" ? apiKeyHeader.trim() : undefined;
+};
+
+/**
+ * Check if the administrator behind an impersonation token may still act as the target user.
+ * @param actor Actor of the token.
+ * @returns False if the actor was deleted or disabled, changed its password or role, or lost the impersonation permission.
+ */
+const isActorAllowed = async (actor: JwtActor): Promise<boolean> => {
+    const actorState = await userService.getAuthState(actor.id);
+    return (
+        actorState !== null &&
+        !actorState.disabled &&
+        actor.tokenVersion === actorState.tokenVersion &&
+        (await roleService.hasPermissions(actor.role, [
+            Permission.USERS_IMPERSONATE,
+        ]))
+    );
+};
+
+/**
+ * Authenticate a request with a Bearer access token.
+ * @param req Incoming request.
+ * @returns Logged in user.
+ */
+const authenticateAccessToken = async (req: Request): Promise<AuthUser> => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+        throw new AppError(
+            "You need to be logged in.",
+            401,
+            ErrorCode.AUTHENTICATION_REQUIRED
+        );
+    }
+    const token = authHeader.split(" ")[1];
+    const decoded = JwtService.verifyAccessToken(token as string);
+
+    const authState = await userService.getAuthState(decoded.id);
+    if (authState === null)
+        throw new AppError(
+            "User no longer exists.",
+            401,
+            ErrorCode.INVALID_TOKEN
+        );
+
+    if (authState.disabled)
+        throw new AppError(
+            "This account has been disabled.",
+            403,
+            ErrorCode.ACCOUNT_DISABLED
+        );
+
+    //Password or role changed since the token was issued
+    if (decoded.tokenVersion !== authState.tokenVersion)
+        throw new AppError(
+            "Invalid or expired token.",
+            401,
+            ErrorCode.INVALID_TOKEN
+        );
+
+    if (
+        decoded.sessionId &&
+        !(await sessionService.isActive(decoded.sessionId))
+    )
+        throw new AppError(
+            "Session has been revoked.",
+            401,
+            ErrorCode.SESSION_REVOKED
+        );
+
+    if (
+        decoded.act &&
+        !(
+            decoded.impersonationId &&
+            (await impersonationService.isActive(decoded.impersonationId)) &&
+            (await isActorAllowed(decoded.act))
+        )
+    )
+        throw new AppError(
+            "Impersonation has ended.",
+            401,
+            ErrorCode.IMPERSONATION_ENDED
+        );
+
+    return {
+        id: decoded.id,
+        name: decoded.name,
+        role: decoded.role,
+        emailVerified: authState.emailVerified,
+        twoFactorEnabled: authState.twoFactorEnabled,
+        passwordChangeRequired: authState.passwordChangeRequired,
+        sessionId: decoded.sessionId,
+        actor: decoded.act,
+        impersonationId: decoded.impersonationId,
+    };
+};
+
+/**
+ * Authenticate a request with an API key, read-only keys are limited to safe methods.
+ * @param req Incoming request.
+ * @param key Raw API key.
+ * @returns Owner of the key.
  */
-export const authenticate = async(
+const authenticateApiKey = async (
     req: Request,
-    res: Response,
-    next: NextFunction
-) => {
-    try {
-        const authHeader = req.headers.authorization;
+    key: string
+): Promise<AuthUser> => {
+    const apiKey = await apiKeyService.verify(key);
+
+    const requiredScope = SAFE_METHODS.includes(req.method)
+        ? ApiKeyScope.READ
+        : ApiKeyScope.WRITE;
+    if (!apiKey.scopes.includes(requiredScope))
+        throw new AppError(
+            `Forbidden: This API key lacks the "${requiredScope}" scope.`,
+            403,
+            ErrorCode.API_KEY_SCOPE_MISSING
+        );
+
+    if (apiKey.user.disabledAt)
+        throw new AppError(
+            "This account has been disabled.",
+            403,
+            ErrorCode.ACCOUNT_DISABLED
+        );
+
+    return {
+        id: apiKey.user.id,
+        name: apiKey.user.name,
+        role: apiKey.user.role,
+        emailVerified: apiKey.user.emailVerifiedAt !== null,
+        twoFactorEnabled: apiKey.user.twoFactorEnabledAt !== null,
+        passwordChangeRequired: apiKey.user.passwordChangeRequired,
+        apiKeyId: apiKey.id,
+    };
+};
+
+/**
+ * Check if the user is logged in. This is accomplished by testing an Bearer token or an API key in the request header.
+ * After the user is logged in, the user datas are then stored inside the request under the 'user' object and correspond to the interface AuthRequest.
+ * In the instance a token return a deleted user, a revoked session or was issued before
+ * the last password or role change of the user the authentification will fail.
+ * @param options Additional requirements for the logged in user.
+ * @returns Authentication middleware.
+ */
+export const authenticateWith = (options: AuthOptions = {}) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const apiKey = getApiKey(req);
+            if (apiKey !== undefined && options.allowApiKey === false)
+                throw new AppError(
+                    "Forbidden: This ressource cannot be accessed with an API key.",
+                    403,
+                    ErrorCode.API_KEY_NOT_ALLOWED
+                );
+
+            const user =
+                apiKey !== undefined
+                    ? await authenticateApiKey(req, apiKey)
+                    : await authenticateAccessToken(req);
+
+            if (options.allowImpersonation === false && user.actor)
+                throw new AppError(
+                    "Forbidden: This ressource cannot be accessed while impersonating an user.",
+                    403,
+                    ErrorCode.IMPERSONATION_NOT_ALLOWED
+                );
+
+            if (options.requireVerifiedEmail && !user.emailVerified)
+                throw new AppError(
+                    "Forbidden: You need to verify your e-mail address to access this ressource.",
+                    403,
+                    ErrorCode.EMAIL_NOT_VERIFIED
+                );
 
-        if (!authHeader || !authHeader.startsWith("Bearer ")) {
-            throw new AppError("You need to be logged in.", 401);
+            if (
+                user.passwordChangeRequired &&
+                !options.allowPasswordChangeRequired
+            )
+                throw new AppError(
+                    "Forbidden: You need to change the password given by an administrator first.",
+                    403,
+                    ErrorCode.PASSWORD_CHANGE_REQUIRED
+                );
+
+            req.user = user;
+            setRequestUser(user.id);
+            next();
+        } catch (error) {
+            next(error);
         }
-        const token = authHeader.split(" ")[1];
-        const decoded = JwtService.verifyAccessToken(token as string);       
-
-        if (!(await userService.checkUserExist(decoded.id)))
-            throw new AppError("User no longer exists.", 401);
-
-        req.user = {
-            id: decoded.id,
-            name: decoded.name,
-            role: decoded.role,
-        };
-        
-        next();
-    } catch (error) {
-        next(error);
-    }
+    };
 };
 
 /**
- * Check if the logged in user posses the required role to access a specific resource.
- * @param allowedRoles Array of allowed roles.
- * @returns NextFunction or AppError.
+ * Check if the user is logged in, see authenticateWith.
+ * @param req Incoming request.
+ * @param res Response for the incoming request.
+ * @param next Function to execute after this one.
  */
-export const authorize = (allowedRoles: string[]) => {
-    return (req: AuthRequest, res: Response, next: NextFunction) => {
-        if (!req.user) {
-            next(
-                new AppError(
+export const authenticate = authenticateWith();
+
+/**
+ * Check if the logged in user may access a specific resource according to a policy, see policies.
+ * Users whose role is forced into 2FA by configuration are rejected until they enable it.
+ * @param policy Policy evaluated for the request.
+ * @param options Additional requirements for the logged in user.
+ * @returns Authorization middleware.
+ */
+export const authorize = (policy: Policy, options: AuthOptions = {}) => {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        try {
+            if (!req.user) {
+                throw new AppError(
                     "You need to be logged in to access this ressource.",
-                    401
-                )
-            );
-        }
-        if (!allowedRoles.includes(req.user.role.toLowerCase())) {
-            next(
-                new AppError(
+                    401,
+                    ErrorCode.AUTHENTICATION_REQUIRED
+                );
+            }
+            if (!(await policy(req))) {
+                throw new AppError(
                     "Forbidden: Insuffisant rights to access this ressource.",
-                    403
-                )
-            );
+                    403,
+                    ErrorCode.INSUFFICIENT_PERMISSIONS
+                );
+            }
+            //Users can still reach the 2FA enrollment routes as those only need authenticate
+            if (
+                twoFactorService.isRequiredFor(req.user.role) &&
+                !req.user.twoFactorEnabled
+            ) {
+                throw new AppError(
+                    "Forbidden: Two-factor authentication is mandatory for your role, please enable it.",
+                    403,
+                    ErrorCode.TWO_FACTOR_REQUIRED
+                );
+            }
+            if (options.requireVerifiedEmail && !req.user.emailVerified) {
+                throw new AppError(
+                    "Forbidden: You need to verify your e-mail address to access this ressource.",
+                    403,
+                    ErrorCode.EMAIL_NOT_VERIFIED
+                );
+            }
+            next();
+        } catch (error) {
+            next(error);
         }
-        next();
     };
 };
+
+/**
+ * Check if the role of the logged in user grants the permissions required to access a specific resource.
+ * Permissions of each role are stored in the database, see roleService.
+ * @param permissions Required permission or array of required permissions, every one of them must be granted.
+ * @param options Additional requirements for the logged in user.
+ * @returns Authorization middleware.
+ */
+export const requirePermission = (
+    permissions: Permission | Permission[],
+    options: AuthOptions = {}
+) => {
+    const requiredPermissions = Array.isArray(permissions)
+        ? permissions
+        : [permissions];
+    return authorize(hasPermission(...requiredPermissions), options);
+};
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EntityNotFoundError, QueryFailedError } from "typeorm";
+import { User } from "../models/User.js";
+import {
+    CheckViolationError,
+    DatabaseUnavailableError,
+    ForeignKeyViolationError,
+    NotNullViolationError,
+    SerializationFailureError,
+    UniqueViolationError,
+    onUniqueViolation,
+    translateDatabaseError,
+} from "./databaseErrors.js";
+import { AppError } from "./errorHandler.js";
+import { ErrorCode } from "./errorCodes.js";
+
+/**
+ * Build the error thrown by TypeORM when Postgres refuses a query.
+ * @param fields Fields set by the pg driver.
+ * @returns Failed query error.
+ */
+const queryFailed = (fields: Record<string, string>): QueryFailedError =>
+    new QueryFailedError(
+        "INSERT ...",
+        [],
+        Object.assign(new Error("query failed"), fields)
+    );
+
+describe("translateDatabaseError", () => {
+    it("names the columns of a unique violation", () => {
+        const error = translateDatabaseError(
+            queryFailed({
+                code: "23505",
+                table: "organization_member",
+                constraint: "UQ_member",
+                detail: 'Key ("organizationId", "userId")=(1, 2) already exists.',
+            })
+        );
+
+        assert.ok(error instanceof UniqueViolationError);
+        assert.equal(error.statusCode, 409);
+        assert.equal(error.code, ErrorCode.ALREADY_EXISTS);
+        assert.deepEqual(error.columns, ["organizationId", "userId"]);
+        assert.equal(error.table, "organization_member");
+        assert.equal(error.constraint, "UQ_member");
+        assert.deepEqual(
+            error.errors?.map(({ field }) => field),
+            ["organizationId", "userId"]
+        );
+    });
+
+    it("tells missing references from rows still referenced", () => {
+        const missing = translateDatabaseError(
+            queryFailed({
+                code: "23503",
+                detail: 'Key (roleId)=(9) is not present in table "role".',
+            })
+        );
+        assert.ok(missing instanceof ForeignKeyViolationError);
+        assert.equal(missing.statusCode, 422);
+        assert.equal(missing.code, ErrorCode.REFERENCE_NOT_FOUND);
+        assert.deepEqual(missing.columns, ["roleId"]);
+
+        const referenced = translateDatabaseError(
+            queryFailed({
+                code: "23503",
+                detail: 'Key (id)=(1) is still referenced from table "user".',
+            })
+        );
+        assert.ok(referenced instanceof ForeignKeyViolationError);
+        assert.equal(referenced.statusCode, 409);
+        assert.equal(referenced.code, ErrorCode.RESOURCE_IN_USE);
+        assert.deepEqual(referenced.columns, []);
+    });
+
+    it("translates the other constraint and concurrency errors", () => {
+        const cases: Array<
+            [string, new (...args: never[]) => AppError, number]
+        > = [
+            ["23502", NotNullViolationError, 422],
+            ["23514", CheckViolationError, 422],
+            ["40001", SerializationFailureError, 409],
+            ["40P01", SerializationFailureError, 409],
+        ];
+        for (const [code, errorClass, statusCode] of cases) {
+            const error = translateDatabaseError(
+                queryFailed({ code, column: "name" })
+            );
+            assert.ok(error instanceof errorClass, code);
+            assert.equal(error?.statusCode, statusCode);
+        }
+        assert.deepEqual(
+            (
+                translateDatabaseError(
+                    queryFailed({ code: "23502", column: "name" })
+                ) as NotNullViolationError
+            ).columns,
+            ["name"]
+        );
+    });
+
+    it("reports a lost connection as an unavailable database", () => {
+        for (const error of [
+            queryFailed({ code: "08006" }),
+            queryFailed({ code: "57P01" }),
+            Object.assign(new Error("connect ECONNREFUSED"), {
+                code: "ECONNREFUSED",
+            }),
+            new Error("Connection terminated unexpectedly"),
+        ]) {
+            assert.ok(
+                translateDatabaseError(error) instanceof DatabaseUnavailableError
+            );
+        }
+    });
+
+    it("translates missing entities and leaves other errors alone", () => {
+        const notFound = translateDatabaseError(
+            new EntityNotFoundError(User, { id: 1 })
+        );
+        assert.equal(notFound?.statusCode, 404);
+        assert.equal(notFound?.code, ErrorCode.NOT_FOUND);
+
+        assert.equal(
+            translateDatabaseError(queryFailed({ code: "42601" })),
+            null
+        );
+        assert.equal(translateDatabaseError(new Error("bug")), null);
+        assert.equal(translateDatabaseError("not an error"), null);
+        assert.equal(
+            translateDatabaseError(new AppError("Not found.", 404)),
+            null
+        );
+    });
+});
+
+describe("onUniqueViolation", () => {
+    const emailInUse = () =>
+        new AppError("Email already in use.", 409, ErrorCode.EMAIL_IN_USE);
+
+    it("replaces the unique violations of the listed columns", async () => {
+        await assert.rejects(
+            onUniqueViolation(
+                Promise.reject(
+                    queryFailed({
+                        code: "23505",
+                        detail: "Key (email)=(john@example.com) already exists.",
+                    })
+                ),
+                { email: emailInUse }
+            ),
+            { code: ErrorCode.EMAIL_IN_USE }
+        );
+    });
+
+    it("rethrows the other errors unchanged", async () => {
+        const otherColumn = queryFailed({
+            code: "23505",
+            detail: "Key (name)=(john) already exists.",
+        });
+        await assert.rejects(
+            onUniqueViolation(Promise.reject(otherColumn), {
+                email: emailInUse,
+            }),
+            (error) => error === otherColumn
+        );
+        assert.equal(
+            await onUniqueViolation(Promise.resolve(1), { email: emailInUse }),
+            1
+        );
+    });
+});
@@ -0,0 +1,251 @@
+import type { NextFunction, Request, Response } from "express";
+import { EntityNotFoundError, QueryFailedError } from "typeorm";
+import { logger } from "../config/logger.js";
+import { AppError } from "./errorHandler.js";
+import { ErrorCode } from "./errorCodes.js";
+
+//Postgres SQLSTATE codes, see https://www.postgresql.org/docs/current/errcodes-appendix.html
+const UNIQUE_VIOLATION = "23505";
+const FOREIGN_KEY_VIOLATION = "23503";
+const NOT_NULL_VIOLATION = "23502";
+const CHECK_VIOLATION = "23514";
+const SERIALIZATION_FAILURE = "40001";
+const DEADLOCK_DETECTED = "40P01";
+//Server shutting down or restarting
+const SHUTDOWN_CODES = ["57P01", "57P02", "57P03"];
+//Node errors raised when the connection to the server is lost
+const CONNECTION_ERROR_CODES = ["ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EPIPE"];
+
+//Fields set by the pg driver on server errors
+interface PostgresError extends Error {
+    code?: string;
+    detail?: string;
+    table?: string;
+    column?: string;
+    constraint?: string;
+}
+
+/**
+ * Error raised by the database because of the data sent by the client.
+ */
+export class DatabaseError extends AppError {
+    table: string | null;
+    constraint: string | null;
+    //Columns of the constraint, named after the entity properties
+    columns: string[];
+
+    constructor(
+        message: string,
+        statusCode: number,
+        code: ErrorCode,
+        driverError: PostgresError,
+        columns: string[] = []
+    ) {
+        super(message, statusCode, code);
+        this.table = driverError.table ?? null;
+        this.constraint = driverError.constraint ?? null;
+        this.columns = columns;
+        if (columns.length > 0) {
+            this.errors = columns.map((column) => ({
+                field: column,
+                messages: [message],
+            }));
+        }
+    }
+}
+
+export class UniqueViolationError extends DatabaseError {
+    constructor(driverError: PostgresError) {
+        const columns = columnsOf(driverError);
+        super(
+            columns.length > 1
+                ? `${columns.join(", ")} are already in use.`
+                : `${columns[0] ?? "Value"} is already in use.`,
+            409,
+            ErrorCode.ALREADY_EXISTS,
+            driverError,
+            columns
+        );
+    }
+}
+
+/**
+ * A row references a missing row (422), or a row still referenced is deleted (409).
+ */
+export class ForeignKeyViolationError extends DatabaseError {
+    constructor(driverError: PostgresError) {
+        const referenced = /still referenced/.test(driverError.detail ?? "");
+        super(
+            referenced
+                ? "This resource is still used by other resources."
+                : "A referenced resource does not exist.",
+            referenced ? 409 : 422,
+            referenced
+                ? ErrorCode.RESOURCE_IN_USE
+                : ErrorCode.REFERENCE_NOT_FOUND,
+            driverError,
+            referenced ? [] : columnsOf(driverError)
+        );
+    }
+}
+
+export class NotNullViolationError extends DatabaseError {
+    constructor(driverError: PostgresError) {
+        const columns = driverError.column ? [driverError.column] : [];
+        super(
+            `${columns[0] ?? "A field"} is required.`,
+            422,
+            ErrorCode.MISSING_FIELD,
+            driverError,
+            columns
+        );
+    }
+}
+
+export class CheckViolationError extends DatabaseError {
+    constructor(driverError: PostgresError) {
+        super(
+            "A value does not satisfy a constraint.",
+            422,
+            ErrorCode.CONSTRAINT_VIOLATION,
+            driverError
+        );
+    }
+}
+
+/**
+ * The transaction conflicted with a concurrent one and was rolled back, the request can be sent again.
+ */
+export class SerializationFailureError extends DatabaseError {
+    constructor(driverError: PostgresError) {
+        super(
+            "The request conflicted with another one, please try again.",
+            409,
+            ErrorCode.TRANSACTION_CONFLICT,
+            driverError
+        );
+    }
+}
+
+export class DatabaseUnavailableError extends AppError {
+    constructor() {
+        super(
+            "Database unavailable, please try again later.",
+            503,
+            ErrorCode.DATABASE_UNAVAILABLE
+        );
+    }
+}
+
+/**
+ * Read the columns of a constraint from the detail of the error, e.g. Key ("organizationId", "userId")=(1, 2) already exists.
+ * @param driverError Error of the pg driver.
+ * @returns Names of the columns, empty if the detail is missing.
+ */
+const columnsOf = (driverError: PostgresError): string[] => {
+    const match = /^Key \((.+?)\)=/.exec(driverError.detail ?? "");
+    if (!match) {
+        return [];
+    }
+    return (match[1] as string)
+        .split(", ")
+        .map((column) => column.replace(/^"|"$/g, ""));
+};
+
+/**
+ * Convert the errors of TypeORM and of the pg driver into AppError.
+ * @param error Caught error.
+ * @returns Matching AppError, null if the error does not come from the database or is unexpected.
+ */
+export const translateDatabaseError = (error: unknown): AppError | null => {
+    if (error instanceof AppError) {
+        return null;
+    }
+    if (error instanceof EntityNotFoundError) {
+        return new AppError("Resource not found.", 404, ErrorCode.NOT_FOUND);
+    }
+
+    const driverError: PostgresError | null =
+        error instanceof QueryFailedError
+            ? error.driverError
+            : error instanceof Error
+              ? error
+              : null;
+    if (!driverError) {
+        return null;
+    }
+    const code = driverError.code ?? "";
+
+    switch (code) {
+        case UNIQUE_VIOLATION:
+            return new UniqueViolationError(driverError);
+        case FOREIGN_KEY_VIOLATION:
+            return new ForeignKeyViolationError(driverError);
+        case NOT_NULL_VIOLATION:
+            return new NotNullViolationError(driverError);
+        case CHECK_VIOLATION:
+            return new CheckViolationError(driverError);
+        case SERIALIZATION_FAILURE:
+        case DEADLOCK_DETECTED:
+            return new SerializationFailureError(driverError);
+    }
+    //Class 08 holds the connection exceptions
+    if (
+        code.startsWith("08") ||
+        SHUTDOWN_CODES.includes(code) ||
+        CONNECTION_ERROR_CODES.includes(code) ||
+        /^Connection terminated/.test(driverError.message)
+    ) {
+        return new DatabaseUnavailableError();
+    }
+    return null;
+};
+
+/**
+ * Replace the unique violations of some columns by a specific error, other errors are thrown unchanged.
+ * Services rely on it instead of checking the value is free before writing, which races with concurrent requests.
+ * @param operation Write to the database.
+ * @param errors Error factory for each column.
+ * @returns Result of the operation.
+ */
+export const onUniqueViolation = async <T>(
+    operation: Promise<T>,
+    errors: Record<string, () => AppError>
+): Promise<T> => {
+    try {
+        return await operation;
+    } catch (error) {
+        const databaseError = translateDatabaseError(error);
+        if (databaseError instanceof UniqueViolationError) {
+            const column = databaseError.columns.find((name) => name in errors);
+            if (column) {
+                throw (errors[column] as () => AppError)();
+            }
+        }
+        throw error;
+    }
+};
+
+/**
+ * Error middleware converting database errors before they reach errorHandler.
+ * The original error is logged if the database itself is failing.
+ * @param err Caught error.
+ * @param req Incoming request.
+ * @param res Response for the incoming request.
+ * @param next Next function.
+ */
+export const databaseErrorTranslator = (
+    err: Error,
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const error = translateDatabaseError(err);
+    if (!error) {
+        return next(err);
+    }
+    if (error.statusCode >= 500) {
+        logger.error(err.stack || err);
+    }
+    next(error);
+};
@@ -0,0 +1,132 @@
+/**
+ * Machine-readable codes sent with every error response, clients must rely on them instead of the message.
+ * Codes are part of the API contract: never rename one, add a new code instead.
+ */
+export enum ErrorCode {
+    //Generic codes, used when no specific code is given
+    BAD_REQUEST = "BAD_REQUEST",
+    UNAUTHORIZED = "UNAUTHORIZED",
+    FORBIDDEN = "FORBIDDEN",
+    NOT_FOUND = "NOT_FOUND",
+    METHOD_NOT_ALLOWED = "METHOD_NOT_ALLOWED",
+    CONFLICT = "CONFLICT",
+    GONE = "GONE",
+    PAYLOAD_TOO_LARGE = "PAYLOAD_TOO_LARGE",
+    TOO_MANY_REQUESTS = "TOO_MANY_REQUESTS",
+    INTERNAL_ERROR = "INTERNAL_ERROR",
+    BAD_GATEWAY = "BAD_GATEWAY",
+    SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
+
+    //Request
+    ROUTE_NOT_FOUND = "ROUTE_NOT_FOUND",
+    INVALID_JSON = "INVALID_JSON",
+    VALIDATION_FAILED = "VALIDATION_FAILED",
+    MISSING_PARAMETER = "MISSING_PARAMETER",
+    INVALID_QUERY_PARAMETER = "INVALID_QUERY_PARAMETER",
+    ALREADY_EXISTS = "ALREADY_EXISTS",
+    CONFIGURATION_ERROR = "CONFIGURATION_ERROR",
+
+    //Database
+    REFERENCE_NOT_FOUND = "REFERENCE_NOT_FOUND",
+    RESOURCE_IN_USE = "RESOURCE_IN_USE",
+    MISSING_FIELD = "MISSING_FIELD",
+    CONSTRAINT_VIOLATION = "CONSTRAINT_VIOLATION",
+    TRANSACTION_CONFLICT = "TRANSACTION_CONFLICT",
+    DATABASE_UNAVAILABLE = "DATABASE_UNAVAILABLE",
+
+    //Authentication
+    AUTHENTICATION_REQUIRED = "AUTHENTICATION_REQUIRED",
+    INVALID_CREDENTIALS = "INVALID_CREDENTIALS",
+    INCORRECT_PASSWORD = "INCORRECT_PASSWORD",
+    INVALID_PASSWORD_FORMAT = "INVALID_PASSWORD_FORMAT",
+    PASSWORD_UNCHANGED = "PASSWORD_UNCHANGED",
+    PASSWORD_CHANGE_REQUIRED = "PASSWORD_CHANGE_REQUIRED",
+    ACCOUNT_DISABLED = "ACCOUNT_DISABLED",
+    INVALID_TOKEN = "INVALID_TOKEN",
+    INVALID_REFRESH_TOKEN = "INVALID_REFRESH_TOKEN",
+    INVALID_VERIFICATION_TOKEN = "INVALID_VERIFICATION_TOKEN",
+    INVALID_RESET_TOKEN = "INVALID_RESET_TOKEN",
+    SESSION_REVOKED = "SESSION_REVOKED",
+    SESSION_NOT_FOUND = "SESSION_NOT_FOUND",
+    EMAIL_NOT_VERIFIED = "EMAIL_NOT_VERIFIED",
+    EMAIL_ALREADY_VERIFIED = "EMAIL_ALREADY_VERIFIED",
+
+    //Authorization
+    INSUFFICIENT_PERMISSIONS = "INSUFFICIENT_PERMISSIONS",
+    API_KEY_NOT_ALLOWED = "API_KEY_NOT_ALLOWED",
+    API_KEY_SCOPE_MISSING = "API_KEY_SCOPE_MISSING",
+    IMPERSONATION_NOT_ALLOWED = "IMPERSONATION_NOT_ALLOWED",
+
+    //Two-factor authentication
+    TWO_FACTOR_REQUIRED = "TWO_FACTOR_REQUIRED",
+    TWO_FACTOR_NOT_ENABLED = "TWO_FACTOR_NOT_ENABLED",
+    TWO_FACTOR_ALREADY_ENABLED = "TWO_FACTOR_ALREADY_ENABLED",
+    TWO_FACTOR_SETUP_NOT_STARTED = "TWO_FACTOR_SETUP_NOT_STARTED",
+    INVALID_TWO_FACTOR_CODE = "INVALID_TWO_FACTOR_CODE",
+    INVALID_RECOVERY_CODE = "INVALID_RECOVERY_CODE",
+    INVALID_TWO_FACTOR_CHALLENGE = "INVALID_TWO_FACTOR_CHALLENGE",
+
+    //Users
+    USER_NOT_FOUND = "USER_NOT_FOUND",
+    EMAIL_IN_USE = "EMAIL_IN_USE",
+    USERNAME_IN_USE = "USERNAME_IN_USE",
+    USER_ALREADY_DISABLED = "USER_ALREADY_DISABLED",
+    USER_NOT_DISABLED = "USER_NOT_DISABLED",
+    USER_NOT_DELETED = "USER_NOT_DELETED",
+    CANNOT_DISABLE_SELF = "CANNOT_DISABLE_SELF",
+
+    //Impersonation
+    CANNOT_IMPERSONATE_SELF = "CANNOT_IMPERSONATE_SELF",
+    IMPERSONATION_NOT_FOUND = "IMPERSONATION_NOT_FOUND",
+    IMPERSONATION_ENDED = "IMPERSONATION_ENDED",
+    NOT_IMPERSONATING = "NOT_IMPERSONATING",
+
+    //Roles
+    ROLE_NOT_FOUND = "ROLE_NOT_FOUND",
+    UNKNOWN_ROLE = "UNKNOWN_ROLE",
+    UNKNOWN_PERMISSION = "UNKNOWN_PERMISSION",
+    INVALID_ROLE_NAME = "INVALID_ROLE_NAME",
+    ROLE_ALREADY_EXISTS = "ROLE_ALREADY_EXISTS",
+    ROLE_IN_USE = "ROLE_IN_USE",
+    ROLE_PROTECTED = "ROLE_PROTECTED",
+
+    //API keys
+    API_KEY_NOT_FOUND = "API_KEY_NOT_FOUND",
+    INVALID_API_KEY = "INVALID_API_KEY",
+    INVALID_API_KEY_NAME = "INVALID_API_KEY_NAME",
+    INVALID_API_KEY_SCOPE = "INVALID_API_KEY_SCOPE",
+    INVALID_API_KEY_EXPIRATION = "INVALID_API_KEY_EXPIRATION",
+    API_KEY_LIMIT_REACHED = "API_KEY_LIMIT_REACHED",
+
+    //Organizations
+    NO_ORGANIZATION_SELECTED = "NO_ORGANIZATION_SELECTED",
+    ORGANIZATION_NOT_FOUND = "ORGANIZATION_NOT_FOUND",
+    INVALID_ORGANIZATION_NAME = "INVALID_ORGANIZATION_NAME",
+    INVALID_ORGANIZATION_SLUG = "INVALID_ORGANIZATION_SLUG",
+    ORGANIZATION_SLUG_IN_USE = "ORGANIZATION_SLUG_IN_USE",
+    INVALID_ORGANIZATION_ROLE = "INVALID_ORGANIZATION_ROLE",
+    MEMBER_NOT_FOUND = "MEMBER_NOT_FOUND",
+    ALREADY_MEMBER = "ALREADY_MEMBER",
+    LAST_OWNER = "LAST_OWNER",
+    INVALID_EMAIL = "INVALID_EMAIL",
+    INVITATION_NOT_FOUND = "INVITATION_NOT_FOUND",
+    INVALID_INVITATION = "INVALID_INVITATION",
+    INVITATION_EMAIL_MISMATCH = "INVITATION_EMAIL_MISMATCH",
+
+    //Social login
+    UNKNOWN_IDENTITY_PROVIDER = "UNKNOWN_IDENTITY_PROVIDER",
+    IDENTITY_PROVIDER_ERROR = "IDENTITY_PROVIDER_ERROR",
+    IDENTITY_PROVIDER_REFUSED = "IDENTITY_PROVIDER_REFUSED",
+    INVALID_ID_TOKEN = "INVALID_ID_TOKEN",
+    INVALID_LOGIN_REQUEST = "INVALID_LOGIN_REQUEST",
+    IDENTITY_ALREADY_LINKED = "IDENTITY_ALREADY_LINKED",
+    IDENTITY_EMAIL_MISSING = "IDENTITY_EMAIL_MISSING",
+    IDENTITY_LINK_REQUIRED = "IDENTITY_LINK_REQUIRED",
+
+    //Personal data export
+    INVALID_EXPORT_FORMAT = "INVALID_EXPORT_FORMAT",
+    DATA_EXPORT_NOT_FOUND = "DATA_EXPORT_NOT_FOUND",
+    DATA_EXPORT_PENDING = "DATA_EXPORT_PENDING",
+    DATA_EXPORT_FAILED = "DATA_EXPORT_FAILED",
+    INVALID_DOWNLOAD_LINK = "INVALID_DOWNLOAD_LINK",
+}
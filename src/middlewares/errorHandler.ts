@@ -1,25 +1,144 @@
 import type { Request, Response, NextFunction } from "express";
+import { STATUS_CODES } from "http";
 import { logger } from "../config/logger.js";
+import { ErrorCode } from "./errorCodes.js";
+
+//Code used when an AppError is created without a specific one
+const DEFAULT_CODES: Record<number, ErrorCode> = {
+    400: ErrorCode.BAD_REQUEST,
+    401: ErrorCode.UNAUTHORIZED,
+    403: ErrorCode.FORBIDDEN,
+    404: ErrorCode.NOT_FOUND,
+    405: ErrorCode.METHOD_NOT_ALLOWED,
+    409: ErrorCode.CONFLICT,
+    410: ErrorCode.GONE,
+    413: ErrorCode.PAYLOAD_TOO_LARGE,
+    422: ErrorCode.VALIDATION_FAILED,
+    429: ErrorCode.TOO_MANY_REQUESTS,
+    500: ErrorCode.INTERNAL_ERROR,
+    502: ErrorCode.BAD_GATEWAY,
+    503: ErrorCode.SERVICE_UNAVAILABLE,
+};
+
+//Base URL of the documentation of each error code, types are "about:blank" if not set
+const PROBLEM_TYPE_BASE_URL = process.env.PROBLEM_TYPE_BASE_URL?.replace(/\/+$/, "");
+
+export interface FieldError {
+    //Path of the invalid field, nested fields are joined with dots
+    field: string;
+    messages: string[];
+}
 
 export class AppError extends Error {
     statusCode: number;
-    status: string;
+    code: ErrorCode;
+    //Fields of the request causing the error, if they are known
+    errors?: FieldError[];
 
-    constructor(message: string, statusCode: number) {
+    constructor(message: string, statusCode: number, code?: ErrorCode) {
         super(message);
         this.statusCode = statusCode;
-        this.status = `${statusCode}`;
+        this.code =
+            code ??
+            DEFAULT_CODES[statusCode] ??
+            (statusCode >= 500 ? ErrorCode.INTERNAL_ERROR : ErrorCode.BAD_REQUEST);
+    }
+}
+
+/**
+ * Error raised when the input of a request does not match its DTO, answered with a 422 listing each invalid field.
+ */
+export class ValidationError extends AppError {
+    constructor(errors: FieldError[]) {
+        super("Validation failed.", 422, ErrorCode.VALIDATION_FAILED);
+        this.errors = errors;
     }
 }
 
 /**
- * Handle error logging for the API. If the passed error is an instance of AppError, 
- * return a HTTP response feature said error and its status code, otherwise use the status code 500.
+ * Body of error responses, as described by RFC 7807 (application/problem+json).
+ */
+export interface ProblemDetails {
+    type: string;
+    //Reason phrase of the status code
+    title: string;
+    status: number;
+    detail: string;
+    //Path of the request which failed
+    instance: string;
+    code: ErrorCode;
+    requestId: string;
+    errors?: FieldError[];
+}
+
+/**
+ * Convert the errors thrown by Express into AppError when their meaning is known.
+ * Database errors are converted earlier by databaseErrorTranslator.
+ * @param err Caught error.
+ * @returns Matching AppError, null if the error is unexpected.
+ */
+const toAppError = (err: Error): AppError | null => {
+    if (err instanceof AppError) {
+        return err;
+    }
+    //Errors of express.json(), the request body could not be read
+    const type = (err as Error & { type?: string }).type;
+    if (type === "entity.parse.failed") {
+        return new AppError("Malformed JSON body.", 400, ErrorCode.INVALID_JSON);
+    }
+    if (type === "entity.too.large") {
+        return new AppError(
+            "Request body is too large.",
+            413,
+            ErrorCode.PAYLOAD_TOO_LARGE
+        );
+    }
+    return null;
+};
+
+/**
+ * Build the problem details of an error.
+ * @param error Error to describe.
+ * @param req Request which failed.
+ * @returns Problem details.
+ */
+const toProblem = (error: AppError, req: Request): ProblemDetails => {
+    return {
+        type: PROBLEM_TYPE_BASE_URL
+            ? `${PROBLEM_TYPE_BASE_URL}/${error.code.toLowerCase().replace(/_/g, "-")}`
+            : "about:blank",
+        title: STATUS_CODES[error.statusCode] ?? "Error",
+        status: error.statusCode,
+        detail: error.message,
+        instance: req.originalUrl,
+        code: error.code,
+        requestId: req.id,
+        ...(error.errors && { errors: error.errors }),
+    };
+};
+
+/**
+ * Answer the requests which did not match any route.
+ * @param req Incoming request.
+ * @param res Response for the incoming request.
+ * @param next Next function.
+ */
+export const notFoundHandler = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    next(new AppError("Route not found.", 404, ErrorCode.ROUTE_NOT_FOUND));
+};
+
+/**
+ * Handle error logging for the API and answer with application/problem+json.
+ * AppError and known Express errors keep their status code and error code, other errors become a 500.
  * @param err Caught error.
  * @param req Incoming request.
  * @param res Response for the incoming request.
  * @param next Next function.
- * @returns 
+ * @returns
  */
 export const errorHandler = (
     err: Error | AppError,
@@ -27,22 +146,22 @@ export const errorHandler = (
     res: Response,
     next: NextFunction
 ) => {
-    if (err instanceof AppError) {
-        logger.error(
-            `user id: ${req.user?.id || "anonymous"} - ${err.message}`
-        );
-        return res.status(err.statusCode).json({
-            status: err.status,
-            message: err.message,
-        });
-    }
-
-    logger.error(err.stack || err);
-    return res.status(500).json({
-        status: "error",
-        message:
+    let error = toAppError(err);
+    if (error) {
+        logger.error(`${error.code} ${error.message}`);
+    } else {
+        logger.error(err.stack || err);
+        error = new AppError(
             process.env.NODE_ENV === "development"
                 ? err.message
                 : "Internal server error",
-    });
+            500,
+            ErrorCode.INTERNAL_ERROR
+        );
+    }
+
+    return res
+        .status(error.statusCode)
+        .type("application/problem+json")
+        .json(toProblem(error, req));
 };
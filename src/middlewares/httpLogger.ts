@@ -13,7 +13,6 @@ export const httpLogger = (req: Request, res: Response, next: NextFunction) => {
     logger.info(`← ${req.method} ${req.originalUrl}`, {
         ip: req.ip,
         userAgent: req.get("user-agent"),
-        userID: req.user?.id || "anonymous",
     });
 
     const originalSend = res.send;
@@ -26,7 +25,6 @@ export const httpLogger = (req: Request, res: Response, next: NextFunction) => {
             `→ ${req.method} ${req.originalUrl} ${res.statusCode}`, {
                 duration: `${duration}ms`,
                 statusCode: res.statusCode,
-                userID: req.user?.id || "anonymous",
             }
         );
 
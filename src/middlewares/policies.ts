@@ -0,0 +1,82 @@
+import type { AuthRequest } from "./authMiddleware.js";
+import type { OrganizationRole } from "../models/Membership.js";
+import type { Permission } from "../models/Permission.js";
+import { roleService } from "../modules/role/role.service.js";
+
+/**
+ * Predicate deciding if the logged in user may act on the requested resource, evaluated by authorize after authenticate.
+ * A policy can load the resource itself, errors thrown inside it are forwarded to the error handler.
+ */
+export type Policy = (req: AuthRequest) => boolean | Promise<boolean>;
+
+/**
+ * Allow the user whose id is in the specified route parameter.
+ * @param param Name of the route parameter holding the user id.
+ * @returns Policy.
+ */
+export const isSelf = (param: string = "id"): Policy => {
+    return (req) => req.params[param] === `${req.user.id}`;
+};
+
+/**
+ * Allow users whose role grants every specified permission.
+ * @param permissions Required permissions.
+ * @returns Policy.
+ */
+export const hasPermission = (...permissions: Permission[]): Policy => {
+    return (req) => roleService.hasPermissions(req.user.role, permissions);
+};
+
+/**
+ * Allow the request if at least one of the policies allows it, policies are evaluated in order.
+ * @param policies Policies to combine.
+ * @returns Policy.
+ */
+export const anyOf = (...policies: Policy[]): Policy => {
+    return async (req) => {
+        for (const policy of policies) {
+            if (await policy(req)) {
+                return true;
+            }
+        }
+        return false;
+    };
+};
+
+/**
+ * Allow the request only if every policy allows it, policies are evaluated in order.
+ * @param policies Policies to combine.
+ * @returns Policy.
+ */
+export const allOf = (...policies: Policy[]): Policy => {
+    return async (req) => {
+        for (const policy of policies) {
+            if (!(await policy(req))) {
+                return false;
+            }
+        }
+        return true;
+    };
+};
+
+/**
+ * Allow the user targeted by the route or users whose role grants the administration permission.
+ * @param permission Permission replacing the ownership, e.g. users:read for GET /users/:id.
+ * @param param Name of the route parameter holding the user id.
+ * @returns Policy.
+ */
+export const isSelfOrAdmin = (
+    permission: Permission,
+    param: string = "id"
+): Policy => {
+    return anyOf(isSelf(param), hasPermission(permission));
+};
+
+/**
+ * Allow members of the current organization having one of the specified roles, must be used after resolveTenant.
+ * @param roles Allowed organization roles.
+ * @returns Policy.
+ */
+export const hasOrganizationRole = (...roles: OrganizationRole[]): Policy => {
+    return (req) => !!req.tenant && roles.includes(req.tenant.role);
+};
@@ -1,13 +1,22 @@
-import rateLimit from "express-rate-limit";
+import rateLimit, { type RateLimitExceededEventHandler } from "express-rate-limit";
+import { AppError } from "./errorHandler.js";
+import { ErrorCode } from "./errorCodes.js";
+
+/**
+ * Forward the requests over the limit to the error handler, so they are answered like every other error.
+ * @param message Message of the error.
+ * @returns Handler for express-rate-limit.
+ */
+const rejectRequest = (message: string): RateLimitExceededEventHandler => {
+    return (req, res, next, options) =>
+        next(new AppError(message, options.statusCode, ErrorCode.TOO_MANY_REQUESTS));
+};
 
 //100 requêtes/15min
 export const apiLimiter = rateLimit({
     windowMs: 15*60*1000,
     max: 100,
-    message: {
-        status: "fail",
-        message: "Too many requests, please try again later."
-    },
+    handler: rejectRequest("Too many requests, please try again later."),
     standardHeaders: true,
     legacyHeaders: false,
 });
@@ -16,10 +25,7 @@ export const apiLimiter = rateLimit({
 export const registerLimiter = rateLimit({
     windowMs: 60*1000,
     max: 2,
-    message: {
-        status: "fail",
-        message: "Too many register attempts, please try again later."
-    },
+    handler: rejectRequest("Too many register attempts, please try again later."),
     standardHeaders: true,
     legacyHeaders: false,
 });
@@ -28,23 +34,26 @@ export const registerLimiter = rateLimit({
 export const loginLimiter = rateLimit({
     windowMs: 5*60*1000,
     max: 5,
-    message: {
-        status: "fail",
-        message: "Too many login attempts, please try again later."
-    },
+    handler: rejectRequest("Too many login attempts, please try again later."),
     standardHeaders: true,
     legacyHeaders: false,
 });
 
 
+//Limite l'envoi de mails
+export const mailLimiter = rateLimit({
+    windowMs: 15*60*1000,
+    max: 3,
+    handler: rejectRequest("Too many e-mail requests, please try again later."),
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
 //Limite le refresh du token
 export const refreshLimiter = rateLimit({
     windowMs: 15*60*1000,
     max: 10,
-    message: {
-        status: "fail",
-        message: "Too many refresh attempts, please try again later."
-    },
+    handler: rejectRequest("Too many refresh attempts, please try again later."),
     standardHeaders: true,
     legacyHeaders: false,
 });
\ No newline at end of file
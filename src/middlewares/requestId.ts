@@ -0,0 +1,65 @@
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import {
+    requestContext,
+    type RequestContext,
+} from "../modules/core/requestContext.js";
+
+declare global {
+    namespace Express {
+        interface Request {
+            id: string;
+        }
+    }
+}
+
+//Ids sent by a proxy or a client are kept if they cannot be used to inject anything in logs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+//W3C trace context: version-traceid-parentid-flags
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * Read the trace and parent ids of a W3C traceparent header.
+ * @param header Value of the traceparent header.
+ * @returns Trace and parent ids, null if the header is missing or invalid.
+ */
+const parseTraceparent = (
+    header: string | undefined
+): { traceId: string; parentId: string } | null => {
+    const match = TRACEPARENT_PATTERN.exec(header?.trim().toLowerCase() ?? "");
+    if (
+        !match ||
+        match[1] === "ff" ||
+        /^0+$/.test(match[2] as string) ||
+        /^0+$/.test(match[3] as string)
+    ) {
+        return null;
+    }
+    return { traceId: match[2] as string, parentId: match[3] as string };
+};
+
+/**
+ * Give an id to each request and run the rest of the request inside its context, see requestContext.
+ * The X-Request-Id header is reused if it is valid, otherwise the trace id of a traceparent header, otherwise a new id is generated.
+ * The id is sent back in the X-Request-Id response header and in error responses.
+ * @param req Incoming request.
+ * @param res Response for the incoming request.
+ * @param next Next function.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get("X-Request-Id");
+    const trace = parseTraceparent(req.get("traceparent"));
+
+    req.id =
+        header && REQUEST_ID_PATTERN.test(header)
+            ? header
+            : (trace?.traceId ?? randomUUID());
+    res.setHeader("X-Request-Id", req.id);
+
+    const context: RequestContext = { requestId: req.id };
+    if (trace) {
+        context.traceId = trace.traceId;
+        context.parentId = trace.parentId;
+    }
+    requestContext.run(context, () => next());
+};
@@ -0,0 +1,94 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "./errorHandler.js";
+import { ErrorCode } from "./errorCodes.js";
+import { tenantContext, type Tenant } from "../modules/core/tenantContext.js";
+import { organizationService } from "../modules/organization/organization.service.js";
+
+declare global {
+    namespace Express {
+        interface Request {
+            tenant?: Tenant;
+        }
+    }
+}
+
+type TenantSource = "path" | "header" | "subdomain";
+
+//Sources tried in order, TENANT_RESOLVERS="path,header,subdomain" by default
+const TENANT_SOURCES = (process.env.TENANT_RESOLVERS || "path,header,subdomain")
+    .split(",")
+    .map((source) => source.trim().toLowerCase())
+    .filter((source): source is TenantSource =>
+        ["path", "header", "subdomain"].includes(source)
+    );
+
+/**
+ * Read the slug of the organization targeted by a request.
+ * - path : ":organization" route parameter
+ * - header : "X-Organization" header
+ * - subdomain : "<slug>.TENANT_DOMAIN" host, only if TENANT_DOMAIN is set
+ * @param req Incoming request.
+ * @returns Slug of the organization, undefined if the request does not target one.
+ */
+const getTenantSlug = (req: Request): string | undefined => {
+    for (const source of TENANT_SOURCES) {
+        if (source === "path" && req.params.organization) {
+            return req.params.organization;
+        }
+        if (source === "header") {
+            const header = req.headers["x-organization"];
+            if (typeof header === "string" && header) {
+                return header.trim();
+            }
+        }
+        if (source === "subdomain" && process.env.TENANT_DOMAIN) {
+            const suffix = `.${process.env.TENANT_DOMAIN.toLowerCase()}`;
+            const hostname = req.hostname.toLowerCase();
+            if (hostname.endsWith(suffix)) {
+                const subdomain = hostname.slice(0, -suffix.length);
+                if (subdomain && !subdomain.includes(".")) {
+                    return subdomain;
+                }
+            }
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Select the organization of the request, must be used after authenticate.
+ * The logged in user must be member of the organization, the tenant and the membership role are then
+ * stored under req.tenant and inside tenantContext so TenantRepository scopes every query to this organization.
+ * @param req Incoming request.
+ * @param res Response for the incoming request.
+ * @param next Function to execute after this one.
+ */
+export const resolveTenant = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    let tenant: Tenant;
+    try {
+        if (!req.user) {
+            throw new AppError(
+                "You need to be logged in.",
+                401,
+                ErrorCode.AUTHENTICATION_REQUIRED
+            );
+        }
+        const slug = getTenantSlug(req);
+        if (!slug) {
+            throw new AppError(
+                "No organization selected.",
+                400,
+                ErrorCode.NO_ORGANIZATION_SELECTED
+            );
+        }
+        tenant = await organizationService.getTenant(req.user.id, slug);
+    } catch (error) {
+        return next(error);
+    }
+    req.tenant = tenant;
+    tenantContext.run(tenant, () => next());
+};
@@ -0,0 +1,86 @@
+import type { Request, Response, NextFunction } from "express";
+import { plainToInstance, type ClassConstructor } from "class-transformer";
+import { validate, type ValidationError as ConstraintError } from "class-validator";
+import { ValidationError, type FieldError } from "./errorHandler.js";
+
+type RequestSource = "body" | "query" | "params";
+
+/**
+ * Flatten the errors of class-validator, nested objects are reported with the path of their fields.
+ * @param errors Errors returned by validate.
+ * @param parent Path of the parent object.
+ * @returns One entry per invalid field.
+ */
+const toFieldErrors = (
+    errors: ConstraintError[],
+    parent: string = ""
+): FieldError[] => {
+    return errors.flatMap((error) => {
+        const field = parent ? `${parent}.${error.property}` : error.property;
+        const fieldErrors: FieldError[] = error.constraints
+            ? [{ field: field, messages: Object.values(error.constraints) }]
+            : [];
+        return fieldErrors.concat(toFieldErrors(error.children ?? [], field));
+    });
+};
+
+/**
+ * Transform a part of the request into an instance of a DTO and validate it.
+ * Fields without validation decorator are stripped, the request part is replaced by the validated instance.
+ * @param dto Class describing the expected input.
+ * @param source Part of the request to validate.
+ * @returns Middleware answering 422 with the invalid fields.
+ */
+const validateRequest = <T extends object>(
+    dto: ClassConstructor<T>,
+    source: RequestSource
+) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const instance = plainToInstance(dto, req[source] ?? {});
+            const errors = await validate(instance, {
+                whitelist: true,
+                forbidUnknownValues: true,
+            });
+            if (errors.length > 0) {
+                throw new ValidationError(toFieldErrors(errors));
+            }
+            //req.query is a getter since Express 5, it cannot be assigned
+            Object.defineProperty(req, source, {
+                value: instance,
+                writable: true,
+                enumerable: true,
+                configurable: true,
+            });
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+};
+
+/**
+ * Validate the body of the request against a DTO.
+ * @param dto Class describing the expected body.
+ * @returns Middleware.
+ */
+export const validateBody = <T extends object>(dto: ClassConstructor<T>) =>
+    validateRequest(dto, "body");
+
+/**
+ * Validate the query string of the request against a DTO.
+ * Query values are strings, use @Type from class-transformer to convert them.
+ * @param dto Class describing the expected query.
+ * @returns Middleware.
+ */
+export const validateQuery = <T extends object>(dto: ClassConstructor<T>) =>
+    validateRequest(dto, "query");
+
+/**
+ * Validate the route parameters of the request against a DTO.
+ * Parameters are strings, use @Type from class-transformer to convert them.
+ * @param dto Class describing the expected parameters.
+ * @returns Middleware.
+ */
+export const validateParams = <T extends object>(dto: ClassConstructor<T>) =>
+    validateRequest(dto, "params");
@@ -0,0 +1,48 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Store User.role as a role name instead of the former ADMIN/USER enum, so custom roles can be assigned.
+ * Existing values are kept, databases where the column is already a varchar are left unchanged.
+ */
+export class UserRoleToVarchar1760900000000 implements MigrationInterface {
+    name = "UserRoleToVarchar1760900000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const [column] = await queryRunner.query(
+            `SELECT "data_type", "udt_name" FROM "information_schema"."columns"
+            WHERE "table_schema" = current_schema() AND "table_name" = 'user' AND "column_name" = 'role'`
+        );
+        if (!column || column.data_type !== "USER-DEFINED") {
+            return;
+        }
+        await queryRunner.query(
+            `ALTER TABLE "user" ALTER COLUMN "role" DROP DEFAULT`
+        );
+        await queryRunner.query(
+            `ALTER TABLE "user" ALTER COLUMN "role" TYPE varchar(50) USING "role"::text`
+        );
+        await queryRunner.query(
+            `ALTER TABLE "user" ALTER COLUMN "role" SET DEFAULT 'USER'`
+        );
+        await queryRunner.query(`DROP TYPE IF EXISTS "${column.udt_name}"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TYPE "user_role_enum" AS ENUM('ADMIN', 'USER')`
+        );
+        //Custom roles do not exist in the enum
+        await queryRunner.query(
+            `UPDATE "user" SET "role" = 'USER' WHERE "role" NOT IN ('ADMIN', 'USER')`
+        );
+        await queryRunner.query(
+            `ALTER TABLE "user" ALTER COLUMN "role" DROP DEFAULT`
+        );
+        await queryRunner.query(
+            `ALTER TABLE "user" ALTER COLUMN "role" TYPE "user_role_enum" USING "role"::"user_role_enum"`
+        );
+        await queryRunner.query(
+            `ALTER TABLE "user" ALTER COLUMN "role" SET DEFAULT 'USER'`
+        );
+    }
+}
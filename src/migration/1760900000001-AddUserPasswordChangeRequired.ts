@@ -0,0 +1,22 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Add User.passwordChangeRequired, existing users keep their password.
+ */
+export class AddUserPasswordChangeRequired1760900000001
+    implements MigrationInterface
+{
+    name = "AddUserPasswordChangeRequired1760900000001";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `ALTER TABLE IF EXISTS "user" ADD COLUMN IF NOT EXISTS "passwordChangeRequired" boolean NOT NULL DEFAULT false`
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `ALTER TABLE IF EXISTS "user" DROP COLUMN IF EXISTS "passwordChangeRequired"`
+        );
+    }
+}
@@ -0,0 +1,22 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Add User.twoFactorFailedAttempts.
+ */
+export class AddUserTwoFactorFailedAttempts1760900000002
+    implements MigrationInterface
+{
+    name = "AddUserTwoFactorFailedAttempts1760900000002";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `ALTER TABLE IF EXISTS "user" ADD COLUMN IF NOT EXISTS "twoFactorFailedAttempts" integer NOT NULL DEFAULT 0`
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `ALTER TABLE IF EXISTS "user" DROP COLUMN IF EXISTS "twoFactorFailedAttempts"`
+        );
+    }
+}
@@ -0,0 +1,51 @@
+import type { MigrationInterface, QueryRunner } from "typeorm";
+
+const FOREIGN_KEYS = [
+    { column: "actorId", constraint: "FK_8ecb0b2c75946ae54325d5c4f67" },
+    { column: "targetId", constraint: "FK_cb7a193613e1bcf637046676df5" },
+];
+
+/**
+ * Keep the impersonations of purged users as an audit trail: their actor and target are set to null instead of deleting the row.
+ */
+export class KeepImpersonationsOfPurgedUsers1760900000003
+    implements MigrationInterface
+{
+    name = "KeepImpersonationsOfPurgedUsers1760900000003";
+
+    /**
+     * Replace the foreign keys of the impersonation table.
+     * @param queryRunner Query runner of the migration.
+     * @param onDelete Action of the new foreign keys.
+     */
+    private async replaceForeignKeys(
+        queryRunner: QueryRunner,
+        onDelete: "SET NULL" | "CASCADE"
+    ): Promise<void> {
+        for (const { column, constraint } of FOREIGN_KEYS) {
+            await queryRunner.query(
+                `ALTER TABLE IF EXISTS "impersonation" DROP CONSTRAINT IF EXISTS "${constraint}"`
+            );
+            await queryRunner.query(
+                `ALTER TABLE IF EXISTS "impersonation" ALTER COLUMN "${column}" ${onDelete === "SET NULL" ? "DROP" : "SET"} NOT NULL`
+            );
+            await queryRunner.query(
+                `ALTER TABLE IF EXISTS "impersonation" ADD CONSTRAINT "${constraint}" FOREIGN KEY ("${column}") REFERENCES "user"("id") ON DELETE ${onDelete} ON UPDATE NO ACTION`
+            );
+        }
+    }
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await this.replaceForeignKeys(queryRunner, "SET NULL");
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        //Rows of purged users cannot be kept without their actor or target
+        if (await queryRunner.hasTable("impersonation")) {
+            await queryRunner.query(
+                `DELETE FROM "impersonation" WHERE "actorId" IS NULL OR "targetId" IS NULL`
+            );
+        }
+        await this.replaceForeignKeys(queryRunner, "CASCADE");
+    }
+}
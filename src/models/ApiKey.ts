@@ -0,0 +1,49 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+export enum ApiKeyScope {
+    //Safe methods only (GET, HEAD, OPTIONS)
+    READ = "read",
+    WRITE = "write",
+}
+
+@Entity()
+export class ApiKey {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({type: 'varchar', length: 100})
+    name!: string;
+
+    //Public beginning of the key, displayed so the owner can recognize it
+    @Column({type: 'varchar', length: 16})
+    prefix!: string;
+
+    //SHA-256 of the key, the raw key is only shown once to the user
+    @Index({unique: true})
+    @Column({type: 'varchar', length: 64})
+    keyHash!: string;
+
+    @Column({type: 'enum', enum: ApiKeyScope, array: true})
+    scopes!: ApiKeyScope[];
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    //Null for keys which never expire
+    @Column({type: 'timestamptz', nullable: true})
+    expiresAt!: Date | null;
+
+    @Column({type: 'timestamptz', nullable: true})
+    lastUsedAt!: Date | null;
+
+    @Column({type: 'timestamptz', nullable: true})
+    revokedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
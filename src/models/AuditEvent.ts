@@ -0,0 +1,79 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+export enum AuditAction {
+    USER_REGISTERED = "user.registered",
+    USER_CREATED = "user.created",
+    USER_LOGIN = "user.login",
+    USER_LOGIN_FAILED = "user.login_failed",
+    USER_UPDATED = "user.updated",
+    USER_ROLE_CHANGED = "user.role_changed",
+    USER_PASSWORD_CHANGED = "user.password_changed",
+    USER_PASSWORD_RESET = "user.password_reset",
+    USER_DELETED = "user.deleted",
+    USER_RESTORED = "user.restored",
+    USER_UNLOCKED = "user.unlocked",
+    USER_DISABLED = "user.disabled",
+    USER_ENABLED = "user.enabled",
+    IMPERSONATION_STARTED = "impersonation.started",
+    IMPERSONATION_STOPPED = "impersonation.stopped",
+    TWO_FACTOR_ENABLED = "2fa.enabled",
+    TWO_FACTOR_DISABLED = "2fa.disabled",
+    API_KEY_CREATED = "api_key.created",
+    API_KEY_REVOKED = "api_key.revoked",
+    ROLE_CREATED = "role.created",
+    ROLE_PERMISSIONS_CHANGED = "role.permissions_changed",
+    ROLE_DELETED = "role.deleted",
+}
+
+//Security relevant action, never updated nor deleted by the API
+@Entity()
+@Index(['targetType', 'targetId'])
+export class AuditEvent {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    //Stored as text so new actions do not need a schema change
+    @Index()
+    @Column({type: 'varchar', length: 100})
+    action!: string;
+
+    //User performing the action, null for anonymous requests or once the user is purged
+    @ManyToOne(() => User, {onDelete: 'SET NULL', nullable: true})
+    actor!: User | null;
+
+    @Index()
+    @Column({type: 'int', nullable: true})
+    actorId!: number | null;
+
+    //Administrator behind the actor while impersonating
+    @ManyToOne(() => User, {onDelete: 'SET NULL', nullable: true})
+    impersonator!: User | null;
+
+    @Column({type: 'int', nullable: true})
+    impersonatorId!: number | null;
+
+    //Kind of resource affected (user, role, api_key...) and its id, or the login used by a failed login
+    @Column({type: 'varchar', length: 50, nullable: true})
+    targetType!: string | null;
+
+    @Column({type: 'varchar', length: 255, nullable: true})
+    targetId!: string | null;
+
+    @Column({type: 'varchar', length: 45, nullable: true})
+    ip!: string | null;
+
+    @Column({type: 'varchar', nullable: true})
+    userAgent!: string | null;
+
+    //Only the fields which changed
+    @Column({type: 'jsonb', nullable: true})
+    before!: Record<string, unknown> | null;
+
+    @Column({type: 'jsonb', nullable: true})
+    after!: Record<string, unknown> | null;
+
+    @Index()
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,50 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+export enum DataExportStatus {
+    PENDING = "pending",
+    READY = "ready",
+    FAILED = "failed",
+}
+
+//Archive of the personal data of an user, generated in the background when too large to be sent directly
+@Entity()
+export class DataExport {
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    //json or zip
+    @Column({type: 'varchar', length: 10})
+    format!: string;
+
+    @Column({type: 'enum', enum: DataExportStatus, default: DataExportStatus.PENDING})
+    status!: DataExportStatus;
+
+    //Generated archive, only loaded for the download
+    @Column({type: 'bytea', nullable: true, select: false})
+    content!: Buffer | null;
+
+    @Column({type: 'int', nullable: true})
+    size!: number | null;
+
+    //SHA-256 of the download token, the raw token is only sent to the user
+    @Column({type: 'varchar', length: 64, unique: true})
+    tokenHash!: string;
+
+    //The archive is deleted once the download link expires
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @Column({type: 'timestamptz', nullable: true})
+    completedAt!: Date | null;
+}
@@ -0,0 +1,39 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+//An administrator acting as another user, kept as an audit trail once ended
+@Entity()
+export class Impersonation {
+    //Embedded in the impersonation access token
+    @PrimaryGeneratedColumn('uuid')
+    id!: string;
+
+    //Administrator acting as the target, null once the user is purged
+    @ManyToOne(() => User, {onDelete: 'SET NULL', nullable: true})
+    actor!: User | null;
+
+    @Index()
+    @Column({type: 'int', nullable: true})
+    actorId!: number | null;
+
+    //Impersonated user, null once the user is purged
+    @ManyToOne(() => User, {onDelete: 'SET NULL', nullable: true})
+    target!: User | null;
+
+    @Index()
+    @Column({type: 'int', nullable: true})
+    targetId!: number | null;
+
+    @Column({type: 'varchar', length: 255, nullable: true})
+    reason!: string | null;
+
+    @CreateDateColumn()
+    startedAt!: Date;
+
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    //Set when the actor stops the impersonation, expired ones are left untouched
+    @Column({type: 'timestamptz', nullable: true})
+    endedAt!: Date | null;
+}
@@ -0,0 +1,37 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Organization } from "./Organization.js";
+import { User } from "./User.js";
+
+//Roles inside an organization, independent from the global role of the user
+export enum OrganizationRole {
+    OWNER = "OWNER",
+    ADMIN = "ADMIN",
+    MEMBER = "MEMBER",
+}
+
+@Entity()
+@Index(['organizationId', 'userId'], {unique: true})
+export class Membership {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @ManyToOne(() => Organization, {onDelete: 'CASCADE'})
+    organization!: Organization;
+
+    @Index()
+    @Column({type: 'int'})
+    organizationId!: number;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    @Column({type: 'enum', enum: OrganizationRole, default: OrganizationRole.MEMBER})
+    role!: OrganizationRole;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,28 @@
+import { Column, CreateDateColumn, Entity, PrimaryColumn } from "typeorm";
+
+//Pending OpenID Connect authorization request, consumed by the callback
+@Entity()
+export class OidcState {
+    @PrimaryColumn({type: 'varchar', length: 64})
+    state!: string;
+
+    @Column({type: 'varchar', length: 50})
+    provider!: string;
+
+    @Column({type: 'varchar', length: 64})
+    nonce!: string;
+
+    //PKCE code verifier
+    @Column({type: 'varchar', length: 128})
+    codeVerifier!: string;
+
+    //Set when an user already logged in links a new identity
+    @Column({type: 'int', nullable: true})
+    userId!: number | null;
+
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,22 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Length } from 'class-validator';
+
+@Entity()
+export class Organization {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({type: 'varchar', length: 100})
+    @Length(2,100)
+    name!: string;
+
+    //Lower case identifier used by the tenant resolver (path, X-Organization header or subdomain)
+    @Column({unique: true, type: 'varchar', length: 50})
+    slug!: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
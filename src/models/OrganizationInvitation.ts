@@ -0,0 +1,43 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { OrganizationRole } from "./Membership.js";
+import { Organization } from "./Organization.js";
+import { User } from "./User.js";
+
+@Entity()
+export class OrganizationInvitation {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @ManyToOne(() => Organization, {onDelete: 'CASCADE'})
+    organization!: Organization;
+
+    @Index()
+    @Column({type: 'int'})
+    organizationId!: number;
+
+    //Only the account using this address can accept the invitation
+    @Column({type: 'varchar'})
+    email!: string;
+
+    @Column({type: 'enum', enum: OrganizationRole, default: OrganizationRole.MEMBER})
+    role!: OrganizationRole;
+
+    //SHA-256 of the token, the raw token is only sent by mail
+    @Column({unique: true, type: 'varchar', length: 64})
+    tokenHash!: string;
+
+    @ManyToOne(() => User, {onDelete: 'SET NULL', nullable: true})
+    invitedBy!: User | null;
+
+    @Column({type: 'int', nullable: true})
+    invitedById!: number | null;
+
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    @Column({type: 'timestamptz', nullable: true})
+    acceptedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,28 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+@Entity()
+export class PasswordResetToken {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    //SHA-256 of the token, the raw token is only sent by mail
+    @Column({unique: true, type: 'varchar', length: 64})
+    tokenHash!: string;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    @Column({type: 'timestamptz', nullable: true})
+    usedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,18 @@
+export enum Permission {
+    USERS_READ = "users:read",
+    USERS_CREATE = "users:create",
+    USERS_UPDATE = "users:update",
+    USERS_DISABLE = "users:disable",
+    USERS_DELETE = "users:delete",
+    USERS_RESTORE = "users:restore",
+    USERS_UNLOCK = "users:unlock",
+    USERS_IMPERSONATE = "users:impersonate",
+    ROLES_READ = "roles:read",
+    ROLES_MANAGE = "roles:manage",
+    ROLES_ASSIGN = "roles:assign",
+    AUDIT_READ = "audit:read",
+}
+
+export const isPermission = (value: string): value is Permission => {
+    return Object.values(Permission).includes(value as Permission);
+};
@@ -0,0 +1,25 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+@Entity()
+export class RecoveryCode {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    //SHA-256 of the code, the raw codes are only shown once to the user
+    @Column({type: 'varchar', length: 64})
+    codeHash!: string;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    @Column({type: 'timestamptz', nullable: true})
+    usedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
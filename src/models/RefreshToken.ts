@@ -0,0 +1,41 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Session } from "./Session.js";
+import { User } from "./User.js";
+
+@Entity()
+export class RefreshToken {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    //SHA-256 of the token, the raw token is never stored
+    @Column({unique: true, type: 'varchar', length: 64})
+    tokenHash!: string;
+
+    //Every token issued by rotation from the same login share the same family
+    @Index()
+    @Column({type: 'uuid'})
+    familyId!: string;
+
+    @ManyToOne(() => Session, {onDelete: 'CASCADE'})
+    @JoinColumn({name: 'familyId'})
+    session!: Session;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Column({type: 'int'})
+    userId!: number;
+
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    //Set when the token has been exchanged for a new one
+    @Column({type: 'timestamptz', nullable: true})
+    usedAt!: Date | null;
+
+    @Column({type: 'boolean', default: false})
+    revoked!: boolean;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -1,26 +1,27 @@
-export enum Role {
+import { Column, CreateDateColumn, Entity, PrimaryColumn, UpdateDateColumn } from "typeorm";
+import { Permission } from "./Permission.js";
+
+//Roles created on startup, they cannot be deleted
+export enum DefaultRole {
     ADMIN = "ADMIN",
     USER = "USER",
 }
 
-export const isRole = (value: string): value is Role => {
-    return Object.values(Role).includes(value as Role);
-};
+@Entity()
+export class Role {
+    //Upper case name, stored in User.role and inside the JWT
+    @PrimaryColumn({type: 'varchar', length: 50})
+    name!: string;
+
+    @Column({type: 'varchar', length: 255, nullable: true})
+    description!: string | null;
+
+    @Column({type: 'enum', enum: Permission, array: true})
+    permissions!: Permission[];
 
-export const toRole = (value: string) => {
-    if (isRole(value)) {
-        switch (value) {
-            case Role.ADMIN:
-                return Role.ADMIN;
-                break;
-            case Role.USER:
-                return Role.USER;
-                break;
-            default:
-                throw new Error(`Unknown role : ${value}`);
-                break;
-        }
-    } else {
-        throw new Error(`Unknown role : ${value}`);
-    }
-};
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -0,0 +1,35 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryColumn } from "typeorm";
+import { User } from "./User.js";
+
+@Entity()
+export class Session {
+    //Same id as the family of the refresh tokens issued for this session
+    @PrimaryColumn({type: 'uuid'})
+    id!: string;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    @Column({type: 'varchar', nullable: true})
+    userAgent!: string | null;
+
+    @Column({type: 'varchar', length: 45, nullable: true})
+    ip!: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @Column({type: 'timestamptz'})
+    lastUsedAt!: Date;
+
+    //Expiration of the latest refresh token of the session
+    @Column({type: 'timestamptz'})
+    expiresAt!: Date;
+
+    @Column({type: 'timestamptz', nullable: true})
+    revokedAt!: Date | null;
+}
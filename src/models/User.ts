@@ -1,6 +1,6 @@
-import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Column, CreateDateColumn, DeleteDateColumn, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 import { IsEmail, Length } from 'class-validator';
-import { Role } from "./Role.js";
+import { DefaultRole } from "./Role.js";
 
 @Entity()
 export class User {
@@ -11,6 +11,9 @@ export class User {
     @IsEmail()
     email!: string
 
+    @Column({type: 'timestamptz', nullable: true})
+    emailVerifiedAt!: Date | null;
+
     @Column({unique: true, type: 'varchar'})
     @Length(3,100)
     name!: string;
@@ -19,8 +22,46 @@ export class User {
     @Length(8,100)
     password!: string;
 
-    @Column({type: 'enum', enum: Role, default: Role.USER})
-    role!: Role;
+    //Set when an administrator chose the password, the user can only change it until it is cleared
+    @Column({type: 'boolean', default: false})
+    passwordChangeRequired!: boolean;
+
+    //Name of a Role, its permissions are loaded on each request
+    @Column({type: 'varchar', length: 50, default: DefaultRole.USER})
+    role!: string;
+
+    //TOTP secret, set during enrollment and only used once 2FA is enabled
+    @Column({type: 'varchar', nullable: true, select: false})
+    twoFactorSecret!: string | null;
+
+    @Column({type: 'timestamptz', nullable: true})
+    twoFactorEnabledAt!: Date | null;
+
+    //Time step of the last accepted code, a code cannot be used twice
+    @Column({type: 'int', nullable: true, select: false})
+    twoFactorLastUsedStep!: number | null;
+
+    //Consecutive wrong 2FA codes, kept across password logins so a new challenge does not grant new attempts
+    @Column({type: 'int', default: 0})
+    twoFactorFailedAttempts!: number;
+
+    //Consecutive failed logins, reset on success or when the account gets locked
+    @Column({type: 'int', default: 0})
+    failedLoginAttempts!: number;
+
+    @Column({type: 'timestamptz', nullable: true})
+    lastFailedLoginAt!: Date | null;
+
+    @Column({type: 'timestamptz', nullable: true})
+    lockedUntil!: Date | null;
+
+    //Set by an administrator, a disabled user cannot log in nor use its tokens and API keys
+    @Column({type: 'timestamptz', nullable: true})
+    disabledAt!: Date | null;
+
+    //Embedded in the JWT, incremented to invalidate every token previously issued
+    @Column({type: 'int', default: 0})
+    tokenVersion!: number;
 
     @CreateDateColumn()
     createdAt!: Date;
@@ -28,6 +69,10 @@ export class User {
     @UpdateDateColumn()
     updatedAt!: Date;
 
+    //Set when the account is deleted, the row is purged once the retention period is over
+    @DeleteDateColumn({type: 'timestamptz', nullable: true})
+    deletedAt!: Date | null;
+
     get createdAtLocal(): string {
         return this.createdAt.toLocaleString('fr-FR', {
             timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
@@ -0,0 +1,33 @@
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { User } from "./User.js";
+
+//Account of an user at an external OpenID Connect provider
+@Entity()
+@Index(["provider", "subject"], {unique: true})
+export class UserIdentity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({type: 'varchar', length: 50})
+    provider!: string;
+
+    //"sub" claim of the ID token, stable identifier of the account at the provider
+    @Column({type: 'varchar'})
+    subject!: string;
+
+    @ManyToOne(() => User, {onDelete: 'CASCADE'})
+    user!: User;
+
+    @Index()
+    @Column({type: 'int'})
+    userId!: number;
+
+    @Column({type: 'varchar', nullable: true})
+    email!: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @Column({type: 'timestamptz', nullable: true})
+    lastLoginAt!: Date | null;
+}
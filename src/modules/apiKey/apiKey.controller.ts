@@ -0,0 +1,122 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { AuditAction } from "../../models/AuditEvent.js";
+import { auditService } from "../audit/audit.service.js";
+import { apiKeyService } from "./apiKey.service.js";
+
+export class ApiKeyController {
+
+    constructor() {
+        this.getApiKeys = this.getApiKeys.bind(this);
+        this.createApiKey = this.createApiKey.bind(this);
+        this.deleteApiKey = this.deleteApiKey.bind(this);
+    }
+
+    /**
+     * Return every API key of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getApiKeys(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const apiKeys = await apiKeyService.getUserKeys(req.user.id);
+            res.status(200).json({ status: "success", data: apiKeys });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Create an API key for the currently logged in user, the raw key is only returned by this call.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async createApiKey(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { name, scopes, expiresInDays } = req.body;
+            if (typeof name !== "string" || !Array.isArray(scopes)) {
+                throw new AppError(
+                    "You need a name and a list of scopes to create an API key.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            if (
+                expiresInDays !== undefined &&
+                expiresInDays !== null &&
+                typeof expiresInDays !== "number"
+            ) {
+                throw new AppError(
+                    "API key expiration must be a number of days.",
+                    400,
+                    ErrorCode.INVALID_API_KEY_EXPIRATION
+                );
+            }
+            const apiKey = await apiKeyService.create(
+                req.user.id,
+                name,
+                scopes.map((scope) => `${scope}`),
+                expiresInDays ?? null
+            );
+            await auditService.record(req, {
+                action: AuditAction.API_KEY_CREATED,
+                targetType: "api_key",
+                targetId: apiKey.id,
+                after: {
+                    name: apiKey.name,
+                    scopes: apiKey.scopes,
+                    expiresAt: apiKey.expiresAt,
+                },
+            });
+            res.status(201).json({ status: "success", data: apiKey });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Revoke an API key of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async deleteApiKey(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const apiKeyId = Number(req.params.id);
+            if (!Number.isInteger(apiKeyId)) {
+                throw new AppError(
+                    "API key not found.",
+                    404,
+                    ErrorCode.API_KEY_NOT_FOUND
+                );
+            }
+            await apiKeyService.revoke(req.user.id, apiKeyId);
+            await auditService.record(req, {
+                action: AuditAction.API_KEY_REVOKED,
+                targetType: "api_key",
+                targetId: apiKeyId,
+            });
+            res.status(200).json({
+                status: "success",
+                message: "API key revoked successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,203 @@
+import { Router } from "express";
+import { authenticateWith } from "../../middlewares/authMiddleware.js";
+import { apiLimiter } from "../../middlewares/rateLimiter.js";
+import { ApiKeyController } from "./apiKey.controller.js";
+
+const router = Router();
+const controller = new ApiKeyController();
+//API keys cannot be created or revoked with another key nor while impersonating
+const authenticate = authenticateWith({
+    allowApiKey: false,
+    allowImpersonation: false,
+});
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: API keys
+ *   description: Personal API keys of the current user, used by scripts and CI jobs instead of a password.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: API key id
+ *         name:
+ *           type: string
+ *           description: Name given by the owner
+ *         prefix:
+ *           type: string
+ *           description: Beginning of the key, helps to recognize it
+ *         scopes:
+ *           type: array
+ *           description: read allows GET requests, write allows every other method
+ *           items:
+ *             type: string
+ *             enum: [read, write]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Expiration date (ISO format), null if the key never expires
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Date of the last use, precise to the minute (ISO format)
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Creation date (ISO format)
+ *       example:
+ *         id: 1
+ *         name: "CI deploy"
+ *         prefix: "ak_3f9a1c0b7d2e"
+ *         scopes: ["read", "write"]
+ *         expiresAt: "2026-06-12T00:00:00.000Z"
+ *         lastUsedAt: "2025-06-12T01:00:00.000Z"
+ *         createdAt: "2025-06-12T00:00:00.000Z"
+ *     CreateApiKey:
+ *       type: object
+ *       required:
+ *         - name
+ *         - scopes
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Name of the key (1 to 100 characters)
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [read, write]
+ *         expiresInDays:
+ *           type: integer
+ *           nullable: true
+ *           minimum: 1
+ *           maximum: 365
+ *           description: Lifetime of the key, omitted or null for a key which never expires
+ *       example:
+ *         name: "CI deploy"
+ *         scopes: ["read", "write"]
+ *         expiresInDays: 90
+ */
+
+/**
+ * @swagger
+ * /users/api-keys:
+ *   get:
+ *     summary: List the API keys of the current user
+ *     tags: [API keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys which have not been revoked, most recent first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Request authenticated with an API key
+ */
+router.get("/", authenticate, controller.getApiKeys);
+
+/**
+ * @swagger
+ * /users/api-keys:
+ *   post:
+ *     summary: Create an API key for the current user
+ *     description: The key is only returned by this call, only its hash is stored.
+ *     tags: [API keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateApiKey'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         key:
+ *                           type: string
+ *                           example: "ak_3f9a1c0b7d2e_Vj8r2m0QyZl6c1Hk9sXbT4nWfA3pE7uD5gR0iLqOaMs"
+ *       400:
+ *         description: Invalid name, scopes or expiration
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Request authenticated with an API key
+ *       409:
+ *         description: Too many API keys
+ */
+router.post("/", authenticate, controller.createApiKey);
+
+/**
+ * @swagger
+ * /users/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key of the current user
+ *     tags: [API keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: API key id
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Request authenticated with an API key
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete("/:id", authenticate, controller.deleteApiKey);
+
+export default router;
@@ -0,0 +1,212 @@
+import { createHash, randomBytes } from "crypto";
+import { IsNull, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { ApiKey, ApiKeyScope } from "../../models/ApiKey.js";
+import type { ApiKeyResponse, CreatedApiKeyResponse } from "./apiKey.types.js";
+
+class ApiKeyService {
+    private apiKeyRepository: Repository<ApiKey>;
+    private static PREFIX = "ak_";
+    private static MAX_KEYS = Number(process.env.API_KEYS_MAX) || 20;
+    private static MAX_EXPIRES_IN_DAYS = 365;
+    //lastUsedAt is only written once per interval to avoid a write on every request
+    private static LAST_USED_PRECISION = 60 * 1000; //1 minute
+    private static instance: ApiKeyService;
+
+    static getInstance() {
+        if (!ApiKeyService.instance) {
+            ApiKeyService.instance = new ApiKeyService();
+        }
+        return ApiKeyService.instance;
+    }
+
+    constructor() {
+        this.apiKeyRepository = AppDataSource.getRepository(ApiKey);
+    }
+
+    /**
+     * Hash an API key so it can be looked up without storing it in clear.
+     * @param key Raw API key.
+     * @returns Hex encoded SHA-256 of the key.
+     */
+    private hash(key: string): string {
+        return createHash("sha256").update(key).digest("hex");
+    }
+
+    /**
+     * Remove the hash and the owner from an API key before sending it to the client.
+     * @param apiKey API key entity.
+     * @returns Public data of the key.
+     */
+    private toResponse(apiKey: ApiKey): ApiKeyResponse {
+        return {
+            id: apiKey.id,
+            name: apiKey.name,
+            prefix: apiKey.prefix,
+            scopes: apiKey.scopes,
+            expiresAt: apiKey.expiresAt,
+            lastUsedAt: apiKey.lastUsedAt,
+            createdAt: apiKey.createdAt,
+        };
+    }
+
+    /**
+     * Create a new API key for an user.
+     * @param userId Owner of the key.
+     * @param name Name of the key, helps the owner to recognize it.
+     * @param scopes Scopes granted to the key.
+     * @param expiresInDays Number of days before the key expires, null for a key which never expires.
+     * @returns Created key along with the raw key, which cannot be retrieved afterwards.
+     */
+    async create(
+        userId: number,
+        name: string,
+        scopes: string[],
+        expiresInDays: number | null
+    ): Promise<CreatedApiKeyResponse> {
+        const trimmedName = name.trim();
+        if (trimmedName.length < 1 || trimmedName.length > 100) {
+            throw new AppError(
+                "API key name must be between 1 and 100 characters.",
+                400,
+                ErrorCode.INVALID_API_KEY_NAME
+            );
+        }
+        const allowedScopes = Object.values(ApiKeyScope) as string[];
+        if (
+            scopes.length === 0 ||
+            scopes.some((scope) => !allowedScopes.includes(scope))
+        ) {
+            throw new AppError(
+                `API key scopes must be chosen among: ${allowedScopes.join(", ")}.`,
+                400,
+                ErrorCode.INVALID_API_KEY_SCOPE
+            );
+        }
+        if (
+            expiresInDays !== null &&
+            (!Number.isInteger(expiresInDays) ||
+                expiresInDays < 1 ||
+                expiresInDays > ApiKeyService.MAX_EXPIRES_IN_DAYS)
+        ) {
+            throw new AppError(
+                `API key expiration must be between 1 and ${ApiKeyService.MAX_EXPIRES_IN_DAYS} days.`,
+                400,
+                ErrorCode.INVALID_API_KEY_EXPIRATION
+            );
+        }
+
+        const activeKeys = await this.apiKeyRepository.count({
+            where: { userId: userId, revokedAt: IsNull() },
+        });
+        if (activeKeys >= ApiKeyService.MAX_KEYS) {
+            throw new AppError(
+                `You cannot have more than ${ApiKeyService.MAX_KEYS} API keys, revoke an unused one first.`,
+                409,
+                ErrorCode.API_KEY_LIMIT_REACHED
+            );
+        }
+
+        const prefix = `${ApiKeyService.PREFIX}${randomBytes(6).toString("hex")}`;
+        const key = `${prefix}_${randomBytes(32).toString("base64url")}`;
+        const apiKey = await this.apiKeyRepository.save(
+            this.apiKeyRepository.create({
+                name: trimmedName,
+                prefix: prefix,
+                keyHash: this.hash(key),
+                scopes: [...new Set(scopes)] as ApiKeyScope[],
+                userId: userId,
+                expiresAt:
+                    expiresInDays === null
+                        ? null
+                        : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+            })
+        );
+        logger.info(`API key ${prefix} created for user id: ${userId}.`);
+        return { ...this.toResponse(apiKey), key };
+    }
+
+    /**
+     * Return every API key of an user which has not been revoked, expired ones included.
+     * @param userId userId.
+     * @returns Array of API keys, most recent first.
+     */
+    async getUserKeys(userId: number): Promise<Array<ApiKeyResponse>> {
+        const apiKeys = await this.apiKeyRepository.find({
+            where: { userId: userId, revokedAt: IsNull() },
+            order: { createdAt: "DESC" },
+        });
+        return apiKeys.map((apiKey) => this.toResponse(apiKey));
+    }
+
+    /**
+     * Revoke an API key owned by the specified user.
+     * @param userId Owner of the key.
+     * @param id API key id.
+     */
+    async revoke(userId: number, id: number): Promise<void> {
+        const result = await this.apiKeyRepository.update(
+            { id: id, userId: userId, revokedAt: IsNull() },
+            { revokedAt: new Date() }
+        );
+        if (result.affected === 0) {
+            throw new AppError(
+                "API key not found.",
+                404,
+                ErrorCode.API_KEY_NOT_FOUND
+            );
+        }
+        logger.info(`API key id: ${id} revoked by user id: ${userId}.`);
+    }
+
+    /**
+     * Find the API key matching a raw key sent by a client and record its use.
+     * @param key Raw API key.
+     * @returns API key with its owner.
+     */
+    async verify(key: string): Promise<ApiKey> {
+        if (!key.startsWith(ApiKeyService.PREFIX)) {
+            throw new AppError(
+                "Invalid or expired API key.",
+                401,
+                ErrorCode.INVALID_API_KEY
+            );
+        }
+        const apiKey = await this.apiKeyRepository.findOne({
+            where: { keyHash: this.hash(key) },
+            relations: { user: true },
+        });
+        //The owner is not loaded if the account is deleted
+        if (
+            !apiKey ||
+            !apiKey.user ||
+            apiKey.revokedAt ||
+            (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())
+        ) {
+            throw new AppError(
+                "Invalid or expired API key.",
+                401,
+                ErrorCode.INVALID_API_KEY
+            );
+        }
+
+        const now = new Date();
+        if (
+            !apiKey.lastUsedAt ||
+            now.getTime() - apiKey.lastUsedAt.getTime() >
+                ApiKeyService.LAST_USED_PRECISION
+        ) {
+            await this.apiKeyRepository.update(
+                { id: apiKey.id },
+                { lastUsedAt: now }
+            );
+            apiKey.lastUsedAt = now;
+        }
+        return apiKey;
+    }
+}
+
+export const apiKeyService = ApiKeyService.getInstance();
@@ -0,0 +1,16 @@
+import type { ApiKeyScope } from "../../models/ApiKey.js";
+
+export interface ApiKeyResponse {
+    id: number;
+    name: string;
+    prefix: string;
+    scopes: ApiKeyScope[];
+    expiresAt: Date | null;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}
+
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+    //Raw key, only returned once at creation
+    key: string;
+}
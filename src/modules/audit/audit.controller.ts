@@ -0,0 +1,28 @@
+import type { Request, Response, NextFunction } from "express";
+import { auditService } from "./audit.service.js";
+
+export class AuditController {
+
+    constructor() {
+        this.getEvents = this.getEvents.bind(this);
+    }
+
+    /**
+     * Return a page of audit events, filtered and sorted according to the query string.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getEvents(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { data, meta } = await auditService.getEvents(req.query);
+            res.status(200).json({ status: "success", data, meta });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,172 @@
+import { Router } from "express";
+import {
+    authenticate,
+    requirePermission,
+} from "../../middlewares/authMiddleware.js";
+import { apiLimiter } from "../../middlewares/rateLimiter.js";
+import { Permission } from "../../models/Permission.js";
+import { AuditController } from "./audit.controller.js";
+
+const router = Router();
+const controller = new AuditController();
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Audit
+ *   description: Security relevant actions (logins, role and password changes, deletions...), the log is read only.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         action:
+ *           type: string
+ *           description: Performed action, e.g. user.login or user.role_changed
+ *         actorId:
+ *           type: integer
+ *           nullable: true
+ *           description: User performing the action, null for anonymous requests or purged users
+ *         impersonatorId:
+ *           type: integer
+ *           nullable: true
+ *           description: Administrator impersonating the actor
+ *         targetType:
+ *           type: string
+ *           nullable: true
+ *           description: Kind of resource affected (user, role, api_key...)
+ *         targetId:
+ *           type: string
+ *           nullable: true
+ *           description: Id of the affected resource, or the login used by a failed login
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *         userAgent:
+ *           type: string
+ *           nullable: true
+ *         before:
+ *           type: object
+ *           nullable: true
+ *           description: Changed fields before the action
+ *         after:
+ *           type: object
+ *           nullable: true
+ *           description: Changed fields after the action
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 42
+ *         action: "user.role_changed"
+ *         actorId: 1
+ *         impersonatorId: null
+ *         targetType: "user"
+ *         targetId: "7"
+ *         ip: "203.0.113.7"
+ *         userAgent: "Mozilla/5.0"
+ *         before: { role: "USER" }
+ *         after: { role: "ADMIN" }
+ *         createdAt: "2025-06-12T00:00:00.000Z"
+ */
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: Get a page of audit events, need the audit:read permission
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/limit'
+ *       - $ref: '#/components/parameters/offset'
+ *       - $ref: '#/components/parameters/cursor'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [id, -id, createdAt, -createdAt]
+ *           default: -createdAt
+ *         description: Sorted field, prefixed by "-" for descending order
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Actions, comma separated
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: Actor ids, comma separated
+ *       - in: query
+ *         name: impersonatorId
+ *         schema:
+ *           type: string
+ *         description: Impersonator ids, comma separated
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *         description: Target types, comma separated
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *         description: Target ids, comma separated
+ *       - in: query
+ *         name: ip
+ *         schema:
+ *           type: string
+ *         description: IP addresses, comma separated
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Events recorded at or after this date
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Events recorded at or before this date
+ *     responses:
+ *       200:
+ *         description: Audit events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditEvent'
+ *                 meta:
+ *                   $ref: '#/components/schemas/ListMeta'
+ *       400:
+ *         description: Invalid query parameter
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ */
+router.get("/", authenticate, requirePermission(Permission.AUDIT_READ), controller.getEvents);
+
+export default router;
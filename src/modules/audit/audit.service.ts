@@ -0,0 +1,192 @@
+import type { Request } from "express";
+import type { Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AuditAction, AuditEvent } from "../../models/AuditEvent.js";
+import { User } from "../../models/User.js";
+import {
+    applyListQuery,
+    parseListQuery,
+    type ListQueryDefinition,
+    type ListResult,
+} from "../core/listQuery.js";
+import { registerDataExporter } from "../dataExport/dataExport.service.js";
+import type { AuditEventInput } from "./audit.types.js";
+
+class AuditService {
+    private auditRepository: Repository<AuditEvent>;
+    private userRepository: Repository<User>;
+    private static LIST_DEFINITION: ListQueryDefinition = {
+        filters: {
+            action: { type: "exact", column: "action" },
+            actorId: { type: "exact", column: "actorId", integer: true },
+            impersonatorId: {
+                type: "exact",
+                column: "impersonatorId",
+                integer: true,
+            },
+            targetType: { type: "exact", column: "targetType" },
+            targetId: { type: "exact", column: "targetId" },
+            ip: { type: "exact", column: "ip" },
+            created: { type: "dateRange", column: "createdAt" },
+        },
+        sortFields: {
+            id: { column: "id", type: "number" },
+            createdAt: { column: "createdAt", type: "date" },
+        },
+        defaultSort: "-createdAt",
+    };
+    private static instance: AuditService;
+
+    static getInstance() {
+        if (!AuditService.instance) {
+            AuditService.instance = new AuditService();
+        }
+        return AuditService.instance;
+    }
+
+    constructor() {
+        this.auditRepository = AppDataSource.getRepository(AuditEvent);
+        this.userRepository = AppDataSource.getRepository(User);
+    }
+
+    /**
+     * Keep the fields whose value differs between two states of a resource.
+     * @param before State before the action.
+     * @param after State after the action.
+     * @returns Changed fields on each side, null for a missing state.
+     */
+    private diff(
+        before: Record<string, unknown> | undefined,
+        after: Record<string, unknown> | undefined
+    ): {
+        before: Record<string, unknown> | null;
+        after: Record<string, unknown> | null;
+    } {
+        if (!before || !after) {
+            return { before: before ?? null, after: after ?? null };
+        }
+        const changedBefore: Record<string, unknown> = {};
+        const changedAfter: Record<string, unknown> = {};
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+                changedBefore[key] = before[key] ?? null;
+                changedAfter[key] = after[key] ?? null;
+            }
+        }
+        return { before: changedBefore, after: changedAfter };
+    }
+
+    /**
+     * Record an action performed through a request, along with its IP address and user agent.
+     * A failure is logged but does not fail the action, the tslog lines remain as a fallback.
+     * @param req Request performing the action.
+     * @param event Action and its target.
+     */
+    async record(req: Request, event: AuditEventInput): Promise<void> {
+        try {
+            const { before, after } = this.diff(event.before, event.after);
+            await this.auditRepository.save(
+                this.auditRepository.create({
+                    action: event.action,
+                    actorId:
+                        event.actorId !== undefined
+                            ? event.actorId
+                            : (req.user?.id ?? null),
+                    impersonatorId: req.user?.actor?.id ?? null,
+                    targetType: event.targetType ?? null,
+                    targetId:
+                        event.targetId !== undefined
+                            ? `${event.targetId}`.substring(0, 255)
+                            : null,
+                    ip: req.ip ?? null,
+                    userAgent: req.get("user-agent") ?? null,
+                    before: before,
+                    after: after,
+                })
+            );
+        } catch (error) {
+            logger.error(
+                `Audit event ${event.action} could not be recorded:`,
+                error
+            );
+        }
+    }
+
+    /**
+     * Return a page of audit events, filtered and sorted according to the query string.
+     * @param query Query string of the request.
+     * @returns Audit events and pagination metadata.
+     */
+    async getEvents(
+        query: Record<string, unknown>
+    ): Promise<ListResult<AuditEvent>> {
+        const listQuery = parseListQuery(query, AuditService.LIST_DEFINITION);
+        return await applyListQuery(
+            this.auditRepository.createQueryBuilder("event"),
+            "event",
+            listQuery,
+            AuditService.LIST_DEFINITION
+        );
+    }
+
+    /**
+     * Return the audit events performed by an user or targeting this user, for its personal data export.
+     * Failed logins are matched on the current email and username of the user.
+     * The IP address and user agent of the events performed by someone else (administrators, impersonators,
+     * failed logins) are removed, as well as the changed fields of the events targeting other users.
+     * @param userId userId.
+     * @returns Audit events, oldest first.
+     */
+    async getUserEvents(userId: number): Promise<Array<AuditEvent>> {
+        const user = await this.userRepository.findOne({
+            where: { id: userId },
+            withDeleted: true,
+        });
+        const failedLogins = user
+            ? [
+                  {
+                      action: AuditAction.USER_LOGIN_FAILED,
+                      targetType: "email",
+                      targetId: user.email,
+                  },
+                  {
+                      action: AuditAction.USER_LOGIN_FAILED,
+                      targetType: "name",
+                      targetId: user.name,
+                  },
+              ]
+            : [];
+        const events = await this.auditRepository.find({
+            where: [
+                { actorId: userId },
+                { impersonatorId: userId },
+                { targetType: "user", targetId: `${userId}` },
+                ...failedLogins,
+            ],
+            order: { createdAt: "ASC" },
+        });
+
+        return events.map((event) => {
+            const performedByUser =
+                event.impersonatorId === userId ||
+                (event.actorId === userId && event.impersonatorId === null);
+            const targetsOtherUser =
+                event.targetType === "user" && event.targetId !== `${userId}`;
+            return {
+                ...event,
+                ip: performedByUser ? event.ip : null,
+                userAgent: performedByUser ? event.userAgent : null,
+                before: targetsOtherUser ? null : event.before,
+                after: targetsOtherUser ? null : event.after,
+            };
+        });
+    }
+}
+
+export const auditService = AuditService.getInstance();
+
+registerDataExporter("auditEvents", (userId) =>
+    auditService.getUserEvents(userId)
+);
@@ -0,0 +1,12 @@
+import type { AuditAction } from "../../models/AuditEvent.js";
+
+export interface AuditEventInput {
+    action: AuditAction;
+    //Logged in user of the request by default, set it for anonymous requests such as a login
+    actorId?: number | null;
+    targetType?: string;
+    targetId?: string | number;
+    //State of the target before and after the action, only the changed fields are stored
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+}
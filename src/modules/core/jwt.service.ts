@@ -1,57 +1,210 @@
+import { createPublicKey, randomUUID, type JsonWebKey } from "crypto";
 import jwt from "jsonwebtoken";
+import { loadJwtKeys, type JwtKey } from "../../config/jwtKeys.js";
 import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
 
-interface JwtPayload {
+//Administrator acting as the user of the token (RFC 8693 "act" claim)
+export interface JwtActor {
     id: number;
     name: string;
     role: string;
+    //Token version of the actor, the impersonation stops working once it changes
+    tokenVersion: number;
+}
+
+export interface JwtPayload {
+    id: number;
+    name: string;
+    role: string;
+    tokenVersion: number;
+    sessionId?: string;
+    act?: JwtActor;
+    impersonationId?: string;
+}
+
+export interface EmailVerificationPayload {
+    id: number;
+    email: string;
+}
+
+export interface TwoFactorChallengePayload {
+    id: number;
+    tokenVersion: number;
+}
+
+export interface RefreshTokenPayload extends JwtPayload {
+    familyId: string;
+    exp?: number;
+}
+
+export interface Jwks {
+    keys: Array<JsonWebKey & { kid: string; alg: string; use: "sig" }>;
 }
 
 export class JwtService {
     private static SECRET = process.env.JWT_SECRET as string;
+    private static ISSUER =
+        process.env.JWT_ISSUER || `http://localhost:${process.env.PORT}`;
+    private static AUDIENCE = process.env.JWT_AUDIENCE || "api";
+    //Refresh tokens are only consumed by this API, their audience differs from access tokens
+    private static REFRESH_AUDIENCE = `${JwtService.AUDIENCE}:refresh`;
+    private static ACTIVE_KID = process.env.JWT_ACTIVE_KID;
+    private static KEYS: Map<string, JwtKey> | undefined;
     private static REFRESH_SECRET = process.env.JWT_REFRESH_SECRET as string;
     private static EXPIRES_IN = process.env.JWT_EXPIRES_IN || "1h";
     private static REFRESH_EXPIRES_IN =
         process.env.JWT_REFRESH_EXPIRES_IN || "7d";
+    private static EMAIL_SECRET = process.env.JWT_EMAIL_SECRET as string;
+    private static EMAIL_EXPIRES_IN = process.env.JWT_EMAIL_EXPIRES_IN || "24h";
+    private static TWO_FACTOR_SECRET = process.env.JWT_2FA_SECRET as string;
+    private static TWO_FACTOR_EXPIRES_IN = process.env.JWT_2FA_EXPIRES_IN || "5m";
 
     /**
-     * Create JWT access token based on user data
+     * Return the asymmetric keys from JWT_KEYS_DIR, loaded on first use.
+     * @returns Keys indexed by key id.
+     */
+    private static getKeys(): Map<string, JwtKey> {
+        if (!this.KEYS) {
+            this.KEYS = loadJwtKeys();
+        }
+        return this.KEYS;
+    }
+
+    /**
+     * Return the key used to sign new access tokens.
+     * @returns Active key, null if no asymmetric key is configured and JWT_SECRET must be used.
+     */
+    private static getSigningKey(): JwtKey | null {
+        const keys = this.getKeys();
+        if (keys.size === 0) {
+            return null;
+        }
+        const key = this.ACTIVE_KID ? keys.get(this.ACTIVE_KID) : undefined;
+        if (!key || !key.privateKey) {
+            throw new AppError(
+                "Missing or invalid JWT_ACTIVE_KID in .env, it must name a private key of JWT_KEYS_DIR.",
+                500,
+                ErrorCode.CONFIGURATION_ERROR
+            );
+        }
+        return key;
+    }
+
+    /**
+     * Create JWT access token based on user data.
+     * The token is signed with the active asymmetric key (RS256/ES256) if keys are configured, with JWT_SECRET (HS256) otherwise.
      * @param payload JWT payload for user data
+     * @param expiresIn Lifetime of the token, JWT_EXPIRES_IN by default
      * @returns JWT access token
      */
-    static generateAccessToken(payload: JwtPayload): string {
+    static generateAccessToken(
+        payload: JwtPayload,
+        expiresIn: string = this.EXPIRES_IN
+    ): string {
+        const options: jwt.SignOptions = {
+            expiresIn: expiresIn,
+            issuer: this.ISSUER,
+            audience: this.AUDIENCE,
+        };
+
+        const key = this.getSigningKey();
+        if (key) {
+            return jwt.sign(payload, key.privateKey as string, {
+                ...options,
+                algorithm: key.algorithm,
+                keyid: key.kid,
+            });
+        }
+
         if (!this.SECRET) {
-            throw new AppError("Missing JWT secret in .env.", 500);
+            throw new AppError(
+                "Missing JWT secret in .env.",
+                500,
+                ErrorCode.CONFIGURATION_ERROR
+            );
         }
         return jwt.sign(payload, this.SECRET, {
-            expiresIn: this.EXPIRES_IN as string,
+            ...options,
+            algorithm: "HS256",
         });
     }
 
     /**
-     * Create JWT refresh token based on user data
-     * @param payload JWT payload for user data
+     * Return the public keys able to verify access tokens, as a JSON Web Key Set.
+     * Retired keys are still published until their public file is removed.
+     * @returns JWKS, without keys if access tokens are signed with JWT_SECRET.
+     */
+    static getJwks(): Jwks {
+        return {
+            keys: Array.from(this.getKeys().values()).map((key) => ({
+                ...createPublicKey(key.publicKey).export({ format: "jwk" }),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: "sig",
+            })),
+        };
+    }
+
+    /**
+     * Create JWT refresh token based on user data.
+     * Each token get a unique id so two tokens issued during the same second never collide.
+     * @param payload JWT payload for user data and token family
      * @returns JWT refresh token
      */
-    static generateRefreshToken(payload: JwtPayload): string {
+    static generateRefreshToken(payload: RefreshTokenPayload): string {
         if (!this.REFRESH_SECRET) {
-            throw new AppError("Missing JWT refresh token in .env.", 500);
+            throw new AppError(
+                "Missing JWT refresh token in .env.",
+                500,
+                ErrorCode.CONFIGURATION_ERROR
+            );
         }
         return jwt.sign(payload, this.REFRESH_SECRET, {
             expiresIn: this.REFRESH_EXPIRES_IN as string,
+            jwtid: randomUUID(),
+            issuer: this.ISSUER,
+            audience: this.REFRESH_AUDIENCE,
         });
     }
 
     /**
-     * Check if a JWT is valid or not
+     * Check if a JWT is valid or not.
+     * Tokens with a "kid" header are verified with the matching asymmetric key, other tokens with JWT_SECRET.
+     * The algorithm is forced by the key so a token cannot pick a weaker one.
      * @param token JWT access to token to test
      * @returns JWTPayload for tested access token
      */
     static verifyAccessToken(token: string): JwtPayload {
         try {
-            return jwt.verify(token, this.SECRET) as JwtPayload;
+            const decoded = jwt.decode(token, { complete: true });
+            const kid =
+                decoded && typeof decoded !== "string"
+                    ? decoded.header.kid
+                    : undefined;
+
+            let secretOrPublicKey = this.SECRET;
+            let algorithms: jwt.Algorithm[] = ["HS256"];
+            if (kid !== undefined) {
+                const key = this.getKeys().get(kid);
+                if (!key) {
+                    throw new Error(`Unknown key id : ${kid}`);
+                }
+                secretOrPublicKey = key.publicKey;
+                algorithms = [key.algorithm];
+            }
+
+            return jwt.verify(token, secretOrPublicKey, {
+                algorithms: algorithms,
+                issuer: this.ISSUER,
+                audience: this.AUDIENCE,
+            }) as JwtPayload;
         } catch (error) {
-            throw new AppError("Invalid or expired token.", 401);
+            throw new AppError(
+                "Invalid or expired token.",
+                401,
+                ErrorCode.INVALID_TOKEN
+            );
         }
     }
 
@@ -60,11 +213,104 @@ export class JwtService {
      * @param token JWT refresh to token to test
      * @returns JWTPayload for tested refresh token
      */
-    static verifyRefreshToken(token: string): JwtPayload {
+    static verifyRefreshToken(token: string): RefreshTokenPayload {
+        try {
+            return jwt.verify(token, this.REFRESH_SECRET, {
+                algorithms: ["HS256"],
+                issuer: this.ISSUER,
+                audience: this.REFRESH_AUDIENCE,
+            }) as RefreshTokenPayload;
+        } catch (error) {
+            throw new AppError(
+                "Invalid or expired refresh token",
+                401,
+                ErrorCode.INVALID_REFRESH_TOKEN
+            );
+        }
+    }
+
+    /**
+     * Create JWT used to verify an e-mail address.
+     * The token is bound to the address, it becomes useless once the address is verified or changed.
+     * @param payload User id and e-mail address to verify
+     * @returns JWT e-mail verification token
+     */
+    static generateEmailVerificationToken(
+        payload: EmailVerificationPayload
+    ): string {
+        if (!this.EMAIL_SECRET) {
+            throw new AppError(
+                "Missing JWT e-mail secret in .env.",
+                500,
+                ErrorCode.CONFIGURATION_ERROR
+            );
+        }
+        return jwt.sign(payload, this.EMAIL_SECRET, {
+            expiresIn: this.EMAIL_EXPIRES_IN as string,
+        });
+    }
+
+    /**
+     * Check if a JWT is valid or not
+     * @param token JWT e-mail verification token to test
+     * @returns EmailVerificationPayload for tested token
+     */
+    static verifyEmailVerificationToken(
+        token: string
+    ): EmailVerificationPayload {
+        try {
+            return jwt.verify(
+                token,
+                this.EMAIL_SECRET
+            ) as EmailVerificationPayload;
+        } catch (error) {
+            throw new AppError(
+                "Invalid or expired verification token.",
+                400,
+                ErrorCode.INVALID_VERIFICATION_TOKEN
+            );
+        }
+    }
+
+    /**
+     * Create JWT proving the password of an user has been checked, exchanged for real tokens once the 2FA code is verified.
+     * @param payload User id and token version
+     * @returns JWT two-factor challenge token
+     */
+    static generateTwoFactorChallengeToken(
+        payload: TwoFactorChallengePayload
+    ): string {
+        if (!this.TWO_FACTOR_SECRET) {
+            throw new AppError(
+                "Missing JWT 2FA secret in .env.",
+                500,
+                ErrorCode.CONFIGURATION_ERROR
+            );
+        }
+        return jwt.sign(payload, this.TWO_FACTOR_SECRET, {
+            expiresIn: this.TWO_FACTOR_EXPIRES_IN as string,
+        });
+    }
+
+    /**
+     * Check if a JWT is valid or not
+     * @param token JWT two-factor challenge token to test
+     * @returns TwoFactorChallengePayload for tested token
+     */
+    static verifyTwoFactorChallengeToken(
+        token: string
+    ): TwoFactorChallengePayload {
         try {
-            return jwt.verify(token, this.REFRESH_SECRET) as JwtPayload;
+            return jwt.verify(
+                token,
+                this.TWO_FACTOR_SECRET
+            ) as TwoFactorChallengePayload;
         } catch (error) {
-            throw new AppError("Invalid or expired refresh token", 401);
+            throw new AppError(
+                "Invalid or expired two-factor challenge.",
+                401,
+                ErrorCode.INVALID_TWO_FACTOR_CHALLENGE
+            );
         }
     }
 }
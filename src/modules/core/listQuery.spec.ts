@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SelectQueryBuilder } from "typeorm";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import {
+    applyListQuery,
+    parseListQuery,
+    type ListQueryDefinition,
+} from "./listQuery.js";
+
+const definition: ListQueryDefinition = {
+    filters: {
+        role: { type: "exact", column: "role", values: ["ADMIN", "USER"] },
+        organization: {
+            type: "exact",
+            column: "organizationId",
+            integer: true,
+        },
+        email: { type: "contains", column: "email" },
+        created: { type: "dateRange", column: "createdAt" },
+    },
+    sortFields: {
+        id: { column: "id", type: "number" },
+        createdAt: { column: "createdAt", type: "date" },
+    },
+    defaultSort: "-createdAt",
+};
+
+const invalidParameter = { code: ErrorCode.INVALID_QUERY_PARAMETER };
+
+interface Row {
+    id: number;
+    createdAt: Date;
+}
+
+/**
+ * Query builder recording the calls made by applyListQuery.
+ * @param rows Rows returned by getMany.
+ * @param total Number returned by getCount.
+ * @returns Fake query builder and the recorded calls.
+ */
+const fakeQueryBuilder = (rows: Row[], total: number) => {
+    const calls: Array<[string, ...unknown[]]> = [];
+    const record =
+        (name: string) =>
+        (...args: unknown[]) => {
+            calls.push([name, ...args]);
+            return queryBuilder;
+        };
+    const queryBuilder = {
+        andWhere: record("andWhere"),
+        offset: record("offset"),
+        orderBy: record("orderBy"),
+        addOrderBy: record("addOrderBy"),
+        limit: record("limit"),
+        clone: () => ({ getCount: async () => total }),
+        getMany: async () => rows,
+    };
+    return {
+        queryBuilder: queryBuilder as unknown as SelectQueryBuilder<Row>,
+        calls,
+    };
+};
+
+describe("parseListQuery", () => {
+    it("uses the default limit, offset and sort", () => {
+        assert.deepEqual(parseListQuery({}, definition), {
+            limit: 20,
+            offset: 0,
+            cursor: null,
+            sort: { field: "createdAt", order: "DESC" },
+            filters: {},
+        });
+    });
+
+    it("parses the filters", () => {
+        const query = parseListQuery(
+            {
+                role: "ADMIN, USER",
+                organization: "1,2",
+                email: "doe",
+                createdFrom: "2025-01-01",
+                sort: "id",
+            },
+            definition
+        );
+        assert.deepEqual(query.sort, { field: "id", order: "ASC" });
+        assert.deepEqual(query.filters, {
+            role: ["ADMIN", "USER"],
+            organization: ["1", "2"],
+            email: "doe",
+            created: { from: new Date("2025-01-01") },
+        });
+    });
+
+    it("refuses invalid parameters", () => {
+        for (const query of [
+            { limit: "0" },
+            { limit: "101" },
+            { limit: "ten" },
+            { offset: "-1" },
+            { sort: "password" },
+            { role: "ROOT" },
+            { organization: "1 OR 1=1" },
+            { createdTo: "yesterday" },
+            //Repeated parameters are parsed as arrays
+            { email: ["a", "b"] },
+        ]) {
+            assert.throws(
+                () => parseListQuery(query, definition),
+                invalidParameter,
+                JSON.stringify(query)
+            );
+        }
+    });
+
+    it("refuses an offset along with a cursor and cursors of another sort", () => {
+        const cursor = Buffer.from(
+            JSON.stringify({ sort: "-createdAt", value: "2025-01-01", id: 3 })
+        ).toString("base64url");
+        assert.deepEqual(parseListQuery({ cursor }, definition).cursor, {
+            sort: "-createdAt",
+            value: "2025-01-01",
+            id: 3,
+        });
+        assert.throws(
+            () => parseListQuery({ cursor, offset: "20" }, definition),
+            invalidParameter
+        );
+        assert.throws(
+            () => parseListQuery({ cursor, sort: "id" }, definition),
+            invalidParameter
+        );
+        assert.throws(
+            () => parseListQuery({ cursor: "not-a-cursor" }, definition),
+            invalidParameter
+        );
+    });
+});
+
+describe("applyListQuery", () => {
+    const rows = [1, 2, 3].map((id) => ({
+        id,
+        createdAt: new Date(Date.UTC(2025, 0, 10 - id)),
+    }));
+
+    it("returns a cursor pointing after the last row when there are more rows", async () => {
+        const { queryBuilder, calls } = fakeQueryBuilder(rows, 7);
+        const query = parseListQuery({ limit: "2" }, definition);
+
+        const result = await applyListQuery(
+            queryBuilder,
+            "user",
+            query,
+            definition
+        );
+
+        assert.deepEqual(result.data, rows.slice(0, 2));
+        assert.equal(result.meta.total, 7);
+        assert.equal(result.meta.offset, 0);
+        assert.ok(result.meta.nextCursor);
+        //One more row is fetched to know if there is a next page
+        assert.deepEqual(calls.at(-1), ["limit", 3]);
+
+        const next = parseListQuery(
+            { limit: "2", cursor: result.meta.nextCursor },
+            definition
+        );
+        assert.deepEqual(next.cursor, {
+            sort: "-createdAt",
+            value: rows[1]?.createdAt.toISOString(),
+            id: 2,
+        });
+    });
+
+    it("continues after the cursor instead of skipping rows", async () => {
+        const { queryBuilder, calls } = fakeQueryBuilder(rows.slice(2), 7);
+        const cursor = Buffer.from(
+            JSON.stringify({ sort: "id", value: 2, id: 2 })
+        ).toString("base64url");
+        const query = parseListQuery({ cursor, sort: "id" }, definition);
+
+        const result = await applyListQuery(
+            queryBuilder,
+            "user",
+            query,
+            definition
+        );
+
+        assert.equal(result.meta.nextCursor, null);
+        assert.equal(result.meta.offset, undefined);
+        assert.ok(!calls.some(([name]) => name === "offset"));
+        const [, condition, parameters] = calls.find(
+            ([name]) => name === "andWhere"
+        ) ?? [];
+        assert.match(condition as string, /user\.id > :cursorId/);
+        assert.deepEqual(parameters, { cursorValue: 2, cursorId: 2 });
+    });
+
+    it("escapes the wildcards of contains filters", async () => {
+        const { queryBuilder, calls } = fakeQueryBuilder([], 0);
+        const query = parseListQuery({ email: "50%_off" }, definition);
+
+        await applyListQuery(queryBuilder, "user", query, definition);
+
+        assert.deepEqual(calls[0], [
+            "andWhere",
+            "user.email ILIKE :filter_email",
+            { filter_email: "%50\\%\\_off%" },
+        ]);
+    });
+});
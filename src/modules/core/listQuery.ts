@@ -0,0 +1,403 @@
+import type { ObjectLiteral, SelectQueryBuilder } from "typeorm";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+
+/**
+ * Filters available on a list route, the key is the query parameter:
+ * - exact : "?role=ADMIN", comma separated values are OR'ed, restricted to values when provided or to integers for integer columns
+ * - contains : "?email=doe", case insensitive substring
+ * - dateRange : "?createdFrom=2025-01-01&createdTo=2025-02-01", bounds are inclusive
+ */
+export type ListFilter =
+    | { type: "exact"; column: string; values?: string[]; integer?: boolean }
+    | { type: "contains"; column: string }
+    | { type: "dateRange"; column: string };
+
+//Sorted columns must not be nullable, the cursor relies on their value
+export interface ListSortField {
+    column: string;
+    type: "string" | "number" | "date";
+}
+
+export interface ListQueryDefinition {
+    filters: Record<string, ListFilter>;
+    sortFields: Record<string, ListSortField>;
+    //"field" for ascending or "-field" for descending order
+    defaultSort: string;
+    defaultLimit?: number;
+    maxLimit?: number;
+}
+
+export interface ListQuery {
+    limit: number;
+    offset: number;
+    cursor: ListCursor | null;
+    sort: { field: string; order: "ASC" | "DESC" };
+    filters: Record<string, string | string[] | { from?: Date; to?: Date }>;
+}
+
+interface ListCursor {
+    //Sort of the previous page, the cursor cannot be used with another one
+    sort: string;
+    //Value of the sorted field and id of the last row of the previous page
+    value: string | number;
+    id: number;
+}
+
+export interface ListMeta {
+    total: number;
+    limit: number;
+    //Only set for offset pagination
+    offset?: number;
+    //Pass it as "?cursor=" to get the following page, null on the last page
+    nextCursor: string | null;
+}
+
+export interface ListResult<T> {
+    data: T[];
+    meta: ListMeta;
+}
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     limit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         minimum: 1
+ *         maximum: 100
+ *         default: 20
+ *       description: Number of items per page
+ *     offset:
+ *       in: query
+ *       name: offset
+ *       schema:
+ *         type: integer
+ *         minimum: 0
+ *         default: 0
+ *       description: Number of items to skip, cannot be used with cursor
+ *     cursor:
+ *       in: query
+ *       name: cursor
+ *       schema:
+ *         type: string
+ *       description: nextCursor of the previous page, cannot be used with offset. The sort and filters of the first page must be repeated
+ *   schemas:
+ *     ListMeta:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           description: Number of items matching the filters
+ *         limit:
+ *           type: integer
+ *         offset:
+ *           type: integer
+ *           description: Only set for offset pagination
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *           description: Cursor of the following page, null on the last page
+ *       example:
+ *         total: 42
+ *         limit: 20
+ *         offset: 0
+ *         nextCursor: "eyJ2YWx1ZSI6IjIwMjUtMDYtMTJUMDA6MDA6MDAuMDAwWiIsImlkIjoyMn0"
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Read a single string query parameter.
+ * @param query Parsed query string.
+ * @param name Name of the parameter.
+ * @returns Value of the parameter, undefined if missing or empty.
+ */
+const readParam = (
+    query: Record<string, unknown>,
+    name: string
+): string | undefined => {
+    const value = query[name];
+    if (value === undefined || value === "") {
+        return undefined;
+    }
+    if (typeof value !== "string") {
+        throw new AppError(
+            `Invalid query parameter: ${name}.`,
+            400,
+            ErrorCode.INVALID_QUERY_PARAMETER
+        );
+    }
+    return value;
+};
+
+const readInteger = (
+    query: Record<string, unknown>,
+    name: string,
+    min: number,
+    max: number
+): number | undefined => {
+    const value = readParam(query, name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const integer = Number(value);
+    if (!Number.isInteger(integer) || integer < min || integer > max) {
+        throw new AppError(
+            `Query parameter ${name} must be an integer between ${min} and ${max}.`,
+            400,
+            ErrorCode.INVALID_QUERY_PARAMETER
+        );
+    }
+    return integer;
+};
+
+const readDate = (
+    query: Record<string, unknown>,
+    name: string
+): Date | undefined => {
+    const value = readParam(query, name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new AppError(
+            `Query parameter ${name} must be an ISO date.`,
+            400,
+            ErrorCode.INVALID_QUERY_PARAMETER
+        );
+    }
+    return date;
+};
+
+const encodeCursor = (cursor: ListCursor): string => {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+};
+
+const decodeCursor = (cursor: string): ListCursor => {
+    try {
+        const decoded = JSON.parse(
+            Buffer.from(cursor, "base64url").toString("utf8")
+        );
+        if (
+            typeof decoded.sort === "string" &&
+            (typeof decoded.value === "string" ||
+                typeof decoded.value === "number") &&
+            Number.isInteger(decoded.id)
+        ) {
+            return { sort: decoded.sort, value: decoded.value, id: decoded.id };
+        }
+    } catch (error) {
+        //Handled below
+    }
+    throw new AppError(
+        "Invalid query parameter: cursor.",
+        400,
+        ErrorCode.INVALID_QUERY_PARAMETER
+    );
+};
+
+/**
+ * Parse the pagination, sort and filter parameters of a list route.
+ * Pages are selected either with "offset" or with the "cursor" returned by the previous page, not both.
+ * Cursors do not carry the filters, the client repeats them for every page.
+ * @param query Query string of the request (req.query).
+ * @param definition Filters and sort fields allowed on the route.
+ * @returns Parsed list query, ready for applyListQuery.
+ */
+export const parseListQuery = (
+    query: Record<string, unknown>,
+    definition: ListQueryDefinition
+): ListQuery => {
+    const limit =
+        readInteger(query, "limit", 1, definition.maxLimit ?? MAX_LIMIT) ??
+        definition.defaultLimit ??
+        DEFAULT_LIMIT;
+    const offset = readInteger(query, "offset", 0, Number.MAX_SAFE_INTEGER);
+    const cursor = readParam(query, "cursor");
+    if (offset !== undefined && cursor !== undefined) {
+        throw new AppError(
+            "Use either offset or cursor, not both.",
+            400,
+            ErrorCode.INVALID_QUERY_PARAMETER
+        );
+    }
+
+    const sortParam = readParam(query, "sort") ?? definition.defaultSort;
+    const sortField = sortParam.replace(/^-/, "");
+    if (!definition.sortFields[sortField]) {
+        throw new AppError(
+            `Query parameter sort must be one of: ${Object.keys(definition.sortFields).join(", ")}, prefixed by "-" for descending order.`,
+            400,
+            ErrorCode.INVALID_QUERY_PARAMETER
+        );
+    }
+
+    const decodedCursor = cursor !== undefined ? decodeCursor(cursor) : null;
+    if (decodedCursor && decodedCursor.sort !== sortParam) {
+        throw new AppError(
+            "The cursor was issued for another sort, repeat the sort and filters of the first page.",
+            400,
+            ErrorCode.INVALID_QUERY_PARAMETER
+        );
+    }
+
+    const filters: ListQuery["filters"] = {};
+    for (const [name, filter] of Object.entries(definition.filters)) {
+        if (filter.type === "dateRange") {
+            const from = readDate(query, `${name}From`);
+            const to = readDate(query, `${name}To`);
+            if (from || to) {
+                filters[name] = {
+                    ...(from ? { from } : {}),
+                    ...(to ? { to } : {}),
+                };
+            }
+            continue;
+        }
+        const value = readParam(query, name);
+        if (value === undefined) {
+            continue;
+        }
+        if (filter.type === "exact") {
+            const values = value.split(",").map((item) => item.trim());
+            if (
+                filter.values &&
+                values.some((item) => !filter.values?.includes(item))
+            ) {
+                throw new AppError(
+                    `Query parameter ${name} must be one of: ${filter.values.join(", ")}.`,
+                    400,
+                    ErrorCode.INVALID_QUERY_PARAMETER
+                );
+            }
+            if (
+                filter.integer &&
+                values.some((item) => !/^\d{1,9}$/.test(item))
+            ) {
+                throw new AppError(
+                    `Query parameter ${name} must be a list of integers.`,
+                    400,
+                    ErrorCode.INVALID_QUERY_PARAMETER
+                );
+            }
+            filters[name] = values;
+        } else {
+            filters[name] = value;
+        }
+    }
+
+    return {
+        limit,
+        offset: offset ?? 0,
+        cursor: decodedCursor,
+        sort: {
+            field: sortField,
+            order: sortParam.startsWith("-") ? "DESC" : "ASC",
+        },
+        filters,
+    };
+};
+
+/**
+ * Apply a parsed list query to a query builder and fetch the page.
+ * The id of the entity is used as a tie-breaker so rows sharing the same sorted value are never skipped.
+ * @param queryBuilder Query builder selecting the entity, already scoped if needed.
+ * @param alias Alias of the entity inside the query builder.
+ * @param listQuery Parsed list query.
+ * @param definition Definition used to parse the query.
+ * @returns Rows of the page and pagination metadata.
+ */
+export const applyListQuery = async <T extends ObjectLiteral & { id: number }>(
+    queryBuilder: SelectQueryBuilder<T>,
+    alias: string,
+    listQuery: ListQuery,
+    definition: ListQueryDefinition
+): Promise<ListResult<T>> => {
+    for (const [name, value] of Object.entries(listQuery.filters)) {
+        const filter = definition.filters[name] as ListFilter;
+        const column = `${alias}.${filter.column}`;
+        if (filter.type === "exact") {
+            queryBuilder.andWhere(`${column} IN (:...filter_${name})`, {
+                [`filter_${name}`]: value,
+            });
+        } else if (filter.type === "contains") {
+            const escaped = (value as string).replace(/[\\%_]/g, "\\$&");
+            queryBuilder.andWhere(`${column} ILIKE :filter_${name}`, {
+                [`filter_${name}`]: `%${escaped}%`,
+            });
+        } else {
+            const { from, to } = value as { from?: Date; to?: Date };
+            if (from) {
+                queryBuilder.andWhere(`${column} >= :filter_${name}_from`, {
+                    [`filter_${name}_from`]: from,
+                });
+            }
+            if (to) {
+                queryBuilder.andWhere(`${column} <= :filter_${name}_to`, {
+                    [`filter_${name}_to`]: to,
+                });
+            }
+        }
+    }
+
+    const total = await queryBuilder.clone().getCount();
+
+    const sortField = definition.sortFields[listQuery.sort.field] as ListSortField;
+    //Dates are compared at the millisecond precision of the cursor
+    const sortExpression =
+        sortField.type === "date"
+            ? `date_trunc('milliseconds', ${alias}.${sortField.column})`
+            : `${alias}.${sortField.column}`;
+    const { order } = listQuery.sort;
+
+    if (listQuery.cursor) {
+        const operator = order === "ASC" ? ">" : "<";
+        queryBuilder.andWhere(
+            `(${sortExpression} ${operator} :cursorValue OR (${sortExpression} = :cursorValue AND ${alias}.id ${operator} :cursorId))`,
+            {
+                cursorValue:
+                    sortField.type === "date"
+                        ? new Date(listQuery.cursor.value)
+                        : listQuery.cursor.value,
+                cursorId: listQuery.cursor.id,
+            }
+        );
+    } else {
+        queryBuilder.offset(listQuery.offset);
+    }
+
+    const rows = await queryBuilder
+        .orderBy(sortExpression, order)
+        .addOrderBy(`${alias}.id`, order)
+        .limit(listQuery.limit + 1)
+        .getMany();
+
+    const hasMore = rows.length > listQuery.limit;
+    const data = hasMore ? rows.slice(0, listQuery.limit) : rows;
+    const last = data[data.length - 1];
+    let nextCursor: string | null = null;
+    if (hasMore && last) {
+        const value = last[sortField.column];
+        nextCursor = encodeCursor({
+            sort: `${order === "DESC" ? "-" : ""}${listQuery.sort.field}`,
+            value: value instanceof Date ? value.toISOString() : value,
+            id: last.id,
+        });
+    }
+
+    return {
+        data,
+        meta: {
+            total,
+            limit: listQuery.limit,
+            ...(listQuery.cursor ? {} : { offset: listQuery.offset }),
+            nextCursor,
+        },
+    };
+};
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    it,
+    mock,
+    type Mock,
+} from "node:test";
+import type { RefreshToken } from "../../models/RefreshToken.js";
+import type { User } from "../../models/User.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { sessionService } from "../session/session.service.js";
+import { JwtService } from "./jwt.service.js";
+import { refreshTokenService } from "./refreshToken.service.js";
+
+const repository = refreshTokenService["refreshTokenRepository"];
+
+const user = {
+    id: 1,
+    name: "john",
+    role: "USER",
+    tokenVersion: 0,
+} as User;
+
+/**
+ * Build the stored row of a refresh token.
+ * @param values Values overriding the defaults.
+ * @returns Refresh token row with its owner and session.
+ */
+const storedToken = (values: Partial<RefreshToken> = {}): RefreshToken =>
+    ({
+        id: 10,
+        familyId: "family-1",
+        userId: user.id,
+        user: user,
+        session: { revokedAt: null },
+        usedAt: null,
+        revoked: false,
+        ...values,
+    }) as RefreshToken;
+
+describe("refreshTokenService.rotate", () => {
+    let token: string;
+    let saved: Partial<RefreshToken>[];
+    let revokeSession: Mock<typeof sessionService.revoke>;
+
+    beforeEach(() => {
+        JwtService["REFRESH_SECRET"] = "refresh-secret";
+        token = JwtService.generateRefreshToken({
+            id: user.id,
+            name: user.name,
+            role: user.role,
+            tokenVersion: user.tokenVersion,
+            familyId: "family-1",
+        });
+        saved = [];
+        mock.method(
+            repository,
+            "create",
+            (values: Partial<RefreshToken>) => values
+        );
+        mock.method(
+            repository,
+            "save",
+            async (values: Partial<RefreshToken>) => {
+                saved.push(values);
+                return values;
+            }
+        );
+        mock.method(sessionService, "touch", async () => undefined);
+        revokeSession = mock.method(
+            sessionService,
+            "revoke",
+            async () => undefined
+        );
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("exchanges an unused token for a new one of the same family", async () => {
+        mock.method(repository, "findOne", async () => storedToken());
+        const update = mock.method(repository, "update", async () => ({
+            affected: 1,
+            raw: [],
+            generatedMaps: [],
+        }));
+
+        const result = await refreshTokenService.rotate(token);
+
+        assert.equal(result.user, user);
+        assert.equal(result.sessionId, "family-1");
+        assert.notEqual(result.refreshToken, token);
+        assert.equal(
+            JwtService.verifyRefreshToken(result.refreshToken).familyId,
+            "family-1"
+        );
+        //The old token is marked as used only if nobody used it meanwhile
+        const [criteria, values] = update.mock.calls[0]?.arguments ?? [];
+        assert.equal((criteria as { id: number }).id, 10);
+        assert.ok((criteria as { usedAt: unknown }).usedAt);
+        assert.ok((values as { usedAt: Date }).usedAt instanceof Date);
+        assert.equal(saved.length, 1);
+        assert.equal(saved[0]?.familyId, "family-1");
+        assert.notEqual(
+            saved[0]?.tokenHash,
+            refreshTokenService["hash"](token)
+        );
+    });
+
+    it("revokes the whole family when a used token is presented again", async () => {
+        mock.method(repository, "findOne", async () =>
+            storedToken({ usedAt: new Date() })
+        );
+        const update = mock.method(repository, "update", async () => ({
+            affected: 0,
+            raw: [],
+            generatedMaps: [],
+        }));
+
+        await assert.rejects(refreshTokenService.rotate(token), {
+            statusCode: 401,
+            code: ErrorCode.INVALID_REFRESH_TOKEN,
+        });
+
+        assert.deepEqual(update.mock.calls[1]?.arguments, [
+            { familyId: "family-1" },
+            { revoked: true },
+        ]);
+        assert.deepEqual(revokeSession.mock.calls[0]?.arguments, [
+            "family-1",
+        ]);
+        assert.equal(saved.length, 0);
+    });
+
+    it("revokes the family when a concurrent call used the token first", async () => {
+        mock.method(repository, "findOne", async () => storedToken());
+        const update = mock.method(repository, "update", async () => ({
+            affected: 0,
+            raw: [],
+            generatedMaps: [],
+        }));
+
+        await assert.rejects(refreshTokenService.rotate(token), {
+            code: ErrorCode.INVALID_REFRESH_TOKEN,
+        });
+
+        assert.deepEqual(update.mock.calls[1]?.arguments, [
+            { familyId: "family-1" },
+            { revoked: true },
+        ]);
+        assert.equal(saved.length, 0);
+    });
+
+    it("refuses revoked tokens and tokens of revoked sessions", async () => {
+        const update = mock.method(repository, "update", async () => ({
+            affected: 1,
+            raw: [],
+            generatedMaps: [],
+        }));
+        for (const revoked of [
+            storedToken({ revoked: true }),
+            storedToken({
+                session: { revokedAt: new Date() },
+            } as Partial<RefreshToken>),
+            null,
+        ]) {
+            mock.method(repository, "findOne", async () => revoked);
+            await assert.rejects(refreshTokenService.rotate(token), {
+                code: ErrorCode.INVALID_REFRESH_TOKEN,
+            });
+        }
+        assert.equal(update.mock.callCount(), 0);
+        assert.equal(saved.length, 0);
+    });
+
+    it("refuses tokens which are not signed with the refresh secret", async () => {
+        const findOne = mock.method(repository, "findOne", async () =>
+            storedToken()
+        );
+        JwtService["REFRESH_SECRET"] = "another-secret";
+
+        await assert.rejects(refreshTokenService.rotate(token), {
+            code: ErrorCode.INVALID_REFRESH_TOKEN,
+        });
+        assert.equal(findOne.mock.callCount(), 0);
+    });
+});
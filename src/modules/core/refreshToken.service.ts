@@ -0,0 +1,203 @@
+import { createHash, randomUUID } from "crypto";
+import { IsNull, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { RefreshToken } from "../../models/RefreshToken.js";
+import type { User } from "../../models/User.js";
+import { sessionService } from "../session/session.service.js";
+import type { SessionContext } from "../session/session.types.js";
+import { JwtService } from "./jwt.service.js";
+
+class RefreshTokenService {
+    private refreshTokenRepository: Repository<RefreshToken>;
+    private static instance: RefreshTokenService;
+
+    static getInstance() {
+        if (!RefreshTokenService.instance) {
+            RefreshTokenService.instance = new RefreshTokenService();
+        }
+        return RefreshTokenService.instance;
+    }
+
+    constructor() {
+        this.refreshTokenRepository = AppDataSource.getRepository(RefreshToken);
+    }
+
+    /**
+     * Hash a refresh token so it can be looked up without storing it in clear.
+     * @param token Raw refresh token.
+     * @returns Hex encoded SHA-256 of the token.
+     */
+    private hash(token: string): string {
+        return createHash("sha256").update(token).digest("hex");
+    }
+
+    /**
+     * Sign a new refresh token for an user.
+     * @param user User owning the token.
+     * @param familyId Family of the token.
+     * @returns Raw refresh token and its expiration date.
+     */
+    private sign(user: User, familyId: string): { token: string; expiresAt: Date } {
+        const token = JwtService.generateRefreshToken({
+            id: user.id,
+            name: user.name,
+            role: user.role,
+            tokenVersion: user.tokenVersion,
+            familyId: familyId,
+        });
+        const { exp } = JwtService.verifyRefreshToken(token);
+        return { token, expiresAt: new Date((exp as number) * 1000) };
+    }
+
+    /**
+     * Persist the hash of a refresh token.
+     * @param token Raw refresh token.
+     * @param familyId Family of the token.
+     * @param userId Owner of the token.
+     * @param expiresAt Expiration date of the token.
+     */
+    private async store(
+        token: string,
+        familyId: string,
+        userId: number,
+        expiresAt: Date
+    ): Promise<void> {
+        await this.refreshTokenRepository.save(
+            this.refreshTokenRepository.create({
+                tokenHash: this.hash(token),
+                familyId: familyId,
+                userId: userId,
+                expiresAt: expiresAt,
+            })
+        );
+    }
+
+    /**
+     * Start a new session for an user and create its first refresh token.
+     * @param user User owning the token.
+     * @param context Device informations of the session.
+     * @returns Raw refresh token to send to the client and the id of the session.
+     */
+    async issue(
+        user: User,
+        context: SessionContext
+    ): Promise<{ refreshToken: string; sessionId: string }> {
+        const familyId = randomUUID();
+        const { token, expiresAt } = this.sign(user, familyId);
+
+        await sessionService.create(familyId, user.id, context, expiresAt);
+        await this.store(token, familyId, user.id, expiresAt);
+        return { refreshToken: token, sessionId: familyId };
+    }
+
+    /**
+     * Exchange a refresh token for a new one from the same family.
+     * A token can only be exchanged once, presenting an already used token
+     * revokes every token of its family as it is most likely stolen.
+     * @param token Refresh token sent by the client.
+     * @returns The owner of the token, the new refresh token and the id of the session.
+     */
+    async rotate(
+        token: string
+    ): Promise<{ user: User; refreshToken: string; sessionId: string }> {
+        JwtService.verifyRefreshToken(token);
+
+        const storedToken = await this.refreshTokenRepository.findOne({
+            where: { tokenHash: this.hash(token) },
+            relations: { user: true, session: true },
+        });
+
+        //The owner is not loaded if the account is deleted
+        if (
+            !storedToken ||
+            !storedToken.user ||
+            storedToken.revoked ||
+            storedToken.session.revokedAt
+        ) {
+            throw new AppError(
+                "Invalid or expired refresh token",
+                401,
+                ErrorCode.INVALID_REFRESH_TOKEN
+            );
+        }
+
+        //Conditional update so two concurrent calls cannot both use the same token
+        const result = await this.refreshTokenRepository.update(
+            { id: storedToken.id, usedAt: IsNull() },
+            { usedAt: new Date() }
+        );
+
+        if (storedToken.usedAt || result.affected === 0) {
+            await this.revokeFamily(storedToken.familyId);
+            logger.warn(
+                `Refresh token reuse detected for user id: ${storedToken.userId}, family ${storedToken.familyId} revoked.`
+            );
+            throw new AppError(
+                "Invalid or expired refresh token",
+                401,
+                ErrorCode.INVALID_REFRESH_TOKEN
+            );
+        }
+
+        const { token: refreshToken, expiresAt } = this.sign(
+            storedToken.user,
+            storedToken.familyId
+        );
+        await this.store(
+            refreshToken,
+            storedToken.familyId,
+            storedToken.userId,
+            expiresAt
+        );
+        await sessionService.touch(storedToken.familyId, expiresAt);
+
+        return {
+            user: storedToken.user,
+            refreshToken,
+            sessionId: storedToken.familyId,
+        };
+    }
+
+    /**
+     * Revoke the family of the provided refresh token, used on logout.
+     * Unknown or invalid tokens are ignored.
+     * @param token Refresh token sent by the client.
+     */
+    async revoke(token: string): Promise<void> {
+        const storedToken = await this.refreshTokenRepository.findOne({
+            where: { tokenHash: this.hash(token) },
+        });
+        if (storedToken) {
+            await this.revokeFamily(storedToken.familyId);
+        }
+    }
+
+    /**
+     * Revoke every token of a family along with its session.
+     * @param familyId Family to revoke.
+     */
+    async revokeFamily(familyId: string): Promise<void> {
+        await this.refreshTokenRepository.update(
+            { familyId: familyId },
+            { revoked: true }
+        );
+        await sessionService.revoke(familyId);
+    }
+
+    /**
+     * Revoke every refresh token and session of an user.
+     * @param userId userId.
+     */
+    async revokeAllForUser(userId: number): Promise<void> {
+        await this.refreshTokenRepository.update(
+            { userId: userId, revoked: false },
+            { revoked: true }
+        );
+        await sessionService.revokeAll(userId);
+    }
+}
+
+export const refreshTokenService = RefreshTokenService.getInstance();
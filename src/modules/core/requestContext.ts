@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+//Correlation data of the request being handled, attached to every log entry
+export interface RequestContext {
+    requestId: string;
+    //W3C trace context, set if the request carried a valid traceparent header
+    traceId?: string;
+    parentId?: string;
+    //Set once the user is authenticated
+    userId?: number;
+}
+
+/**
+ * Context of the request being handled, set by requestId for everything called after it,
+ * so logs written anywhere (services, TypeORM) can be tied to their request.
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Return the context of the request being handled.
+ * @returns Current context, undefined outside of a request (startup, background jobs).
+ */
+export const getRequestContext = (): RequestContext | undefined => {
+    return requestContext.getStore();
+};
+
+/**
+ * Record the authenticated user in the context of the request being handled.
+ * @param userId Id of the logged in user.
+ */
+export const setRequestUser = (userId: number): void => {
+    const context = requestContext.getStore();
+    if (context) {
+        context.userId = userId;
+    }
+};
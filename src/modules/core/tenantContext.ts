@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import type { OrganizationRole } from "../../models/Membership.js";
+
+//Organization selected by the tenant resolver along with the membership of the logged in user
+export interface Tenant {
+    organizationId: number;
+    slug: string;
+    name: string;
+    membershipId: number;
+    role: OrganizationRole;
+}
+
+/**
+ * Tenant of the request being handled, set by resolveTenant for everything called after it,
+ * so services can scope their queries without receiving the tenant as a parameter.
+ */
+export const tenantContext = new AsyncLocalStorage<Tenant>();
+
+/**
+ * Return the tenant of the request being handled.
+ * @returns Current tenant.
+ */
+export const getCurrentTenant = (): Tenant => {
+    const tenant = tenantContext.getStore();
+    if (!tenant) {
+        throw new AppError(
+            "No organization selected.",
+            400,
+            ErrorCode.NO_ORGANIZATION_SELECTED
+        );
+    }
+    return tenant;
+};
@@ -0,0 +1,126 @@
+import type {
+    DeepPartial,
+    EntityTarget,
+    FindManyOptions,
+    FindOneOptions,
+    FindOptionsWhere,
+    Repository,
+} from "typeorm";
+import type { QueryDeepPartialEntity } from "typeorm/query-builder/QueryPartialEntity.js";
+import { AppDataSource } from "../../config/database.js";
+import { getCurrentTenant } from "./tenantContext.js";
+
+export interface TenantEntity {
+    organizationId: number;
+}
+
+/**
+ * Repository limited to the rows of the current tenant, see tenantContext.
+ * Every query is filtered on organizationId and new rows are attached to the current organization,
+ * so a service using it can never read or change the rows of another organization.
+ */
+export class TenantRepository<T extends TenantEntity> {
+    private repository: Repository<T>;
+
+    constructor(entity: EntityTarget<T>) {
+        this.repository = AppDataSource.getRepository(entity);
+    }
+
+    /**
+     * Add the current organization to a where clause, every branch of an OR clause is scoped.
+     * @param where Where clause of the query.
+     * @returns Scoped where clause.
+     */
+    private scope(
+        where: FindOptionsWhere<T> | FindOptionsWhere<T>[] | undefined
+    ): FindOptionsWhere<T>[] {
+        const organizationId = getCurrentTenant().organizationId;
+        const clauses = Array.isArray(where) ? where : [where ?? {}];
+        return clauses.map(
+            (clause) => ({ ...clause, organizationId }) as FindOptionsWhere<T>
+        );
+    }
+
+    async find(options: FindManyOptions<T> = {}): Promise<T[]> {
+        return await this.repository.find({
+            ...options,
+            where: this.scope(options.where),
+        });
+    }
+
+    async findOne(options: FindOneOptions<T>): Promise<T | null> {
+        return await this.repository.findOne({
+            ...options,
+            where: this.scope(options.where),
+        });
+    }
+
+    async count(options: FindManyOptions<T> = {}): Promise<number> {
+        return await this.repository.count({
+            ...options,
+            where: this.scope(options.where),
+        });
+    }
+
+    async exists(options: FindManyOptions<T> = {}): Promise<boolean> {
+        return await this.repository.exists({
+            ...options,
+            where: this.scope(options.where),
+        });
+    }
+
+    /**
+     * Create an entity attached to the current organization, without saving it.
+     * @param data Entity data, organizationId is overwritten.
+     * @returns Entity.
+     */
+    create(data: DeepPartial<T>): T {
+        return this.repository.create({
+            ...data,
+            organizationId: getCurrentTenant().organizationId,
+        } as DeepPartial<T>);
+    }
+
+    /**
+     * Save an entity of the current organization.
+     * @param entity Entity created by this repository or loaded through it.
+     * @returns Saved entity.
+     */
+    async save(entity: T): Promise<T> {
+        if (entity.organizationId !== getCurrentTenant().organizationId) {
+            throw new Error("Cannot save an entity of another organization.");
+        }
+        return await this.repository.save(entity);
+    }
+
+    /**
+     * Update the rows of the current organization, organizationId itself cannot be changed.
+     * @param where Rows to update.
+     * @param data New values.
+     * @returns Number of updated rows.
+     */
+    async update(
+        where: FindOptionsWhere<T>,
+        data: QueryDeepPartialEntity<T>
+    ): Promise<number> {
+        const values: Record<string, unknown> = { ...data };
+        delete values.organizationId;
+        const result = await this.repository.update(
+            this.scope(where)[0] as FindOptionsWhere<T>,
+            values as QueryDeepPartialEntity<T>
+        );
+        return result.affected ?? 0;
+    }
+
+    /**
+     * Delete the rows of the current organization.
+     * @param where Rows to delete.
+     * @returns Number of deleted rows.
+     */
+    async delete(where: FindOptionsWhere<T>): Promise<number> {
+        const result = await this.repository.delete(
+            this.scope(where)[0] as FindOptionsWhere<T>
+        );
+        return result.affected ?? 0;
+    }
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { TotpService } from "./totp.service.js";
+
+//Secret of the RFC 6238 test vectors, "12345678901234567890" encoded in base32
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+/**
+ * Freeze the clock.
+ * @param seconds Unix time in seconds.
+ */
+const setTime = (seconds: number) => {
+    mock.method(Date, "now", () => seconds * 1000);
+};
+
+describe("TotpService", () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("matches the RFC 6238 test vectors", () => {
+        //Last 6 digits of the 8 digits SHA-1 codes of the RFC
+        const vectors: Array<[number, string]> = [
+            [59, "287082"],
+            [1111111109, "081804"],
+            [1111111111, "050471"],
+            [1234567890, "005924"],
+            [2000000000, "279037"],
+        ];
+        for (const [time, code] of vectors) {
+            setTime(time);
+            assert.equal(
+                TotpService.verify(SECRET, code),
+                Math.floor(time / 30)
+            );
+        }
+    });
+
+    it("accepts the codes of the previous and next steps only", () => {
+        //081804 is the code of step 37037036
+        setTime(1111111109 + 30);
+        assert.equal(TotpService.verify(SECRET, "081804"), 37037036);
+        setTime(1111111109 - 30);
+        assert.equal(TotpService.verify(SECRET, "081804"), 37037036);
+        setTime(1111111109 + 60);
+        assert.equal(TotpService.verify(SECRET, "081804"), null);
+        setTime(1111111109 - 60);
+        assert.equal(TotpService.verify(SECRET, "081804"), null);
+    });
+
+    it("refuses a code whose step was already used", () => {
+        setTime(59);
+        assert.equal(TotpService.verify(SECRET, "287082", 1), null);
+        assert.equal(TotpService.verify(SECRET, "287082", 0), 1);
+    });
+
+    it("refuses codes which are not 6 digits", () => {
+        setTime(59);
+        for (const code of ["", "28708", "2870820", "28708a", " 287082"]) {
+            assert.equal(TotpService.verify(SECRET, code), null);
+        }
+    });
+
+    it("generates secrets usable by authenticator applications", () => {
+        const secret = TotpService.generateSecret();
+        assert.match(secret, /^[A-Z2-7]{32}$/);
+        const uri = new URL(TotpService.buildUri(secret, "john@example.com"));
+        assert.equal(uri.protocol, "otpauth:");
+        assert.equal(uri.searchParams.get("secret"), secret);
+        assert.equal(uri.searchParams.get("digits"), "6");
+        assert.equal(uri.searchParams.get("period"), "30");
+    });
+});
@@ -0,0 +1,130 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Time-based one-time passwords as described by RFC 6238 (HMAC-SHA1, 6 digits, 30 seconds steps),
+ * compatible with the usual authenticator applications.
+ */
+export class TotpService {
+    private static STEP = 30;
+    private static DIGITS = 6;
+    //Number of steps accepted before and after the current one to allow clock drift
+    private static WINDOW = 1;
+    private static ISSUER = process.env.TWO_FACTOR_ISSUER || "API";
+
+    /**
+     * Create a new random secret.
+     * @returns Base32 encoded secret.
+     */
+    static generateSecret(): string {
+        return this.base32Encode(randomBytes(20));
+    }
+
+    /**
+     * Build the otpauth URI used by authenticator applications, usually displayed as a QR code.
+     * @param secret Base32 encoded secret.
+     * @param accountName Name of the account inside the application.
+     * @returns otpauth URI.
+     */
+    static buildUri(secret: string, accountName: string): string {
+        const label = encodeURIComponent(`${this.ISSUER}:${accountName}`);
+        const params = new URLSearchParams({
+            secret: secret,
+            issuer: this.ISSUER,
+            algorithm: "SHA1",
+            digits: `${this.DIGITS}`,
+            period: `${this.STEP}`,
+        });
+        return `otpauth://totp/${label}?${params.toString()}`;
+    }
+
+    /**
+     * Check a code against a secret.
+     * @param secret Base32 encoded secret.
+     * @param code Code typed by the user.
+     * @param lastUsedStep Step of the last accepted code, codes from this step or older are refused.
+     * @returns Step of the matching code, null if the code is invalid.
+     */
+    static verify(
+        secret: string,
+        code: string,
+        lastUsedStep: number | null = null
+    ): number | null {
+        if (!new RegExp(`^\\d{${this.DIGITS}}$`).test(code)) {
+            return null;
+        }
+        const key = this.base32Decode(secret);
+        const currentStep = Math.floor(Date.now() / 1000 / this.STEP);
+
+        for (let offset = -this.WINDOW; offset <= this.WINDOW; offset++) {
+            const step = currentStep + offset;
+            if (lastUsedStep !== null && step <= lastUsedStep) {
+                continue;
+            }
+            if (
+                timingSafeEqual(
+                    Buffer.from(this.hotp(key, step)),
+                    Buffer.from(code)
+                )
+            ) {
+                return step;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * HMAC-based one-time password as described by RFC 4226.
+     * @param key Secret key.
+     * @param counter Moving factor, the time step for TOTP.
+     * @returns Code padded to the configured number of digits.
+     */
+    private static hotp(key: Buffer, counter: number): string {
+        const buffer = Buffer.alloc(8);
+        buffer.writeBigUInt64BE(BigInt(counter));
+        const hmac = createHmac("sha1", key).update(buffer).digest();
+
+        const offset = (hmac[hmac.length - 1] as number) & 0x0f;
+        const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+        return `${binary % 10 ** this.DIGITS}`.padStart(this.DIGITS, "0");
+    }
+
+    private static base32Encode(buffer: Buffer): string {
+        let bits = 0;
+        let value = 0;
+        let output = "";
+        for (const byte of buffer) {
+            value = (value << 8) | byte;
+            bits += 8;
+            while (bits >= 5) {
+                output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+                bits -= 5;
+            }
+        }
+        if (bits > 0) {
+            output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+        }
+        return output;
+    }
+
+    private static base32Decode(input: string): Buffer {
+        const cleaned = input.toUpperCase().replace(/=+$/, "");
+        let bits = 0;
+        let value = 0;
+        const output: number[] = [];
+        for (const char of cleaned) {
+            const index = BASE32_ALPHABET.indexOf(char);
+            if (index === -1) {
+                throw new Error(`Invalid base32 character : ${char}`);
+            }
+            value = (value << 5) | index;
+            bits += 5;
+            if (bits >= 8) {
+                output.push((value >>> (bits - 8)) & 255);
+                bits -= 8;
+            }
+        }
+        return Buffer.from(output);
+    }
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { crc32, inflateRawSync } from "node:zlib";
+import { createZip } from "./zip.js";
+
+interface ReadEntry {
+    name: string;
+    content: Buffer;
+    time: number;
+    date: number;
+}
+
+/**
+ * Read an archive through its central directory, as unzip tools do.
+ * @param zip Zip archive.
+ * @returns Files of the archive.
+ */
+const readZip = (zip: Buffer): ReadEntry[] => {
+    const end = zip.length - 22;
+    assert.equal(zip.readUInt32LE(end), 0x06054b50);
+    const count = zip.readUInt16LE(end + 10);
+    const centralSize = zip.readUInt32LE(end + 12);
+    let position = zip.readUInt32LE(end + 16);
+    assert.equal(position + centralSize, end);
+
+    const entries: ReadEntry[] = [];
+    for (let index = 0; index < count; index++) {
+        assert.equal(zip.readUInt32LE(position), 0x02014b50);
+        const checksum = zip.readUInt32LE(position + 16);
+        const compressedSize = zip.readUInt32LE(position + 20);
+        const size = zip.readUInt32LE(position + 24);
+        const nameLength = zip.readUInt16LE(position + 28);
+        const offset = zip.readUInt32LE(position + 42);
+        const name = zip.toString(
+            "utf8",
+            position + 46,
+            position + 46 + nameLength
+        );
+
+        //The local header must repeat the central directory
+        assert.equal(zip.readUInt32LE(offset), 0x04034b50);
+        assert.equal(zip.readUInt32LE(offset + 14), checksum);
+        assert.equal(
+            zip.toString("utf8", offset + 30, offset + 30 + nameLength),
+            name
+        );
+        const start = offset + 30 + nameLength;
+        const content = inflateRawSync(
+            zip.subarray(start, start + compressedSize)
+        );
+        assert.equal(content.length, size);
+        assert.equal(crc32(content), checksum);
+
+        entries.push({
+            name,
+            content,
+            time: zip.readUInt16LE(position + 12),
+            date: zip.readUInt16LE(position + 14),
+        });
+        position += 46 + nameLength;
+    }
+    return entries;
+};
+
+describe("createZip", () => {
+    it("stores every file with its name and content", () => {
+        const files = [
+            { name: "profile.json", content: Buffer.from('{"id":1}') },
+            { name: "données/é.json", content: Buffer.from("é".repeat(5000)) },
+            { name: "empty.json", content: Buffer.alloc(0) },
+        ];
+
+        const entries = readZip(createZip(files));
+
+        assert.deepEqual(
+            entries.map(({ name, content }) => ({ name, content })),
+            files
+        );
+    });
+
+    it("writes the modification date in the MS-DOS format", () => {
+        const [entry] = readZip(
+            createZip(
+                [{ name: "a.json", content: Buffer.from("a") }],
+                new Date(2025, 5, 12, 14, 30, 41)
+            )
+        );
+
+        assert.equal(entry?.date, ((2025 - 1980) << 9) | (6 << 5) | 12);
+        //Seconds are stored with a 2 seconds precision
+        assert.equal(entry?.time, (14 << 11) | (30 << 5) | 20);
+    });
+
+    it("builds an empty archive", () => {
+        const zip = createZip([]);
+        assert.equal(zip.length, 22);
+        assert.deepEqual(readZip(zip), []);
+    });
+});
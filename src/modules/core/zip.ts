@@ -0,0 +1,85 @@
+import { crc32, deflateRawSync } from "zlib";
+
+export interface ZipEntry {
+    name: string;
+    content: Buffer;
+}
+
+/**
+ * Convert a date to the MS-DOS format used by zip headers.
+ * @param date Date to convert.
+ * @returns DOS time and date.
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time:
+        (date.getHours() << 11) |
+        (date.getMinutes() << 5) |
+        Math.floor(date.getSeconds() / 2),
+    date:
+        ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+        ((date.getMonth() + 1) << 5) |
+        date.getDate(),
+});
+
+/**
+ * Build a zip archive (PKWARE APPNOTE, deflate compression, no zip64) in memory.
+ * @param entries Files of the archive.
+ * @param modifiedAt Modification date of every file.
+ * @returns Zip archive.
+ */
+export const createZip = (
+    entries: Array<ZipEntry>,
+    modifiedAt: Date = new Date()
+): Buffer => {
+    const { time, date } = toDosDateTime(modifiedAt);
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, "utf8");
+        const compressed = deflateRawSync(entry.content);
+        const checksum = crc32(entry.content);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4); //Version needed to extract
+        local.writeUInt16LE(0x0800, 6); //UTF-8 file names
+        local.writeUInt16LE(8, 8); //Deflate
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.content.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4); //Version made by
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.content.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, compressed);
+        centralParts.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+};
@@ -0,0 +1,121 @@
+import type { Request, Response, NextFunction } from "express";
+import { isUUID } from "class-validator";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { userService } from "../user/user.service.js";
+import { dataExportService } from "./dataExport.service.js";
+import type { DataExportArchive } from "./dataExport.types.js";
+
+export class DataExportController {
+
+    constructor() {
+        this.exportData = this.exportData.bind(this);
+        this.getExport = this.getExport.bind(this);
+        this.downloadExport = this.downloadExport.bind(this);
+    }
+
+    /**
+     * Send an archive as a file attachment.
+     * @param res Response or the incoming HTTP request.
+     * @param archive Archive to send.
+     */
+    private sendArchive(res: Response, archive: DataExportArchive) {
+        res.setHeader("Content-Type", archive.contentType);
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${archive.fileName}"`
+        );
+        res.setHeader("Cache-Control", "no-store");
+        res.status(200).send(archive.content);
+    }
+
+    /**
+     * Export the personal data of the currently logged in user.
+     * Large exports are generated in the background, the response then contains the download link.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async exportData(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const format = req.query.format ?? "json";
+            if (format !== "json" && format !== "zip") {
+                throw new AppError(
+                    "Export format must be json or zip.",
+                    400,
+                    ErrorCode.INVALID_EXPORT_FORMAT
+                );
+            }
+            const user = await userService.getUserById(req.user.id);
+            const result = await dataExportService.createExport(user, format);
+
+            if ("archive" in result) {
+                this.sendArchive(res, result.archive);
+            } else {
+                res.status(202).json({ status: "success", data: result.pending });
+            }
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return the state of an export of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getExport(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const exportId = req.params.id;
+            if (exportId === undefined || !isUUID(exportId)) {
+                throw new AppError(
+                    "Data export not found.",
+                    404,
+                    ErrorCode.DATA_EXPORT_NOT_FOUND
+                );
+            }
+            const dataExport = await dataExportService.getExport(
+                req.user.id,
+                exportId
+            );
+            res.status(200).json({ status: "success", data: dataExport });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Download the archive of an export with the link sent to its owner.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async downloadExport(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { token } = req.query;
+            if (typeof token !== "string" || !token) {
+                throw new AppError(
+                    "Invalid or expired download link.",
+                    404,
+                    ErrorCode.INVALID_DOWNLOAD_LINK
+                );
+            }
+            this.sendArchive(res, await dataExportService.download(token));
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,211 @@
+import { Router } from "express";
+import { authenticateWith } from "../../middlewares/authMiddleware.js";
+import { apiLimiter } from "../../middlewares/rateLimiter.js";
+import { DataExportController } from "./dataExport.controller.js";
+
+const router = Router();
+const controller = new DataExportController();
+//Personal data are only exported for the user themselves, not with an API key nor while impersonating
+const authenticate = authenticateWith({
+    allowApiKey: false,
+    allowImpersonation: false,
+});
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Data export
+ *   description: Export of every personal data stored about the current user (GDPR right of access).
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DataExport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           description: Export id
+ *         format:
+ *           type: string
+ *           enum: [json, zip]
+ *         status:
+ *           type: string
+ *           enum: [pending, ready, failed]
+ *         size:
+ *           type: integer
+ *           nullable: true
+ *           description: Size of the archive in bytes, null until it is generated
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: Expiration date of the download link (ISO format)
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Creation date (ISO format)
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Generation date of the archive (ISO format)
+ *       example:
+ *         id: "3b241101-e2bb-4255-8caf-4136c566a962"
+ *         format: "zip"
+ *         status: "pending"
+ *         size: null
+ *         expiresAt: "2025-06-13T00:00:00.000Z"
+ *         createdAt: "2025-06-12T00:00:00.000Z"
+ *         completedAt: null
+ */
+
+/**
+ * @swagger
+ * /users/me/export:
+ *   get:
+ *     summary: Export the personal data of the current user
+ *     description: The archive contains the profile, sessions, linked identities, API keys, organizations and the data of every registered exporter. It is returned directly when it is small, otherwise it is generated in the background and the download link is returned and sent by mail.
+ *     tags: [Data export]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, zip]
+ *           default: json
+ *         description: A single JSON document or a zip archive with one JSON file per section
+ *     responses:
+ *       200:
+ *         description: Archive of the personal data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       202:
+ *         description: Export generated in the background
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/DataExport'
+ *                     - type: object
+ *                       properties:
+ *                         downloadUrl:
+ *                           type: string
+ *                           example: /users/me/export/download?token=Gk1n3...
+ *       400:
+ *         description: Invalid format
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Request authenticated with an API key or while impersonating
+ */
+router.get("/", authenticate, controller.exportData);
+
+/**
+ * @swagger
+ * /users/me/export/download:
+ *   get:
+ *     summary: Download an export generated in the background
+ *     description: The token of the link authenticates the request, the link can be used until it expires.
+ *     tags: [Data export]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Archive of the personal data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Invalid or expired link
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Export not generated yet
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       410:
+ *         description: Export failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get("/download", controller.downloadExport);
+
+/**
+ * @swagger
+ * /users/me/export/{id}:
+ *   get:
+ *     summary: Get the state of an export of the current user
+ *     tags: [Data export]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Export state
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   $ref: '#/components/schemas/DataExport'
+ *       401:
+ *         description: Not logged in
+ *       404:
+ *         description: Export not found or expired
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get("/:id", authenticate, controller.getExport);
+
+export default router;
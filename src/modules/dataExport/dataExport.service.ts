@@ -0,0 +1,403 @@
+import { createHash, randomBytes } from "crypto";
+import { LessThan, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { ApiKey } from "../../models/ApiKey.js";
+import { DataExport, DataExportStatus } from "../../models/DataExport.js";
+import { Impersonation } from "../../models/Impersonation.js";
+import { Membership } from "../../models/Membership.js";
+import { Session } from "../../models/Session.js";
+import { User } from "../../models/User.js";
+import { UserIdentity } from "../../models/UserIdentity.js";
+import { createZip } from "../core/zip.js";
+import { mailService } from "../mail/mail.service.js";
+import type {
+    DataExportArchive,
+    DataExporter,
+    DataExportFormat,
+    DataExportResponse,
+    DataExportResult,
+} from "./dataExport.types.js";
+
+const exporters: Record<string, DataExporter> = {
+    profile: async (userId) =>
+        await AppDataSource.getRepository(User).findOne({
+            where: { id: userId },
+            select: [
+                "id",
+                "email",
+                "emailVerifiedAt",
+                "name",
+                "role",
+                "twoFactorEnabledAt",
+                "twoFactorFailedAttempts",
+                "passwordChangeRequired",
+                "failedLoginAttempts",
+                "lastFailedLoginAt",
+                "lockedUntil",
+                "disabledAt",
+                "createdAt",
+                "updatedAt",
+            ],
+        }),
+    sessions: async (userId) =>
+        await AppDataSource.getRepository(Session).find({
+            where: { userId: userId },
+            order: { createdAt: "ASC" },
+        }),
+    identities: async (userId) =>
+        await AppDataSource.getRepository(UserIdentity).find({
+            where: { userId: userId },
+            order: { createdAt: "ASC" },
+        }),
+    apiKeys: async (userId) =>
+        await AppDataSource.getRepository(ApiKey).find({
+            where: { userId: userId },
+            select: [
+                "id",
+                "name",
+                "prefix",
+                "scopes",
+                "expiresAt",
+                "lastUsedAt",
+                "revokedAt",
+                "createdAt",
+            ],
+            order: { createdAt: "ASC" },
+        }),
+    organizations: async (userId) => {
+        const memberships = await AppDataSource.getRepository(Membership).find({
+            where: { userId: userId },
+            relations: { organization: true },
+            order: { createdAt: "ASC" },
+        });
+        return memberships.map((membership) => ({
+            id: membership.organization.id,
+            name: membership.organization.name,
+            slug: membership.organization.slug,
+            role: membership.role,
+            joinedAt: membership.createdAt,
+        }));
+    },
+    //Impersonations made by the user or of the user
+    impersonations: async (userId) =>
+        await AppDataSource.getRepository(Impersonation).find({
+            where: [{ actorId: userId }, { targetId: userId }],
+            order: { startedAt: "ASC" },
+        }),
+};
+
+/**
+ * Add the data stored by a module to the personal data exports.
+ * @param name Name of the section inside the export, replaces an existing exporter with the same name.
+ * @param exporter Function returning the data of an user.
+ */
+export const registerDataExporter = (name: string, exporter: DataExporter) => {
+    exporters[name] = exporter;
+};
+
+class DataExportService {
+    private dataExportRepository: Repository<DataExport>;
+    private ttl: number;
+    private inlineMaxSize: number;
+    private inlineWait: number;
+    //Generations and mails still running after their request answered
+    private backgroundTasks = new Set<Promise<void>>();
+    private static CONTENT_TYPES: Record<DataExportFormat, string> = {
+        json: "application/json",
+        zip: "application/zip",
+    };
+    private static instance: DataExportService;
+
+    static getInstance() {
+        if (!DataExportService.instance) {
+            DataExportService.instance = new DataExportService();
+        }
+        return DataExportService.instance;
+    }
+
+    constructor() {
+        this.dataExportRepository = AppDataSource.getRepository(DataExport);
+        //Download link lifetime in hours
+        this.ttl = Number(process.env.DATA_EXPORT_TTL) || 24;
+        //Largest archive in bytes sent in the response, larger ones are only available through the download link
+        this.inlineMaxSize =
+            Number(process.env.DATA_EXPORT_INLINE_MAX_SIZE) || 1024 * 1024;
+        //Time in milliseconds the request waits for the archive before it is generated in the background
+        this.inlineWait = Number(process.env.DATA_EXPORT_INLINE_WAIT) || 2000;
+    }
+
+    /**
+     * Hash a download token so it can be looked up without storing it in clear.
+     * @param token Raw download token.
+     * @returns Hex encoded SHA-256 of the token.
+     */
+    private hash(token: string): string {
+        return createHash("sha256").update(token).digest("hex");
+    }
+
+    /**
+     * Keep the fields of an export returned to its owner.
+     * @param dataExport Export.
+     * @returns Export without its archive nor token.
+     */
+    private toResponse(dataExport: DataExport): DataExportResponse {
+        return {
+            id: dataExport.id,
+            format: dataExport.format,
+            status: dataExport.status,
+            size: dataExport.size,
+            expiresAt: dataExport.expiresAt,
+            createdAt: dataExport.createdAt,
+            completedAt: dataExport.completedAt,
+        };
+    }
+
+    /**
+     * Name the archive of an export.
+     * @param dataExport Export.
+     * @param content Generated archive.
+     * @returns Archive with its file name and content type.
+     */
+    private toArchive(
+        dataExport: DataExport,
+        content: Buffer
+    ): DataExportArchive {
+        const format = dataExport.format as DataExportFormat;
+        const date = dataExport.createdAt.toISOString().substring(0, 10);
+        return {
+            fileName: `export-${dataExport.userId}-${date}.${format}`,
+            contentType: DataExportService.CONTENT_TYPES[format],
+            content: content,
+        };
+    }
+
+    /**
+     * Run every registered exporter for an user.
+     * @param userId userId.
+     * @returns Data of each exporter indexed by its name.
+     */
+    private async collect(userId: number): Promise<Record<string, unknown>> {
+        const sections: Record<string, unknown> = {};
+        for (const [name, exporter] of Object.entries(exporters)) {
+            sections[name] = await exporter(userId);
+        }
+        return sections;
+    }
+
+    /**
+     * Collect the data of an user and store the archive.
+     * The export is marked as failed if an exporter throws.
+     * @param dataExport Export to generate.
+     * @returns Generated archive.
+     */
+    private async generate(dataExport: DataExport): Promise<Buffer> {
+        try {
+            const sections = await this.collect(dataExport.userId);
+            const exportedAt = new Date();
+
+            let content: Buffer;
+            if (dataExport.format === "zip") {
+                content = createZip(
+                    Object.entries(sections).map(([name, data]) => ({
+                        name: `${name}.json`,
+                        content: Buffer.from(JSON.stringify(data, null, 2)),
+                    })),
+                    exportedAt
+                );
+            } else {
+                content = Buffer.from(
+                    JSON.stringify({ exportedAt, ...sections }, null, 2)
+                );
+            }
+
+            await this.dataExportRepository.update(
+                { id: dataExport.id },
+                {
+                    status: DataExportStatus.READY,
+                    content: content,
+                    size: content.length,
+                    completedAt: exportedAt,
+                }
+            );
+            return content;
+        } catch (error) {
+            logger.error(`Data export ${dataExport.id} failed:`, error);
+            await this.dataExportRepository.update(
+                { id: dataExport.id },
+                { status: DataExportStatus.FAILED }
+            );
+            throw error;
+        }
+    }
+
+    /**
+     * Export every personal data stored about an user.
+     * The archive is returned directly if it is generated quickly enough and is small enough,
+     * otherwise the generation goes on in the background and a download link is returned and sent by mail.
+     * @param user User requesting the export.
+     * @param format json or zip.
+     * @returns Archive or pending export with its download link.
+     */
+    async createExport(
+        user: User,
+        format: DataExportFormat
+    ): Promise<DataExportResult> {
+        await this.dataExportRepository.delete({
+            expiresAt: LessThan(new Date()),
+        });
+
+        const token = randomBytes(32).toString("base64url");
+        const dataExport = await this.dataExportRepository.save(
+            this.dataExportRepository.create({
+                userId: user.id,
+                format: format,
+                tokenHash: this.hash(token),
+                expiresAt: new Date(Date.now() + this.ttl * 3600000),
+            })
+        );
+
+        const generation = this.generate(dataExport);
+        let timer: NodeJS.Timeout | undefined;
+        const content = await Promise.race([
+            generation,
+            new Promise<undefined>((resolve) => {
+                timer = setTimeout(() => resolve(undefined), this.inlineWait);
+            }),
+        ]).finally(() => clearTimeout(timer));
+
+        if (content && content.length <= this.inlineMaxSize) {
+            await this.dataExportRepository.delete({ id: dataExport.id });
+            return { archive: this.toArchive(dataExport, content) };
+        }
+
+        if (content) {
+            dataExport.status = DataExportStatus.READY;
+            dataExport.size = content.length;
+            dataExport.completedAt = new Date();
+            this.runInBackground(
+                this.notify(user, token, dataExport.expiresAt)
+            );
+        } else {
+            this.runInBackground(
+                generation.then(
+                    () => this.notify(user, token, dataExport.expiresAt),
+                    () => undefined
+                )
+            );
+        }
+        logger.info(
+            `Data export ${dataExport.id} created for user id: ${user.id}.`
+        );
+        return {
+            pending: {
+                ...this.toResponse(dataExport),
+                downloadUrl: `/users/me/export/download?token=${token}`,
+            },
+        };
+    }
+
+    /**
+     * Keep track of a task running after its request answered, so the shutdown can wait for it.
+     * @param task Task, must not reject.
+     */
+    private runInBackground(task: Promise<void>) {
+        this.backgroundTasks.add(task);
+        void task.finally(() => this.backgroundTasks.delete(task));
+    }
+
+    /**
+     * Wait for the exports still generated or mailed in the background.
+     */
+    async waitForBackgroundTasks(): Promise<void> {
+        await Promise.all(this.backgroundTasks);
+    }
+
+    /**
+     * Send the download link once an export generated in the background is ready.
+     * @param user Owner of the export.
+     * @param token Download token.
+     * @param expiresAt Expiration date of the link.
+     */
+    private async notify(
+        user: User,
+        token: string,
+        expiresAt: Date
+    ): Promise<void> {
+        try {
+            await mailService.sendDataExportReady(
+                user.email,
+                user.name,
+                token,
+                expiresAt
+            );
+        } catch (error) {
+            logger.error(error);
+        }
+    }
+
+    /**
+     * Return the state of an export owned by the specified user.
+     * @param userId Owner of the export.
+     * @param id Export id.
+     * @returns Export without its archive.
+     */
+    async getExport(userId: number, id: string): Promise<DataExportResponse> {
+        const dataExport = await this.dataExportRepository.findOne({
+            where: { id: id, userId: userId },
+        });
+        if (!dataExport || dataExport.expiresAt.getTime() <= Date.now()) {
+            throw new AppError(
+                "Data export not found.",
+                404,
+                ErrorCode.DATA_EXPORT_NOT_FOUND
+            );
+        }
+        return this.toResponse(dataExport);
+    }
+
+    /**
+     * Return the archive matching a download token.
+     * @param token Download token.
+     * @returns Archive of the export.
+     */
+    async download(token: string): Promise<DataExportArchive> {
+        const dataExport = await this.dataExportRepository
+            .createQueryBuilder("dataExport")
+            .addSelect("dataExport.content")
+            .where("dataExport.tokenHash = :tokenHash", {
+                tokenHash: this.hash(token),
+            })
+            .getOne();
+
+        if (!dataExport || dataExport.expiresAt.getTime() <= Date.now()) {
+            throw new AppError(
+                "Invalid or expired download link.",
+                404,
+                ErrorCode.INVALID_DOWNLOAD_LINK
+            );
+        }
+        if (dataExport.status === DataExportStatus.PENDING) {
+            throw new AppError(
+                "The export is not ready yet.",
+                409,
+                ErrorCode.DATA_EXPORT_PENDING
+            );
+        }
+        if (
+            dataExport.status === DataExportStatus.FAILED ||
+            !dataExport.content
+        ) {
+            throw new AppError(
+                "Data export failed, please request a new one.",
+                410,
+                ErrorCode.DATA_EXPORT_FAILED
+            );
+        }
+        return this.toArchive(dataExport, dataExport.content);
+    }
+}
+
+export const dataExportService = DataExportService.getInstance();
@@ -0,0 +1,35 @@
+import type { DataExportStatus } from "../../models/DataExport.js";
+
+/**
+ * Return the data a module stores about an user, added to its personal data export.
+ * The result is serialized as JSON and must not contain secrets such as password or token hashes.
+ */
+export type DataExporter = (userId: number) => Promise<unknown>;
+
+export type DataExportFormat = "json" | "zip";
+
+export interface DataExportResponse {
+    id: string;
+    format: string;
+    status: DataExportStatus;
+    size: number | null;
+    expiresAt: Date;
+    createdAt: Date;
+    completedAt: Date | null;
+}
+
+export interface PendingDataExportResponse extends DataExportResponse {
+    //Only returned once, the same link is sent by mail when the archive is ready
+    downloadUrl: string;
+}
+
+export interface DataExportArchive {
+    fileName: string;
+    contentType: string;
+    content: Buffer;
+}
+
+//Small exports are sent directly, the others are generated in the background
+export type DataExportResult =
+    | { archive: DataExportArchive }
+    | { pending: PendingDataExportResponse };
@@ -0,0 +1,140 @@
+import { IsNull, MoreThan, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { Impersonation } from "../../models/Impersonation.js";
+import { JwtService, type JwtActor } from "../core/jwt.service.js";
+import { roleService } from "../role/role.service.js";
+import { userService } from "../user/user.service.js";
+import type { ImpersonationResponse } from "./impersonation.types.js";
+
+class ImpersonationService {
+    private impersonationRepository: Repository<Impersonation>;
+    private ttl: number;
+    private static instance: ImpersonationService;
+
+    static getInstance() {
+        if (!ImpersonationService.instance) {
+            ImpersonationService.instance = new ImpersonationService();
+        }
+        return ImpersonationService.instance;
+    }
+
+    constructor() {
+        this.impersonationRepository = AppDataSource.getRepository(Impersonation);
+        this.ttl = Number(process.env.IMPERSONATION_TTL) || 15; //minutes
+    }
+
+    /**
+     * Start acting as another user. Users cannot impersonate themselves
+     * nor an user whose role grants permissions their own role does not.
+     * @param actor User starting the impersonation, its token version is loaded here.
+     * @param targetId User to impersonate.
+     * @param reason Why the user is impersonated, kept in the audit trail.
+     * @returns Access token of the target user carrying the actor.
+     */
+    async start(
+        actor: Omit<JwtActor, "tokenVersion">,
+        targetId: number,
+        reason: string | null
+    ): Promise<ImpersonationResponse> {
+        if (actor.id === targetId) {
+            throw new AppError(
+                "You cannot impersonate yourself.",
+                400,
+                ErrorCode.CANNOT_IMPERSONATE_SELF
+            );
+        }
+        const target = await userService.getUserById(targetId);
+        const actorState = await userService.getAuthState(actor.id);
+        if (!actorState) {
+            throw new AppError(
+                "User not found.",
+                404,
+                ErrorCode.USER_NOT_FOUND
+            );
+        }
+
+        const actorPermissions = await roleService.getPermissions(actor.role);
+        const targetPermissions = await roleService.getPermissions(target.role);
+        if (
+            [...targetPermissions].some(
+                (permission) => !actorPermissions.has(permission)
+            )
+        ) {
+            throw new AppError(
+                "Forbidden: You cannot impersonate an user with more rights than yours.",
+                403,
+                ErrorCode.INSUFFICIENT_PERMISSIONS
+            );
+        }
+
+        const impersonation = await this.impersonationRepository.save(
+            this.impersonationRepository.create({
+                actorId: actor.id,
+                targetId: target.id,
+                reason: reason?.substring(0, 255) ?? null,
+                expiresAt: new Date(Date.now() + this.ttl * 60 * 1000),
+            })
+        );
+        const accessToken = JwtService.generateAccessToken(
+            {
+                id: target.id,
+                name: target.name,
+                role: target.role,
+                tokenVersion: target.tokenVersion,
+                act: {
+                    id: actor.id,
+                    name: actor.name,
+                    role: actor.role,
+                    tokenVersion: actorState.tokenVersion,
+                },
+                impersonationId: impersonation.id,
+            },
+            `${this.ttl}m`
+        );
+        logger.warn(
+            `User id: ${actor.id} started impersonating user id: ${target.id} (${impersonation.id})${reason ? `, reason: ${reason}` : ""}.`
+        );
+
+        return {
+            accessToken,
+            impersonationId: impersonation.id,
+            expiresAt: impersonation.expiresAt,
+        };
+    }
+
+    /**
+     * Check if an impersonation can still be used.
+     * @param id Impersonation id.
+     * @returns True if the impersonation has neither ended nor expired.
+     */
+    async isActive(id: string): Promise<boolean> {
+        return await this.impersonationRepository.exists({
+            where: { id: id, endedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+        });
+    }
+
+    /**
+     * Stop an impersonation, its access token cannot be used anymore.
+     * @param id Impersonation id.
+     * @param actorId User who started the impersonation.
+     */
+    async stop(id: string, actorId: number): Promise<void> {
+        const result = await this.impersonationRepository.update(
+            { id: id, actorId: actorId, endedAt: IsNull() },
+            { endedAt: new Date() }
+        );
+        if (result.affected === 0) {
+            throw new AppError(
+                "Impersonation not found.",
+                404,
+                ErrorCode.IMPERSONATION_NOT_FOUND
+            );
+        }
+        logger.warn(`User id: ${actorId} stopped impersonation ${id}.`);
+    }
+}
+
+export const impersonationService = ImpersonationService.getInstance();
@@ -0,0 +1,6 @@
+export interface ImpersonationResponse {
+    //Short-lived access token of the target user, no refresh token is issued
+    accessToken: string;
+    impersonationId: string;
+    expiresAt: Date;
+}
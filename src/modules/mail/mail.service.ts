@@ -0,0 +1,146 @@
+import { createMailTransport } from "../../config/mailer.js";
+import type { MailMessage, MailTransport } from "./mail.types.js";
+
+class MailService {
+    private transport: MailTransport | undefined;
+    private from: string;
+    private appUrl: string;
+    private static instance: MailService;
+
+    static getInstance() {
+        if (!MailService.instance) {
+            MailService.instance = new MailService();
+        }
+        return MailService.instance;
+    }
+
+    constructor() {
+        this.from = process.env.MAIL_FROM || "no-reply@localhost";
+        this.appUrl = process.env.APP_URL || `http://localhost:${process.env.PORT}`;
+    }
+
+    /**
+     * Replace the transport used to deliver mails.
+     * @param transport New transport.
+     */
+    setTransport(transport: MailTransport) {
+        this.transport = transport;
+    }
+
+    /**
+     * Send a mail through the configured transport.
+     * The transport is created on first use so the environment is fully loaded.
+     * @param message Message to send.
+     */
+    async send(message: MailMessage): Promise<void> {
+        if (!this.transport) {
+            this.transport = createMailTransport();
+        }
+        await this.transport.send({ ...message, from: this.from });
+    }
+
+    /**
+     * Send the link used to verify an e-mail address.
+     * @param to E-mail address to verify.
+     * @param name Username of the recipient.
+     * @param token Verification token.
+     */
+    async sendEmailVerification(
+        to: string,
+        name: string,
+        token: string
+    ): Promise<void> {
+        const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+        await this.send({
+            to: to,
+            subject: "Verify your e-mail address",
+            text: `Hello ${name},\n\nPlease confirm your e-mail address by opening the following link:\n${link}\n\nIf you did not create an account, you can ignore this e-mail.`,
+        });
+    }
+
+    /**
+     * Send the link used to choose a new password.
+     * @param to E-mail address of the account.
+     * @param name Username of the recipient.
+     * @param token Password reset token.
+     * @param expiresAt Expiration date of the token.
+     */
+    async sendPasswordReset(
+        to: string,
+        name: string,
+        token: string,
+        expiresAt: Date
+    ): Promise<void> {
+        const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+        await this.send({
+            to: to,
+            subject: "Reset your password",
+            text: `Hello ${name},\n\nA password reset has been requested for your account. Choose a new password by opening the following link before ${expiresAt.toISOString()}:\n${link}\n\nIf you did not request it, you can ignore this e-mail, your password will not change.`,
+        });
+    }
+
+    /**
+     * Send the link used by an user created by an administrator to choose its password.
+     * @param to E-mail address of the account.
+     * @param name Username of the recipient.
+     * @param token Password reset token.
+     * @param expiresAt Expiration date of the token.
+     */
+    async sendAccountInvitation(
+        to: string,
+        name: string,
+        token: string,
+        expiresAt: Date
+    ): Promise<void> {
+        const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+        await this.send({
+            to: to,
+            subject: "Your account has been created",
+            text: `Hello ${name},\n\nAn account has been created for you. Choose your password by opening the following link before ${expiresAt.toISOString()}:\n${link}\n\nIf you were not expecting it, you can ignore this e-mail.`,
+        });
+    }
+
+    /**
+     * Send the link used to join an organization.
+     * @param to Invited e-mail address.
+     * @param organizationName Name of the organization.
+     * @param token Invitation token.
+     * @param expiresAt Expiration date of the invitation.
+     */
+    async sendOrganizationInvitation(
+        to: string,
+        organizationName: string,
+        token: string,
+        expiresAt: Date
+    ): Promise<void> {
+        const link = `${this.appUrl}/organizations/accept?token=${encodeURIComponent(token)}`;
+        await this.send({
+            to: to,
+            subject: `Join ${organizationName}`,
+            text: `Hello,\n\nYou have been invited to join ${organizationName}. Accept the invitation by opening the following link before ${expiresAt.toISOString()}, you will need an account using this e-mail address:\n${link}\n\nIf you were not expecting it, you can ignore this e-mail.`,
+        });
+    }
+
+    /**
+     * Send the link used to download a personal data export generated in the background.
+     * @param to E-mail address of the account.
+     * @param name Username of the recipient.
+     * @param token Download token.
+     * @param expiresAt Expiration date of the link.
+     */
+    async sendDataExportReady(
+        to: string,
+        name: string,
+        token: string,
+        expiresAt: Date
+    ): Promise<void> {
+        const link = `${this.appUrl}/users/me/export/download?token=${encodeURIComponent(token)}`;
+        await this.send({
+            to: to,
+            subject: "Your data export is ready",
+            text: `Hello ${name},\n\nThe export of your personal data is ready. Download it by opening the following link before ${expiresAt.toISOString()}:\n${link}\n\nIf you did not request it, please change your password.`,
+        });
+    }
+}
+
+export const mailService = MailService.getInstance();
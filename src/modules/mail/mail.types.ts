@@ -0,0 +1,16 @@
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailTransport {
+    /**
+     * Deliver a message, must reject if the message could not be sent.
+     * @param message Message to send, the sender address is already set.
+     */
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export type MailTransportFactory = () => MailTransport;
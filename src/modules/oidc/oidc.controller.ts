@@ -0,0 +1,137 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { UserController } from "../user/user.controller.js";
+import { oidcService } from "./oidc.service.js";
+import type { OidcAuthorizationResponse } from "./oidc.types.js";
+
+//Binds the authorization request to the browser which started it
+const STATE_COOKIE = "oidcState";
+const STATE_COOKIE_PATH = "/users/oidc";
+
+export class OidcController {
+    private userController: UserController;
+
+    constructor() {
+        this.userController = new UserController();
+        this.login = this.login.bind(this);
+        this.link = this.link.bind(this);
+        this.callback = this.callback.bind(this);
+    }
+
+    /**
+     * Store the state of an authorization request inside the browser cookies.
+     * The cookie is "lax" as it must be sent back when the provider redirects to the callback.
+     * @param res Response to send back with the state.
+     * @param state State of the authorization request.
+     */
+    setStateCookie(res: Response, state: string) {
+        res.cookie(STATE_COOKIE, state, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            maxAge: 10 * 60 * 1000, //10 minutes
+            path: STATE_COOKIE_PATH,
+        });
+    }
+
+    /**
+     * Redirect the user to the identity provider to log in.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async login(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { authorizationUrl, state } =
+                await oidcService.createAuthorizationRequest(
+                    req.params.provider as string,
+                    null
+                );
+            this.setStateCookie(res, state);
+            res.redirect(302, authorizationUrl);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return the URL of the identity provider used to link a new identity to the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async link(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { authorizationUrl, state } =
+                await oidcService.createAuthorizationRequest(
+                    req.params.provider as string,
+                    req.user.id
+                );
+            this.setStateCookie(res, state);
+            const response: OidcAuthorizationResponse = { authorizationUrl };
+            res.status(200).json({ status: "success", data: response });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Handle the redirection from the identity provider, then log in the user or confirm the link.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async callback(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const browserState: string | undefined = req.cookies[STATE_COOKIE];
+            res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+            const { code, state, error } = req.query;
+            if (error) {
+                throw new AppError(
+                    "Login refused by the identity provider.",
+                    401,
+                    ErrorCode.IDENTITY_PROVIDER_REFUSED
+                );
+            }
+            if (typeof code !== "string" || typeof state !== "string") {
+                throw new AppError(
+                    "Missing authorization code or state.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+
+            const { user, linked } = await oidcService.handleCallback(
+                req.params.provider as string,
+                code,
+                state,
+                browserState
+            );
+
+            if (linked) {
+                res.status(200).json({
+                    status: "success",
+                    message: "Identity linked successfully.",
+                });
+                return;
+            }
+            await this.userController.completeLogin(req, res, user);
+        } catch (error) {
+            next(error);
+        }
+    }
+}
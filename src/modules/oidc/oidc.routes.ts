@@ -0,0 +1,123 @@
+import { Router } from "express";
+import { authenticateWith } from "../../middlewares/authMiddleware.js";
+import { apiLimiter, loginLimiter } from "../../middlewares/rateLimiter.js";
+import { OidcController } from "./oidc.controller.js";
+
+const router = Router();
+const controller = new OidcController();
+//Linking an identity requires a real login, not an API key nor an impersonation
+const authenticate = authenticateWith({
+    allowApiKey: false,
+    allowImpersonation: false,
+});
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: OpenID Connect
+ *   description: Login and account linking with external identity providers.
+ */
+
+/**
+ * @swagger
+ * /users/oidc/{provider}:
+ *   get:
+ *     summary: Start a login with an identity provider
+ *     description: Redirect to the provider (authorization code flow with PKCE), the provider then redirects to the callback.
+ *     tags: [OpenID Connect]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider name, as listed in OIDC_PROVIDERS
+ *     responses:
+ *       302:
+ *         description: Redirect to the provider
+ *       404:
+ *         description: Unknown provider
+ *       502:
+ *         description: Provider unavailable
+ */
+router.get("/:provider", loginLimiter, controller.login);
+
+/**
+ * @swagger
+ * /users/oidc/{provider}/link:
+ *   post:
+ *     summary: Link an identity from a provider to the current user
+ *     description: Return the URL of the provider, the callback links the identity instead of logging in.
+ *     tags: [OpenID Connect]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorizationUrl:
+ *                       type: string
+ *       401:
+ *         description: Not logged in
+ *       404:
+ *         description: Unknown provider
+ */
+router.post("/:provider/link", authenticate, controller.link);
+
+/**
+ * @swagger
+ * /users/oidc/{provider}/callback:
+ *   get:
+ *     summary: Redirection target of the identity provider
+ *     tags: [OpenID Connect]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Login successful (or two-factor challenge), or identity linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Missing code or state, no e-mail shared by the provider
+ *       401:
+ *         description: Invalid or expired login request, invalid ID token or login refused
+ *       409:
+ *         description: E-mail already used by an account or identity linked to another account
+ *       502:
+ *         description: Provider unavailable
+ */
+router.get("/:provider/callback", controller.callback);
+
+export default router;
@@ -0,0 +1,464 @@
+import { createHash, createPublicKey, randomBytes, type JsonWebKey } from "crypto";
+import jwt from "jsonwebtoken";
+import { LessThan, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { loadOidcProviders } from "../../config/oidc.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { OidcState } from "../../models/OidcState.js";
+import type { User } from "../../models/User.js";
+import { UserIdentity } from "../../models/UserIdentity.js";
+import { userService } from "../user/user.service.js";
+import type {
+    OidcDiscoveryDocument,
+    OidcIdTokenClaims,
+    OidcProviderConfig,
+} from "./oidc.types.js";
+
+//Authorization codes logged by this module are redacted, see logger
+const oidcLogger = logger.getSubLogger({ name: "oidc" });
+
+interface CachedJwks {
+    keys: Array<JsonWebKey & { kid?: string }>;
+    fetchedAt: number;
+}
+
+class OidcService {
+    private stateRepository: Repository<OidcState>;
+    private identityRepository: Repository<UserIdentity>;
+    private providers: Record<string, OidcProviderConfig> | undefined;
+    private discoveryCache: Map<string, OidcDiscoveryDocument>;
+    private jwksCache: Map<string, CachedJwks>;
+    private static STATE_TTL = 10 * 60 * 1000; //10 minutes
+    private static JWKS_TTL = 60 * 60 * 1000; //1 hour
+    private static HTTP_TIMEOUT = 5000;
+    private static ALLOWED_ALGORITHMS: jwt.Algorithm[] = [
+        "RS256",
+        "RS384",
+        "RS512",
+        "ES256",
+        "ES384",
+        "ES512",
+    ];
+    private static instance: OidcService;
+
+    static getInstance() {
+        if (!OidcService.instance) {
+            OidcService.instance = new OidcService();
+        }
+        return OidcService.instance;
+    }
+
+    constructor() {
+        this.stateRepository = AppDataSource.getRepository(OidcState);
+        this.identityRepository = AppDataSource.getRepository(UserIdentity);
+        this.discoveryCache = new Map();
+        this.jwksCache = new Map();
+    }
+
+    /**
+     * Return the configuration of a provider, the configuration is loaded on first use.
+     * @param name Name of the provider.
+     * @returns Provider configuration.
+     */
+    private getProvider(name: string): OidcProviderConfig {
+        if (!this.providers) {
+            this.providers = loadOidcProviders();
+        }
+        const provider = this.providers[name.toLowerCase()];
+        if (!provider) {
+            throw new AppError(
+                "Unknown identity provider.",
+                404,
+                ErrorCode.UNKNOWN_IDENTITY_PROVIDER
+            );
+        }
+        return provider;
+    }
+
+    /**
+     * Fetch a JSON document from a provider.
+     * @param url URL of the document.
+     * @param init Request options.
+     * @returns Parsed document.
+     */
+    private async fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                ...init,
+                signal: AbortSignal.timeout(OidcService.HTTP_TIMEOUT),
+            });
+        } catch (error) {
+            oidcLogger.error(
+                `Identity provider request failed: ${url}`,
+                error
+            );
+            throw new AppError(
+                "Identity provider unavailable.",
+                502,
+                ErrorCode.IDENTITY_PROVIDER_ERROR
+            );
+        }
+        if (!response.ok) {
+            oidcLogger.error(
+                `Identity provider request failed: ${url} ${response.status}`,
+                await response.text()
+            );
+            throw new AppError(
+                "Identity provider rejected the request.",
+                502,
+                ErrorCode.IDENTITY_PROVIDER_ERROR
+            );
+        }
+        return (await response.json()) as T;
+    }
+
+    /**
+     * Get the OpenID Provider Metadata of a provider, cached for the life of the process.
+     * @param provider Provider configuration.
+     * @returns Discovery document.
+     */
+    private async discover(
+        provider: OidcProviderConfig
+    ): Promise<OidcDiscoveryDocument> {
+        const cached = this.discoveryCache.get(provider.name);
+        if (cached) {
+            return cached;
+        }
+        const document = await this.fetchJson<OidcDiscoveryDocument>(
+            `${provider.issuer}/.well-known/openid-configuration`
+        );
+        if (document.issuer.replace(/\/+$/, "") !== provider.issuer) {
+            throw new AppError(
+                "Identity provider issuer mismatch.",
+                502,
+                ErrorCode.IDENTITY_PROVIDER_ERROR
+            );
+        }
+        this.discoveryCache.set(provider.name, document);
+        return document;
+    }
+
+    /**
+     * Find the public key used to sign an ID token.
+     * The JWKS is fetched again if the key is unknown, providers publish new keys before using them.
+     * @param jwksUri URL of the provider JWKS.
+     * @param kid Key id from the token header.
+     * @returns PEM encoded public key.
+     */
+    private async getSigningKey(
+        jwksUri: string,
+        kid: string | undefined
+    ): Promise<string> {
+        const findKey = (jwks: CachedJwks) =>
+            jwks.keys.find(
+                (key) =>
+                    (kid === undefined || key.kid === kid) &&
+                    (key.use === undefined || key.use === "sig")
+            );
+
+        let jwks = this.jwksCache.get(jwksUri);
+        let key = jwks ? findKey(jwks) : undefined;
+
+        if (
+            !jwks ||
+            !key ||
+            Date.now() - jwks.fetchedAt > OidcService.JWKS_TTL
+        ) {
+            const document = await this.fetchJson<{ keys: CachedJwks["keys"] }>(
+                jwksUri
+            );
+            jwks = { keys: document.keys || [], fetchedAt: Date.now() };
+            this.jwksCache.set(jwksUri, jwks);
+            key = findKey(jwks);
+        }
+
+        if (!key) {
+            throw new AppError(
+                "Invalid ID token.",
+                401,
+                ErrorCode.INVALID_ID_TOKEN
+            );
+        }
+        return createPublicKey({ key: key, format: "jwk" })
+            .export({ type: "spki", format: "pem" })
+            .toString();
+    }
+
+    /**
+     * Verify the signature and the claims of an ID token.
+     * @param provider Provider configuration.
+     * @param discovery Discovery document of the provider.
+     * @param idToken ID token returned by the token endpoint.
+     * @param nonce Nonce sent with the authorization request.
+     * @returns Claims of the ID token.
+     */
+    private async verifyIdToken(
+        provider: OidcProviderConfig,
+        discovery: OidcDiscoveryDocument,
+        idToken: string,
+        nonce: string
+    ): Promise<OidcIdTokenClaims> {
+        const decoded = jwt.decode(idToken, { complete: true });
+        if (!decoded || typeof decoded === "string") {
+            throw new AppError(
+                "Invalid ID token.",
+                401,
+                ErrorCode.INVALID_ID_TOKEN
+            );
+        }
+        const publicKey = await this.getSigningKey(
+            discovery.jwks_uri,
+            decoded.header.kid
+        );
+
+        let claims: OidcIdTokenClaims;
+        try {
+            claims = jwt.verify(idToken, publicKey, {
+                algorithms: OidcService.ALLOWED_ALGORITHMS,
+                issuer: discovery.issuer,
+                audience: provider.clientId,
+            }) as OidcIdTokenClaims;
+        } catch (error) {
+            throw new AppError(
+                "Invalid ID token.",
+                401,
+                ErrorCode.INVALID_ID_TOKEN
+            );
+        }
+
+        if (claims.nonce !== nonce) {
+            throw new AppError(
+                "Invalid ID token.",
+                401,
+                ErrorCode.INVALID_ID_TOKEN
+            );
+        }
+        return claims;
+    }
+
+    /**
+     * Start an authorization code flow with PKCE.
+     * @param providerName Name of the provider.
+     * @param userId User to link the identity to, null for a login.
+     * @returns URL to redirect the user to and the state to bind to the browser.
+     */
+    async createAuthorizationRequest(
+        providerName: string,
+        userId: number | null
+    ): Promise<{ authorizationUrl: string; state: string }> {
+        const provider = this.getProvider(providerName);
+        const discovery = await this.discover(provider);
+
+        await this.stateRepository.delete({ expiresAt: LessThan(new Date()) });
+
+        const state = randomBytes(32).toString("base64url");
+        const nonce = randomBytes(32).toString("base64url");
+        const codeVerifier = randomBytes(48).toString("base64url");
+        await this.stateRepository.save(
+            this.stateRepository.create({
+                state: state,
+                provider: provider.name,
+                nonce: nonce,
+                codeVerifier: codeVerifier,
+                userId: userId,
+                expiresAt: new Date(Date.now() + OidcService.STATE_TTL),
+            })
+        );
+
+        const params = new URLSearchParams({
+            response_type: "code",
+            client_id: provider.clientId,
+            redirect_uri: provider.redirectUri,
+            scope: provider.scopes,
+            state: state,
+            nonce: nonce,
+            code_challenge: createHash("sha256")
+                .update(codeVerifier)
+                .digest("base64url"),
+            code_challenge_method: "S256",
+        });
+        return {
+            authorizationUrl: `${discovery.authorization_endpoint}?${params.toString()}`,
+            state,
+        };
+    }
+
+    /**
+     * Finish an authorization code flow: check the state, exchange the code and verify the ID token,
+     * then return the user owning the identity.
+     * @param providerName Name of the provider.
+     * @param code Authorization code.
+     * @param state State returned by the provider.
+     * @param browserState State stored in the browser cookie when the flow started.
+     * @returns User logged in or linked, linked is true if the flow was started to link an identity.
+     */
+    async handleCallback(
+        providerName: string,
+        code: string,
+        state: string,
+        browserState: string | undefined
+    ): Promise<{ user: User; linked: boolean }> {
+        const provider = this.getProvider(providerName);
+
+        //The state must come from this browser to prevent login CSRF
+        if (!browserState || browserState !== state) {
+            throw new AppError(
+                "Invalid or expired login request.",
+                401,
+                ErrorCode.INVALID_LOGIN_REQUEST
+            );
+        }
+        const pendingState = await this.stateRepository.findOne({
+            where: { state: state },
+        });
+        if (!pendingState) {
+            throw new AppError(
+                "Invalid or expired login request.",
+                401,
+                ErrorCode.INVALID_LOGIN_REQUEST
+            );
+        }
+        //Single use, removed before anything else can fail
+        await this.stateRepository.delete({ state: pendingState.state });
+        if (
+            pendingState.provider !== provider.name ||
+            pendingState.expiresAt.getTime() < Date.now()
+        ) {
+            throw new AppError(
+                "Invalid or expired login request.",
+                401,
+                ErrorCode.INVALID_LOGIN_REQUEST
+            );
+        }
+
+        const discovery = await this.discover(provider);
+        const body = new URLSearchParams({
+            grant_type: "authorization_code",
+            code: code,
+            redirect_uri: provider.redirectUri,
+            client_id: provider.clientId,
+            code_verifier: pendingState.codeVerifier,
+        });
+        if (provider.clientSecret) {
+            body.set("client_secret", provider.clientSecret);
+        }
+        const tokens = await this.fetchJson<{ id_token?: string }>(
+            discovery.token_endpoint,
+            {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/x-www-form-urlencoded",
+                    Accept: "application/json",
+                },
+                body: body.toString(),
+            }
+        );
+        if (!tokens.id_token) {
+            throw new AppError(
+                "Identity provider did not return an ID token.",
+                502,
+                ErrorCode.IDENTITY_PROVIDER_ERROR
+            );
+        }
+
+        const claims = await this.verifyIdToken(
+            provider,
+            discovery,
+            tokens.id_token,
+            pendingState.nonce
+        );
+        const user = await this.resolveUser(
+            provider.name,
+            claims,
+            pendingState.userId
+        );
+        return { user, linked: pendingState.userId !== null };
+    }
+
+    /**
+     * Find the user owning an external identity, link it or create a new account.
+     * An identity is only linked automatically to an existing account if the provider verified the e-mail address.
+     * @param provider Name of the provider.
+     * @param claims Claims of the ID token.
+     * @param linkUserId User asking to link the identity, null for a login.
+     * @returns User owning the identity.
+     */
+    private async resolveUser(
+        provider: string,
+        claims: OidcIdTokenClaims,
+        linkUserId: number | null
+    ): Promise<User> {
+        const identity = await this.identityRepository.findOne({
+            where: { provider: provider, subject: claims.sub },
+            relations: { user: true },
+            withDeleted: true,
+        });
+
+        if (identity) {
+            if (linkUserId !== null && identity.userId !== linkUserId) {
+                throw new AppError(
+                    "This identity is already linked to another account.",
+                    409,
+                    ErrorCode.IDENTITY_ALREADY_LINKED
+                );
+            }
+            await userService.restoreOnLogin(identity.user);
+            await this.identityRepository.update(
+                { id: identity.id },
+                { lastLoginAt: new Date() }
+            );
+            return identity.user;
+        }
+
+        let user: User;
+        if (linkUserId !== null) {
+            user = await userService.getUserById(linkUserId);
+        } else {
+            if (!claims.email) {
+                throw new AppError(
+                    "The identity provider did not share an e-mail address.",
+                    400,
+                    ErrorCode.IDENTITY_EMAIL_MISSING
+                );
+            }
+            const existingUser = await userService
+                .getUserByEmail(claims.email)
+                .catch(() => null);
+
+            if (existingUser && claims.email_verified !== true) {
+                throw new AppError(
+                    "An account already uses this e-mail, log in to link this identity.",
+                    409,
+                    ErrorCode.IDENTITY_LINK_REQUIRED
+                );
+            }
+            user =
+                existingUser ??
+                (await userService.createExternalUser(
+                    claims.preferred_username ||
+                        claims.name ||
+                        claims.email.split("@")[0] ||
+                        "user",
+                    claims.email,
+                    claims.email_verified === true
+                ));
+        }
+
+        await this.identityRepository.save(
+            this.identityRepository.create({
+                provider: provider,
+                subject: claims.sub,
+                userId: user.id,
+                email: claims.email ?? null,
+                lastLoginAt: new Date(),
+            })
+        );
+        oidcLogger.info(`Identity ${provider} linked to user id: ${user.id}.`);
+        return user;
+    }
+}
+
+export const oidcService = OidcService.getInstance();
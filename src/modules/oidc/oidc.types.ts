@@ -0,0 +1,31 @@
+export interface OidcProviderConfig {
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret: string | undefined;
+    redirectUri: string;
+    scopes: string;
+}
+
+//Subset of the OpenID Provider Metadata used by the login flow
+export interface OidcDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+export interface OidcIdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    nonce?: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    preferred_username?: string;
+}
+
+export interface OidcAuthorizationResponse {
+    authorizationUrl: string;
+}
@@ -0,0 +1,276 @@
+import { createHash, randomBytes } from "crypto";
+import { IsNull, MoreThan } from "typeorm";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { Membership, OrganizationRole } from "../../models/Membership.js";
+import { OrganizationInvitation } from "../../models/OrganizationInvitation.js";
+import { getCurrentTenant } from "../core/tenantContext.js";
+import { TenantRepository } from "../core/tenantRepository.js";
+import { mailService } from "../mail/mail.service.js";
+import type { InvitationResponse, MemberResponse } from "./organization.types.js";
+
+/**
+ * Members and invitations of the current organization, every query is scoped to the tenant resolved for the request.
+ */
+class MembershipService {
+    private membershipRepository: TenantRepository<Membership>;
+    private invitationRepository: TenantRepository<OrganizationInvitation>;
+    private invitationTtl: number;
+    private static instance: MembershipService;
+
+    static getInstance() {
+        if (!MembershipService.instance) {
+            MembershipService.instance = new MembershipService();
+        }
+        return MembershipService.instance;
+    }
+
+    constructor() {
+        this.membershipRepository = new TenantRepository(Membership);
+        this.invitationRepository = new TenantRepository(OrganizationInvitation);
+        this.invitationTtl = Number(process.env.ORGANIZATION_INVITATION_TTL) || 7; //days
+    }
+
+    /**
+     * Check a role sent by a client.
+     * @param role Role to check.
+     * @returns Organization role.
+     */
+    private toOrganizationRole(role: string): OrganizationRole {
+        const organizationRole = role.toUpperCase() as OrganizationRole;
+        if (!Object.values(OrganizationRole).includes(organizationRole)) {
+            throw new AppError(
+                `Organization role must be one of: ${Object.values(OrganizationRole).join(", ")}.`,
+                400,
+                ErrorCode.INVALID_ORGANIZATION_ROLE
+            );
+        }
+        return organizationRole;
+    }
+
+    /**
+     * Only owners can grant or take away the owner role.
+     * @param role Role given or taken away.
+     */
+    private checkCanManage(role: OrganizationRole): void {
+        if (
+            role === OrganizationRole.OWNER &&
+            getCurrentTenant().role !== OrganizationRole.OWNER
+        ) {
+            throw new AppError(
+                "Forbidden: Only owners can manage the owner role.",
+                403,
+                ErrorCode.INSUFFICIENT_PERMISSIONS
+            );
+        }
+    }
+
+    /**
+     * Find a member of the current organization.
+     * @param userId userId.
+     * @returns Membership of the user.
+     */
+    private async getMembership(userId: number): Promise<Membership> {
+        const membership = await this.membershipRepository.findOne({
+            where: { userId: userId },
+        });
+        if (!membership) {
+            throw new AppError(
+                "Member not found.",
+                404,
+                ErrorCode.MEMBER_NOT_FOUND
+            );
+        }
+        return membership;
+    }
+
+    /**
+     * An organization always keeps at least one owner.
+     * @param membership Membership losing the owner role.
+     */
+    private async checkNotLastOwner(membership: Membership): Promise<void> {
+        if (
+            membership.role === OrganizationRole.OWNER &&
+            (await this.membershipRepository.count({
+                where: { role: OrganizationRole.OWNER },
+            })) <= 1
+        ) {
+            throw new AppError(
+                "The last owner of an organization cannot leave it nor lose its role.",
+                409,
+                ErrorCode.LAST_OWNER
+            );
+        }
+    }
+
+    /**
+     * Return every member of the current organization.
+     * @returns Members sorted by join date.
+     */
+    async getMembers(): Promise<Array<MemberResponse>> {
+        const memberships = await this.membershipRepository.find({
+            relations: { user: true },
+            order: { createdAt: "ASC" },
+        });
+        //Deleted users are not loaded, they are hidden until purged or restored
+        return memberships
+            .filter((membership) => membership.user)
+            .map((membership) => ({
+                userId: membership.userId,
+                name: membership.user.name,
+                email: membership.user.email,
+                role: membership.role,
+                joinedAt: membership.createdAt,
+            }));
+    }
+
+    /**
+     * Change the role of a member of the current organization.
+     * @param userId Member to update.
+     * @param role New role.
+     */
+    async updateMemberRole(userId: number, role: string): Promise<void> {
+        const newRole = this.toOrganizationRole(role);
+        const membership = await this.getMembership(userId);
+        this.checkCanManage(membership.role);
+        this.checkCanManage(newRole);
+        if (newRole !== OrganizationRole.OWNER) {
+            await this.checkNotLastOwner(membership);
+        }
+        await this.membershipRepository.update(
+            { id: membership.id },
+            { role: newRole }
+        );
+        logger.info(
+            `User id: ${userId} is now ${newRole} of organization ${getCurrentTenant().slug}.`
+        );
+    }
+
+    /**
+     * Remove a member from the current organization, also used by a member to leave it.
+     * @param userId Member to remove.
+     */
+    async removeMember(userId: number): Promise<void> {
+        const membership = await this.getMembership(userId);
+        if (membership.id !== getCurrentTenant().membershipId) {
+            this.checkCanManage(membership.role);
+        }
+        await this.checkNotLastOwner(membership);
+        await this.membershipRepository.delete({ id: membership.id });
+        logger.info(
+            `User id: ${userId} removed from organization ${getCurrentTenant().slug}.`
+        );
+    }
+
+    /**
+     * Invite someone to join the current organization, the link is sent by mail.
+     * A new invitation to the same address replaces the pending one.
+     * @param email E-mail address to invite.
+     * @param role Role given once the invitation is accepted.
+     * @param invitedById User sending the invitation.
+     * @returns Created invitation.
+     */
+    async invite(
+        email: string,
+        role: string,
+        invitedById: number
+    ): Promise<InvitationResponse> {
+        const normalizedEmail = email.trim().toLowerCase();
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+            throw new AppError(
+                "Invalid e-mail address.",
+                400,
+                ErrorCode.INVALID_EMAIL
+            );
+        }
+        const invitedRole = this.toOrganizationRole(role);
+        this.checkCanManage(invitedRole);
+
+        if (
+            await this.membershipRepository.exists({
+                where: { user: { email: normalizedEmail } },
+            })
+        ) {
+            throw new AppError(
+                "This user is already member of the organization.",
+                409,
+                ErrorCode.ALREADY_MEMBER
+            );
+        }
+        await this.invitationRepository.delete({
+            email: normalizedEmail,
+            acceptedAt: IsNull(),
+        });
+
+        const token = randomBytes(32).toString("base64url");
+        const invitation = await this.invitationRepository.save(
+            this.invitationRepository.create({
+                email: normalizedEmail,
+                role: invitedRole,
+                tokenHash: createHash("sha256").update(token).digest("hex"),
+                invitedById: invitedById,
+                expiresAt: new Date(
+                    Date.now() + this.invitationTtl * 24 * 60 * 60 * 1000
+                ),
+            })
+        );
+        const tenant = getCurrentTenant();
+        await mailService.sendOrganizationInvitation(
+            normalizedEmail,
+            tenant.name,
+            token,
+            invitation.expiresAt
+        );
+        logger.info(
+            `User id: ${invitedById} invited ${normalizedEmail} to organization ${tenant.slug} as ${invitedRole}.`
+        );
+        return this.toInvitationResponse(invitation);
+    }
+
+    private toInvitationResponse(
+        invitation: OrganizationInvitation
+    ): InvitationResponse {
+        return {
+            id: invitation.id,
+            email: invitation.email,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt,
+            createdAt: invitation.createdAt,
+        };
+    }
+
+    /**
+     * Return the pending invitations of the current organization.
+     * @returns Invitations which are neither accepted nor expired, most recent first.
+     */
+    async getInvitations(): Promise<Array<InvitationResponse>> {
+        const invitations = await this.invitationRepository.find({
+            where: { acceptedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+            order: { createdAt: "DESC" },
+        });
+        return invitations.map((invitation) =>
+            this.toInvitationResponse(invitation)
+        );
+    }
+
+    /**
+     * Cancel a pending invitation of the current organization.
+     * @param id Invitation id.
+     */
+    async revokeInvitation(id: number): Promise<void> {
+        const deleted = await this.invitationRepository.delete({
+            id: id,
+            acceptedAt: IsNull(),
+        });
+        if (deleted === 0) {
+            throw new AppError(
+                "Invitation not found.",
+                404,
+                ErrorCode.INVITATION_NOT_FOUND
+            );
+        }
+    }
+}
+
+export const membershipService = MembershipService.getInstance();
@@ -0,0 +1,305 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { userService } from "../user/user.service.js";
+import { membershipService } from "./membership.service.js";
+import { organizationService } from "./organization.service.js";
+
+export class OrganizationController {
+
+    constructor() {
+        this.getOrganizations = this.getOrganizations.bind(this);
+        this.createOrganization = this.createOrganization.bind(this);
+        this.getOrganization = this.getOrganization.bind(this);
+        this.acceptInvitation = this.acceptInvitation.bind(this);
+        this.getMembers = this.getMembers.bind(this);
+        this.updateMember = this.updateMember.bind(this);
+        this.deleteMember = this.deleteMember.bind(this);
+        this.getInvitations = this.getInvitations.bind(this);
+        this.createInvitation = this.createInvitation.bind(this);
+        this.deleteInvitation = this.deleteInvitation.bind(this);
+    }
+
+    /**
+     * Return every organization of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getOrganizations(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const organizations = await organizationService.getUserOrganizations(
+                req.user.id
+            );
+            res.status(200).json({ status: "success", data: organizations });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Create an organization owned by the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async createOrganization(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { name, slug } = req.body;
+            if (typeof name !== "string" || typeof slug !== "string") {
+                throw new AppError(
+                    "You need a name and a slug to create an organization.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const organization = await organizationService.createOrganization(
+                req.user.id,
+                name,
+                slug
+            );
+            res.status(201).json({ status: "success", data: organization });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return the organization selected by the tenant resolver.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getOrganization(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            if (!req.tenant) {
+                throw new AppError(
+                    "No organization selected.",
+                    400,
+                    ErrorCode.NO_ORGANIZATION_SELECTED
+                );
+            }
+            res.status(200).json({
+                status: "success",
+                data: {
+                    id: req.tenant.organizationId,
+                    name: req.tenant.name,
+                    slug: req.tenant.slug,
+                    role: req.tenant.role,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Join an organization with the token received by mail.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async acceptInvitation(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { token } = req.body;
+            if (typeof token !== "string" || !token) {
+                throw new AppError(
+                    "Missing invitation token.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const user = await userService.getUserById(req.user.id);
+            const organization = await organizationService.acceptInvitation(
+                token,
+                user
+            );
+            res.status(200).json({ status: "success", data: organization });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return every member of the current organization.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getMembers(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const members = await membershipService.getMembers();
+            res.status(200).json({ status: "success", data: members });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Change the role of a member of the current organization.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async updateMember(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = Number(req.params.userId);
+            const { role } = req.body;
+            if (!Number.isInteger(userId)) {
+                throw new AppError(
+                    "Member not found.",
+                    404,
+                    ErrorCode.MEMBER_NOT_FOUND
+                );
+            }
+            if (typeof role !== "string" || !role) {
+                throw new AppError(
+                    "Missing role.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            await membershipService.updateMemberRole(userId, role);
+            res.status(200).json({
+                status: "success",
+                message: "Member updated successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Remove a member from the current organization, or leave it when the member is the logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async deleteMember(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = Number(req.params.userId);
+            if (!Number.isInteger(userId)) {
+                throw new AppError(
+                    "Member not found.",
+                    404,
+                    ErrorCode.MEMBER_NOT_FOUND
+                );
+            }
+            await membershipService.removeMember(userId);
+            res.status(200).json({
+                status: "success",
+                message: "Member removed successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return the pending invitations of the current organization.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getInvitations(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const invitations = await membershipService.getInvitations();
+            res.status(200).json({ status: "success", data: invitations });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Invite someone to join the current organization.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async createInvitation(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { email, role } = req.body;
+            if (typeof email !== "string" || !email) {
+                throw new AppError(
+                    "Missing e-mail address.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const invitation = await membershipService.invite(
+                email,
+                typeof role === "string" && role ? role : "MEMBER",
+                req.user.id
+            );
+            res.status(201).json({ status: "success", data: invitation });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Cancel a pending invitation of the current organization.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async deleteInvitation(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const invitationId = Number(req.params.id);
+            if (!Number.isInteger(invitationId)) {
+                throw new AppError(
+                    "Invitation not found.",
+                    404,
+                    ErrorCode.INVITATION_NOT_FOUND
+                );
+            }
+            await membershipService.revokeInvitation(invitationId);
+            res.status(200).json({
+                status: "success",
+                message: "Invitation revoked successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,427 @@
+import { Router } from "express";
+import {
+    authenticate,
+    authenticateWith,
+    authorize,
+} from "../../middlewares/authMiddleware.js";
+import {
+    anyOf,
+    hasOrganizationRole,
+    isSelf,
+} from "../../middlewares/policies.js";
+import { apiLimiter, mailLimiter } from "../../middlewares/rateLimiter.js";
+import { resolveTenant } from "../../middlewares/tenantMiddleware.js";
+import { OrganizationRole } from "../../models/Membership.js";
+import { OrganizationController } from "./organization.controller.js";
+
+const router = Router();
+const controller = new OrganizationController();
+//Memberships cannot be changed while impersonating an user
+const authenticateActor = authenticateWith({ allowImpersonation: false });
+const isOrganizationAdmin = hasOrganizationRole(
+    OrganizationRole.OWNER,
+    OrganizationRole.ADMIN
+);
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Organizations
+ *   description: Organizations (tenants), their members and invitations.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     organization:
+ *       in: path
+ *       name: organization
+ *       required: true
+ *       schema:
+ *         type: string
+ *       description: Slug of the organization
+ *   schemas:
+ *     Organization:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         slug:
+ *           type: string
+ *           description: Lower case identifier, also accepted in the X-Organization header or as subdomain
+ *         role:
+ *           type: string
+ *           enum: [OWNER, ADMIN, MEMBER]
+ *           description: Role of the current user inside the organization
+ *       example:
+ *         id: 1
+ *         name: "Acme"
+ *         slug: "acme"
+ *         role: "OWNER"
+ *     Member:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [OWNER, ADMIN, MEMBER]
+ *         joinedAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         userId: 2
+ *         name: "John Doe"
+ *         email: "john.doe@test.com"
+ *         role: "MEMBER"
+ *         joinedAt: "2025-06-12T00:00:00.000Z"
+ *     Invitation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [OWNER, ADMIN, MEMBER]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 1
+ *         email: "jane.doe@test.com"
+ *         role: "MEMBER"
+ *         expiresAt: "2025-06-19T00:00:00.000Z"
+ *         createdAt: "2025-06-12T00:00:00.000Z"
+ */
+
+/**
+ * @swagger
+ * /organizations:
+ *   get:
+ *     summary: List the organizations of the current user
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizations sorted by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Organization'
+ *       401:
+ *         description: Not logged in
+ */
+router.get("/", authenticate, controller.getOrganizations);
+
+/**
+ * @swagger
+ * /organizations:
+ *   post:
+ *     summary: Create an organization, the current user becomes its owner
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - slug
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: 1 to 50 lower case letters, digits or hyphens
+ *             example:
+ *               name: "Acme"
+ *               slug: "acme"
+ *     responses:
+ *       201:
+ *         description: Organization created
+ *       400:
+ *         description: Invalid name or slug
+ *       401:
+ *         description: Not logged in
+ *       409:
+ *         description: Slug already used
+ */
+router.post("/", authenticateActor, controller.createOrganization);
+
+/**
+ * @swagger
+ * /organizations/invitations/accept:
+ *   post:
+ *     summary: Join an organization with the token received by mail
+ *     description: The current user must use the invited e-mail address.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Organization joined
+ *       400:
+ *         description: Invalid or expired invitation
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Invitation sent to another e-mail address
+ *       409:
+ *         description: Already member
+ */
+router.post("/invitations/accept", authenticateActor, controller.acceptInvitation);
+
+/**
+ * @swagger
+ * /organizations/{organization}:
+ *   get:
+ *     summary: Get an organization of the current user
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *     responses:
+ *       200:
+ *         description: Organization
+ *       401:
+ *         description: Not logged in
+ *       404:
+ *         description: Organization not found or not member
+ */
+router.get("/:organization", authenticate, resolveTenant, controller.getOrganization);
+
+/**
+ * @swagger
+ * /organizations/{organization}/members:
+ *   get:
+ *     summary: List the members of an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *     responses:
+ *       200:
+ *         description: Members sorted by join date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Member'
+ *       401:
+ *         description: Not logged in
+ *       404:
+ *         description: Organization not found or not member
+ */
+router.get("/:organization/members", authenticate, resolveTenant, controller.getMembers);
+
+/**
+ * @swagger
+ * /organizations/{organization}/members/{userId}:
+ *   put:
+ *     summary: Change the role of a member, need to be owner or admin of the organization
+ *     description: Only owners can grant or take away the owner role, the last owner cannot lose it.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *       400:
+ *         description: Invalid role
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Member not found
+ *       409:
+ *         description: Last owner of the organization
+ */
+router.put("/:organization/members/:userId", authenticateActor, resolveTenant, authorize(isOrganizationAdmin), controller.updateMember);
+
+/**
+ * @swagger
+ * /organizations/{organization}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member, or leave the organization with your own user id
+ *     description: Need to be owner or admin of the organization to remove someone else, the last owner cannot leave.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Member not found
+ *       409:
+ *         description: Last owner of the organization
+ */
+router.delete("/:organization/members/:userId", authenticateActor, resolveTenant, authorize(anyOf(isSelf("userId"), isOrganizationAdmin)), controller.deleteMember);
+
+/**
+ * @swagger
+ * /organizations/{organization}/invitations:
+ *   get:
+ *     summary: List the pending invitations, need to be owner or admin of the organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *     responses:
+ *       200:
+ *         description: Pending invitations, most recent first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Invitation'
+ *       403:
+ *         description: Access denied
+ */
+router.get("/:organization/invitations", authenticate, resolveTenant, authorize(isOrganizationAdmin), controller.getInvitations);
+
+/**
+ * @swagger
+ * /organizations/{organization}/invitations:
+ *   post:
+ *     summary: Invite someone by e-mail, need to be owner or admin of the organization
+ *     description: A new invitation to the same address replaces the pending one. Only owners can invite owners.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *                 default: MEMBER
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *       400:
+ *         description: Invalid e-mail address or role
+ *       403:
+ *         description: Access denied
+ *       409:
+ *         description: Already member
+ */
+router.post("/:organization/invitations", authenticateActor, mailLimiter, resolveTenant, authorize(isOrganizationAdmin), controller.createInvitation);
+
+/**
+ * @swagger
+ * /organizations/{organization}/invitations/{id}:
+ *   delete:
+ *     summary: Cancel a pending invitation, need to be owner or admin of the organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/organization'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Invitation not found
+ */
+router.delete("/:organization/invitations/:id", authenticateActor, resolveTenant, authorize(isOrganizationAdmin), controller.deleteInvitation);
+
+export default router;
@@ -0,0 +1,237 @@
+import { createHash } from "crypto";
+import { IsNull, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { onUniqueViolation } from "../../middlewares/databaseErrors.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { Membership, OrganizationRole } from "../../models/Membership.js";
+import { Organization } from "../../models/Organization.js";
+import { OrganizationInvitation } from "../../models/OrganizationInvitation.js";
+import type { User } from "../../models/User.js";
+import type { Tenant } from "../core/tenantContext.js";
+import type { OrganizationResponse } from "./organization.types.js";
+
+/**
+ * Organizations themselves and what happens before a tenant is selected: creation, tenant resolution and invitation acceptance.
+ * Everything inside an organization goes through membershipService, scoped to the current tenant.
+ */
+class OrganizationService {
+    private organizationRepository: Repository<Organization>;
+    private membershipRepository: Repository<Membership>;
+    private invitationRepository: Repository<OrganizationInvitation>;
+    private static SLUG_REGEX = /^[a-z0-9](?:[a-z0-9-]{0,48}[a-z0-9])?$/;
+    //Slugs which would collide with the routes of this module
+    private static RESERVED_SLUGS = ["invitations"];
+    private static instance: OrganizationService;
+
+    static getInstance() {
+        if (!OrganizationService.instance) {
+            OrganizationService.instance = new OrganizationService();
+        }
+        return OrganizationService.instance;
+    }
+
+    constructor() {
+        this.organizationRepository = AppDataSource.getRepository(Organization);
+        this.membershipRepository = AppDataSource.getRepository(Membership);
+        this.invitationRepository = AppDataSource.getRepository(
+            OrganizationInvitation
+        );
+    }
+
+    /**
+     * Create an organization, its creator becomes its first owner.
+     * @param userId Creator of the organization.
+     * @param name Name of the organization.
+     * @param slug Identifier of the organization, stored in lower case.
+     * @returns Created organization.
+     */
+    async createOrganization(
+        userId: number,
+        name: string,
+        slug: string
+    ): Promise<OrganizationResponse> {
+        const trimmedName = name.trim();
+        const normalizedSlug = slug.trim().toLowerCase();
+        if (trimmedName.length < 2 || trimmedName.length > 100) {
+            throw new AppError(
+                "Organization name must be between 2 and 100 characters.",
+                400,
+                ErrorCode.INVALID_ORGANIZATION_NAME
+            );
+        }
+        if (
+            !OrganizationService.SLUG_REGEX.test(normalizedSlug) ||
+            OrganizationService.RESERVED_SLUGS.includes(normalizedSlug)
+        ) {
+            throw new AppError(
+                "Organization slug must be 1 to 50 lower case letters, digits or hyphens.",
+                400,
+                ErrorCode.INVALID_ORGANIZATION_SLUG
+            );
+        }
+
+        const organization = await onUniqueViolation(
+            AppDataSource.transaction(async (manager) => {
+                const organization = await manager.save(
+                    manager.create(Organization, {
+                        name: trimmedName,
+                        slug: normalizedSlug,
+                    })
+                );
+                await manager.save(
+                    manager.create(Membership, {
+                        organizationId: organization.id,
+                        userId: userId,
+                        role: OrganizationRole.OWNER,
+                    })
+                );
+                return organization;
+            }),
+            {
+                slug: () =>
+                    new AppError(
+                        "This slug is already used.",
+                        409,
+                        ErrorCode.ORGANIZATION_SLUG_IN_USE
+                    ),
+            }
+        );
+        logger.info(
+            `Organization ${organization.slug} created by user id: ${userId}.`
+        );
+        return {
+            id: organization.id,
+            name: organization.name,
+            slug: organization.slug,
+            role: OrganizationRole.OWNER,
+        };
+    }
+
+    /**
+     * Find every organization an user is member of.
+     * @param userId userId.
+     * @returns Organizations along with the role of the user, sorted by name.
+     */
+    async getUserOrganizations(
+        userId: number
+    ): Promise<Array<OrganizationResponse>> {
+        const memberships = await this.membershipRepository.find({
+            where: { userId: userId },
+            relations: { organization: true },
+            order: { organization: { name: "ASC" } },
+        });
+        return memberships.map((membership) => ({
+            id: membership.organization.id,
+            name: membership.organization.name,
+            slug: membership.organization.slug,
+            role: membership.role,
+        }));
+    }
+
+    /**
+     * Resolve the tenant of a request, the user must be member of the organization.
+     * Unknown organizations and organizations the user is not member of get the same error.
+     * @param userId Logged in user.
+     * @param slug Slug of the organization.
+     * @returns Tenant of the request.
+     */
+    async getTenant(userId: number, slug: string): Promise<Tenant> {
+        const membership = await this.membershipRepository.findOne({
+            where: { userId: userId, organization: { slug: slug.toLowerCase() } },
+            relations: { organization: true },
+        });
+        if (!membership) {
+            throw new AppError(
+                "Organization not found.",
+                404,
+                ErrorCode.ORGANIZATION_NOT_FOUND
+            );
+        }
+        return {
+            organizationId: membership.organizationId,
+            slug: membership.organization.slug,
+            name: membership.organization.name,
+            membershipId: membership.id,
+            role: membership.role,
+        };
+    }
+
+    /**
+     * Join an organization with the token received by mail.
+     * The invitation can only be accepted once, by the account using the invited e-mail address.
+     * @param token Invitation token.
+     * @param user Logged in user.
+     * @returns Joined organization.
+     */
+    async acceptInvitation(
+        token: string,
+        user: Pick<User, "id" | "email">
+    ): Promise<OrganizationResponse> {
+        const invitation = await this.invitationRepository.findOne({
+            where: { tokenHash: createHash("sha256").update(token).digest("hex") },
+            relations: { organization: true },
+        });
+        if (
+            !invitation ||
+            invitation.acceptedAt ||
+            invitation.expiresAt.getTime() < Date.now()
+        ) {
+            throw new AppError(
+                "Invalid or expired invitation.",
+                400,
+                ErrorCode.INVALID_INVITATION
+            );
+        }
+        if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+            throw new AppError(
+                "Forbidden: This invitation was sent to another e-mail address.",
+                403,
+                ErrorCode.INVITATION_EMAIL_MISMATCH
+            );
+        }
+        if (
+            await this.membershipRepository.exists({
+                where: { organizationId: invitation.organizationId, userId: user.id },
+            })
+        ) {
+            throw new AppError(
+                "You are already member of this organization.",
+                409,
+                ErrorCode.ALREADY_MEMBER
+            );
+        }
+
+        //Conditional update so an invitation cannot be accepted twice
+        const result = await this.invitationRepository.update(
+            { id: invitation.id, acceptedAt: IsNull() },
+            { acceptedAt: new Date() }
+        );
+        if (result.affected === 0) {
+            throw new AppError(
+                "Invalid or expired invitation.",
+                400,
+                ErrorCode.INVALID_INVITATION
+            );
+        }
+        await this.membershipRepository.save(
+            this.membershipRepository.create({
+                organizationId: invitation.organizationId,
+                userId: user.id,
+                role: invitation.role,
+            })
+        );
+        logger.info(
+            `User id: ${user.id} joined organization ${invitation.organization.slug} as ${invitation.role}.`
+        );
+        return {
+            id: invitation.organization.id,
+            name: invitation.organization.name,
+            slug: invitation.organization.slug,
+            role: invitation.role,
+        };
+    }
+}
+
+export const organizationService = OrganizationService.getInstance();
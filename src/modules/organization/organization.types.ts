@@ -0,0 +1,25 @@
+import type { OrganizationRole } from "../../models/Membership.js";
+
+export interface OrganizationResponse {
+    id: number;
+    name: string;
+    slug: string;
+    //Role of the logged in user inside the organization
+    role: OrganizationRole;
+}
+
+export interface MemberResponse {
+    userId: number;
+    name: string;
+    email: string;
+    role: OrganizationRole;
+    joinedAt: Date;
+}
+
+export interface InvitationResponse {
+    id: number;
+    email: string;
+    role: OrganizationRole;
+    expiresAt: Date;
+    createdAt: Date;
+}
@@ -0,0 +1,180 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { AuditAction } from "../../models/AuditEvent.js";
+import { Permission } from "../../models/Permission.js";
+import { auditService } from "../audit/audit.service.js";
+import { roleService } from "./role.service.js";
+
+export class RoleController {
+
+    constructor() {
+        this.getRoles = this.getRoles.bind(this);
+        this.getPermissions = this.getPermissions.bind(this);
+        this.getRole = this.getRole.bind(this);
+        this.createRole = this.createRole.bind(this);
+        this.updatePermissions = this.updatePermissions.bind(this);
+        this.deleteRole = this.deleteRole.bind(this);
+    }
+
+    /**
+     * Return every role with its permissions.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getRoles(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const roles = await roleService.getRoles();
+            res.status(200).json({ status: "success", data: roles });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return every permission which can be granted to a role.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getPermissions(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            res.status(200).json({
+                status: "success",
+                data: Object.values(Permission),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Return a role based on its name.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getRole(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const role = await roleService.getRole(req.params.name as string);
+            res.status(200).json({ status: "success", data: role });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Create a new role.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async createRole(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { name, description, permissions } = req.body;
+            if (typeof name !== "string" || !Array.isArray(permissions)) {
+                throw new AppError(
+                    "You need a name and a list of permissions to create a role.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const role = await roleService.createRole(
+                name,
+                typeof description === "string" ? description : null,
+                permissions.map((permission) => `${permission}`)
+            );
+            await auditService.record(req, {
+                action: AuditAction.ROLE_CREATED,
+                targetType: "role",
+                targetId: role.name,
+                after: { permissions: role.permissions },
+            });
+            res.status(201).json({ status: "success", data: role });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Replace the permissions of a role.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async updatePermissions(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { permissions } = req.body;
+            if (!Array.isArray(permissions)) {
+                throw new AppError(
+                    "Missing list of permissions.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const previous = await roleService.getRole(req.params.name as string);
+            const role = await roleService.setPermissions(
+                req.params.name as string,
+                permissions.map((permission) => `${permission}`)
+            );
+            await auditService.record(req, {
+                action: AuditAction.ROLE_PERMISSIONS_CHANGED,
+                targetType: "role",
+                targetId: role.name,
+                before: { permissions: [...previous.permissions].sort() },
+                after: { permissions: [...role.permissions].sort() },
+            });
+            res.status(200).json({ status: "success", data: role });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Delete a role which is not given to any user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async deleteRole(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            await roleService.deleteRole(req.params.name as string);
+            await auditService.record(req, {
+                action: AuditAction.ROLE_DELETED,
+                targetType: "role",
+                targetId: (req.params.name as string).toUpperCase(),
+            });
+            res.status(200).json({
+                status: "success",
+                message: `Role: ${req.params.name} has been deleted successfully.`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,294 @@
+import { Router } from "express";
+import {
+    authenticate,
+    authenticateWith,
+    requirePermission,
+} from "../../middlewares/authMiddleware.js";
+import { apiLimiter } from "../../middlewares/rateLimiter.js";
+import { Permission } from "../../models/Permission.js";
+import { RoleController } from "./role.controller.js";
+
+const router = Router();
+const controller = new RoleController();
+//Roles cannot be changed while impersonating an user
+const authenticateActor = authenticateWith({ allowImpersonation: false });
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Roles
+ *   description: Roles and the permissions they grant.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Role:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Upper case name of the role
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Permissions granted to the users of this role
+ *         isDefault:
+ *           type: boolean
+ *           description: ADMIN and USER are created on startup and cannot be deleted
+ *       example:
+ *         name: "SUPPORT"
+ *         description: "Customer support"
+ *         permissions: ["users:read", "users:unlock"]
+ *         isDefault: false
+ *     RoleInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - permissions
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: 2 to 50 letters, digits or underscores, stored in upper case
+ *         description:
+ *           type: string
+ *         permissions:
+ *           type: array
+ *           items:
+ *             type: string
+ *       example:
+ *         name: "SUPPORT"
+ *         description: "Customer support"
+ *         permissions: ["users:read", "users:unlock"]
+ *     RoleResponse:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           example: success
+ *         data:
+ *           $ref: '#/components/schemas/Role'
+ */
+
+/**
+ * @swagger
+ * /roles:
+ *   get:
+ *     summary: List every role, need the roles:read permission
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles sorted by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Role'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ */
+router.get("/", authenticate, requirePermission(Permission.ROLES_READ), controller.getRoles);
+
+/**
+ * @swagger
+ * /roles/permissions:
+ *   get:
+ *     summary: List every permission which can be granted, need the roles:read permission
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["users:read", "users:delete"]
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ */
+router.get("/permissions", authenticate, requirePermission(Permission.ROLES_READ), controller.getPermissions);
+
+/**
+ * @swagger
+ * /roles/{name}:
+ *   get:
+ *     summary: Get a role by name, need the roles:read permission
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Role name
+ *     responses:
+ *       200:
+ *         description: Role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoleResponse'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Role not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get("/:name", authenticate, requirePermission(Permission.ROLES_READ), controller.getRole);
+
+/**
+ * @swagger
+ * /roles:
+ *   post:
+ *     summary: Create a role, need the roles:manage permission
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RoleInput'
+ *     responses:
+ *       201:
+ *         description: Role created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoleResponse'
+ *       400:
+ *         description: Invalid name or unknown permission
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       409:
+ *         description: Role already exists
+ */
+router.post("/", authenticateActor, requirePermission(Permission.ROLES_MANAGE), controller.createRole);
+
+/**
+ * @swagger
+ * /roles/{name}/permissions:
+ *   put:
+ *     summary: Replace the permissions of a role, need the roles:manage permission
+ *     description: Effective on the next request of the users of this role. The ADMIN role always has every permission.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Role name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissions
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *             example:
+ *               permissions: ["users:read"]
+ *     responses:
+ *       200:
+ *         description: Permissions updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoleResponse'
+ *       400:
+ *         description: Unknown permission
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied or ADMIN role
+ *       404:
+ *         description: Role not found
+ */
+router.put("/:name/permissions", authenticateActor, requirePermission(Permission.ROLES_MANAGE), controller.updatePermissions);
+
+/**
+ * @swagger
+ * /roles/{name}:
+ *   delete:
+ *     summary: Delete a role, need the roles:manage permission
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Role name
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied or default role
+ *       404:
+ *         description: Role not found
+ *       409:
+ *         description: Role still given to users
+ */
+router.delete("/:name", authenticateActor, requirePermission(Permission.ROLES_MANAGE), controller.deleteRole);
+
+export default router;
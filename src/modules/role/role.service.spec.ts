@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { QueryFailedError } from "typeorm";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { roleService } from "./role.service.js";
+
+const roleRepository = roleService["roleRepository"];
+
+describe("roleService.createRole", () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("refuses a name already used without overwriting the existing role", async () => {
+        mock.method(roleRepository, "create", (values: object) => ({
+            ...values,
+        }));
+        const save = mock.method(roleRepository, "save", async () => {
+            throw new Error("save must not be used");
+        });
+        mock.method(roleRepository, "insert", async () => {
+            throw new QueryFailedError(
+                "INSERT ...",
+                [],
+                Object.assign(new Error("duplicate key"), {
+                    code: "23505",
+                    detail: "Key (name)=(SUPPORT) already exists.",
+                })
+            );
+        });
+
+        await assert.rejects(roleService.createRole("support", null, []), {
+            statusCode: 409,
+            code: ErrorCode.ROLE_ALREADY_EXISTS,
+        });
+        assert.equal(save.mock.callCount(), 0);
+    });
+});
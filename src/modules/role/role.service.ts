@@ -0,0 +1,276 @@
+import type { Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { onUniqueViolation } from "../../middlewares/databaseErrors.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { isPermission, Permission } from "../../models/Permission.js";
+import { DefaultRole, Role } from "../../models/Role.js";
+import { User } from "../../models/User.js";
+import type { RoleResponse } from "./role.types.js";
+
+class RoleService {
+    private roleRepository: Repository<Role>;
+    private userRepository: Repository<User>;
+    //Permissions of each role, loaded on first use and cleared on every change
+    private permissionsCache: Map<string, Set<Permission>> | undefined;
+    private static DEFAULT_PERMISSIONS: Record<DefaultRole, Permission[]> = {
+        [DefaultRole.ADMIN]: Object.values(Permission),
+        [DefaultRole.USER]: [],
+    };
+    private static instance: RoleService;
+
+    static getInstance() {
+        if (!RoleService.instance) {
+            RoleService.instance = new RoleService();
+        }
+        return RoleService.instance;
+    }
+
+    constructor() {
+        this.roleRepository = AppDataSource.getRepository(Role);
+        this.userRepository = AppDataSource.getRepository(User);
+    }
+
+    /**
+     * Check if a role is one of the default roles.
+     * @param name Name of the role.
+     * @returns True for ADMIN and USER.
+     */
+    private isDefault(name: string): boolean {
+        return Object.values(DefaultRole).includes(name as DefaultRole);
+    }
+
+    /**
+     * Check a list of permissions sent by a client.
+     * @param permissions Permissions to check.
+     * @returns Permissions without duplicates.
+     */
+    private toPermissions(permissions: string[]): Permission[] {
+        const invalid = permissions.filter((permission) => !isPermission(permission));
+        if (invalid.length > 0) {
+            throw new AppError(
+                `Unknown permissions: ${invalid.join(", ")}.`,
+                400,
+                ErrorCode.UNKNOWN_PERMISSION
+            );
+        }
+        return [...new Set(permissions as Permission[])];
+    }
+
+    private toResponse(role: Role): RoleResponse {
+        return {
+            name: role.name,
+            description: role.description,
+            permissions: role.permissions,
+            isDefault: this.isDefault(role.name),
+        };
+    }
+
+    /**
+     * Create the default roles if they do not exist yet, called on startup.
+     * ADMIN always gets every permission so new permissions are granted to it automatically.
+     */
+    async seedDefaultRoles(): Promise<void> {
+        await this.roleRepository
+            .createQueryBuilder()
+            .insert()
+            .values([
+                {
+                    name: DefaultRole.USER,
+                    description: "Default role of new users.",
+                    permissions: RoleService.DEFAULT_PERMISSIONS[DefaultRole.USER],
+                },
+            ])
+            .orIgnore()
+            .execute();
+        await this.roleRepository.upsert(
+            {
+                name: DefaultRole.ADMIN,
+                description: "Full access to the application.",
+                permissions: RoleService.DEFAULT_PERMISSIONS[DefaultRole.ADMIN],
+            },
+            ["name"]
+        );
+        this.permissionsCache = undefined;
+    }
+
+    /**
+     * Return the permissions granted to a role.
+     * @param name Name of the role.
+     * @returns Permissions of the role, empty for an unknown role.
+     */
+    async getPermissions(name: string): Promise<Set<Permission>> {
+        if (!this.permissionsCache) {
+            const roles = await this.roleRepository.find();
+            this.permissionsCache = new Map(
+                roles.map((role) => [role.name, new Set(role.permissions)])
+            );
+        }
+        return this.permissionsCache.get(name.toUpperCase()) ?? new Set();
+    }
+
+    /**
+     * Check if a role grants every specified permission.
+     * @param name Name of the role.
+     * @param permissions Required permissions.
+     * @returns True if the role grants all of them.
+     */
+    async hasPermissions(
+        name: string,
+        permissions: Permission[]
+    ): Promise<boolean> {
+        const granted = await this.getPermissions(name);
+        return permissions.every((permission) => granted.has(permission));
+    }
+
+    /**
+     * Check if a role exists.
+     * @param name Name of the role.
+     * @returns True if the role exists.
+     */
+    async roleExists(name: string): Promise<boolean> {
+        return await this.roleRepository.exists({
+            where: { name: name.toUpperCase() },
+        });
+    }
+
+    /**
+     * Find every role.
+     * @returns Array of roles sorted by name.
+     */
+    async getRoles(): Promise<Array<RoleResponse>> {
+        const roles = await this.roleRepository.find({ order: { name: "ASC" } });
+        return roles.map((role) => this.toResponse(role));
+    }
+
+    /**
+     * Find a role based on its name.
+     * @param name Name of the role.
+     * @returns Role found by its name.
+     */
+    async getRole(name: string): Promise<RoleResponse> {
+        const role = await this.roleRepository.findOne({
+            where: { name: name.toUpperCase() },
+        });
+        if (!role) {
+            throw new AppError(
+                "Role not found.",
+                404,
+                ErrorCode.ROLE_NOT_FOUND
+            );
+        }
+        return this.toResponse(role);
+    }
+
+    /**
+     * Create a new role.
+     * @param name Name of the role, stored in upper case.
+     * @param description Description of the role.
+     * @param permissions Permissions granted to the role.
+     * @returns Created role.
+     */
+    async createRole(
+        name: string,
+        description: string | null,
+        permissions: string[]
+    ): Promise<RoleResponse> {
+        const roleName = name.trim().toUpperCase();
+        if (!/^[A-Z][A-Z0-9_]{1,49}$/.test(roleName)) {
+            throw new AppError(
+                "Role name must be 2 to 50 letters, digits or underscores and start with a letter.",
+                400,
+                ErrorCode.INVALID_ROLE_NAME
+            );
+        }
+        const role = this.roleRepository.create({
+            name: roleName,
+            description: description?.substring(0, 255) ?? null,
+            permissions: this.toPermissions(permissions),
+        });
+        //Inserted rather than saved, saving would overwrite the role already using this name
+        await onUniqueViolation(this.roleRepository.insert(role), {
+            name: () =>
+                new AppError(
+                    "This role already exists.",
+                    409,
+                    ErrorCode.ROLE_ALREADY_EXISTS
+                ),
+        });
+        this.permissionsCache = undefined;
+        logger.info(`Role ${roleName} created.`);
+        return this.toResponse(role);
+    }
+
+    /**
+     * Replace the permissions granted to a role, effective on the next request of its users.
+     * The ADMIN role cannot be changed so the application always keeps an administrator.
+     * @param name Name of the role.
+     * @param permissions New permissions of the role.
+     * @returns Updated role.
+     */
+    async setPermissions(
+        name: string,
+        permissions: string[]
+    ): Promise<RoleResponse> {
+        const roleName = name.toUpperCase();
+        if (roleName === DefaultRole.ADMIN) {
+            throw new AppError(
+                "Forbidden: The ADMIN role always has every permission.",
+                403,
+                ErrorCode.ROLE_PROTECTED
+            );
+        }
+        const role = await this.roleRepository.findOne({
+            where: { name: roleName },
+        });
+        if (!role) {
+            throw new AppError(
+                "Role not found.",
+                404,
+                ErrorCode.ROLE_NOT_FOUND
+            );
+        }
+        role.permissions = this.toPermissions(permissions);
+        const updatedRole = await this.roleRepository.save(role);
+        this.permissionsCache = undefined;
+        logger.info(
+            `Permissions of role ${roleName} set to: ${role.permissions.join(", ") || "none"}.`
+        );
+        return this.toResponse(updatedRole);
+    }
+
+    /**
+     * Delete a role, default roles and roles still given to users cannot be deleted.
+     * @param name Name of the role.
+     */
+    async deleteRole(name: string): Promise<void> {
+        const roleName = name.toUpperCase();
+        if (this.isDefault(roleName)) {
+            throw new AppError(
+                "Forbidden: Default roles cannot be deleted.",
+                403,
+                ErrorCode.ROLE_PROTECTED
+            );
+        }
+        if (!(await this.roleExists(roleName))) {
+            throw new AppError(
+                "Role not found.",
+                404,
+                ErrorCode.ROLE_NOT_FOUND
+            );
+        }
+        if (await this.userRepository.exists({ where: { role: roleName } })) {
+            throw new AppError(
+                "This role is still given to users, assign them another role first.",
+                409,
+                ErrorCode.ROLE_IN_USE
+            );
+        }
+        await this.roleRepository.delete({ name: roleName });
+        this.permissionsCache = undefined;
+        logger.info(`Role ${roleName} deleted.`);
+    }
+}
+
+export const roleService = RoleService.getInstance();
@@ -0,0 +1,9 @@
+import type { Permission } from "../../models/Permission.js";
+
+export interface RoleResponse {
+    name: string;
+    description: string | null;
+    permissions: Permission[];
+    //Default roles cannot be deleted
+    isDefault: boolean;
+}
@@ -0,0 +1,105 @@
+import { isUUID } from "class-validator";
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { refreshTokenService } from "../core/refreshToken.service.js";
+import { REFRESH_COOKIE_PATH } from "../user/user.controller.js";
+import { sessionService } from "./session.service.js";
+import type { SessionResponse } from "./session.types.js";
+
+export class SessionController {
+
+    constructor() {
+        this.getSessions = this.getSessions.bind(this);
+        this.deleteSession = this.deleteSession.bind(this);
+        this.deleteAllSessions = this.deleteAllSessions.bind(this);
+    }
+
+    /**
+     * Return every active session of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getSessions(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const sessions = await sessionService.getActiveSessions(
+                req.user.id
+            );
+            const response: Array<SessionResponse> = sessions.map(
+                (session) => ({
+                    id: session.id,
+                    userAgent: session.userAgent,
+                    ip: session.ip,
+                    createdAt: session.createdAt,
+                    lastUsedAt: session.lastUsedAt,
+                    current: session.id === req.user.sessionId,
+                })
+            );
+            res.status(200).json({ status: "success", data: response });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Revoke a session of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async deleteSession(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const sessionId = req.params.id;
+            if (sessionId === undefined || !isUUID(sessionId)) {
+                throw new AppError(
+                    "Session not found.",
+                    404,
+                    ErrorCode.SESSION_NOT_FOUND
+                );
+            }
+            await sessionService.revokeUserSession(req.user.id, sessionId);
+
+            if (sessionId === req.user.sessionId) {
+                res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
+            }
+            res.status(200).json({
+                status: "success",
+                message: "Session revoked successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Revoke every session of the currently logged in user, current one included.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async deleteAllSessions(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            await refreshTokenService.revokeAllForUser(req.user.id);
+            res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
+            res.status(200).json({
+                status: "success",
+                message: "Every session has been revoked.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
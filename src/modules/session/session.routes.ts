@@ -0,0 +1,147 @@
+import { Router } from "express";
+import {
+    authenticate,
+    authenticateWith,
+} from "../../middlewares/authMiddleware.js";
+import { apiLimiter } from "../../middlewares/rateLimiter.js";
+import { SessionController } from "./session.controller.js";
+
+const router = Router();
+const controller = new SessionController();
+//Sessions of the impersonated user cannot be revoked by the administrator
+const authenticateActor = authenticateWith({ allowImpersonation: false });
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Sessions
+ *   description: Active sessions management for the current user.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Session:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           description: Session id
+ *         userAgent:
+ *           type: string
+ *           nullable: true
+ *           description: User agent of the device which opened the session
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *           description: IP address of the device which opened the session
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date of the login (ISO format)
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date of the last token refresh (ISO format)
+ *         current:
+ *           type: boolean
+ *           description: True for the session used by the request
+ *       example:
+ *         id: "6f1c2a9e-3f5b-4c1e-9a7d-2b8e4f0c1d3a"
+ *         userAgent: "Mozilla/5.0 (X11; Linux x86_64)"
+ *         ip: "127.0.0.1"
+ *         createdAt: "2025-06-12T00:00:00.000Z"
+ *         lastUsedAt: "2025-06-12T01:00:00.000Z"
+ *         current: true
+ */
+
+/**
+ * @swagger
+ * /users/sessions:
+ *   get:
+ *     summary: List the active sessions of the current user
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Not logged in
+ */
+router.get("/", authenticate, controller.getSessions);
+
+/**
+ * @swagger
+ * /users/sessions:
+ *   delete:
+ *     summary: Log out everywhere by revoking every session of the current user
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Every session revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: Every session has been revoked.
+ *       401:
+ *         description: Not logged in
+ */
+router.delete("/", authenticateActor, controller.deleteAllSessions);
+
+/**
+ * @swagger
+ * /users/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session of the current user
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Session id
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Not logged in
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete("/:id", authenticateActor, controller.deleteSession);
+
+export default router;
@@ -0,0 +1,129 @@
+import { IsNull, MoreThan, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { Session } from "../../models/Session.js";
+import type { SessionContext } from "./session.types.js";
+
+class SessionService {
+    private sessionRepository: Repository<Session>;
+    private static instance: SessionService;
+
+    static getInstance() {
+        if (!SessionService.instance) {
+            SessionService.instance = new SessionService();
+        }
+        return SessionService.instance;
+    }
+
+    constructor() {
+        this.sessionRepository = AppDataSource.getRepository(Session);
+    }
+
+    /**
+     * Save a new session for an user.
+     * @param id Session id, shared with the refresh token family.
+     * @param userId Owner of the session.
+     * @param context Device informations of the session.
+     * @param expiresAt Expiration date of the first refresh token.
+     * @returns Created session.
+     */
+    async create(
+        id: string,
+        userId: number,
+        context: SessionContext,
+        expiresAt: Date
+    ): Promise<Session> {
+        const session = this.sessionRepository.create({
+            id: id,
+            userId: userId,
+            userAgent: context.userAgent?.substring(0, 255) ?? null,
+            ip: context.ip,
+            lastUsedAt: new Date(),
+            expiresAt: expiresAt,
+        });
+        return await this.sessionRepository.save(session);
+    }
+
+    /**
+     * Mark a session as used, called every time its refresh token is rotated.
+     * @param id Session id.
+     * @param expiresAt Expiration date of the new refresh token.
+     */
+    async touch(id: string, expiresAt: Date): Promise<void> {
+        await this.sessionRepository.update(
+            { id: id },
+            { lastUsedAt: new Date(), expiresAt: expiresAt }
+        );
+    }
+
+    /**
+     * Return every active session of an user, most recently used first.
+     * @param userId userId.
+     * @returns Array of active sessions.
+     */
+    async getActiveSessions(userId: number): Promise<Array<Session>> {
+        return await this.sessionRepository.find({
+            where: {
+                userId: userId,
+                revokedAt: IsNull(),
+                expiresAt: MoreThan(new Date()),
+            },
+            order: { lastUsedAt: "DESC" },
+        });
+    }
+
+    /**
+     * Check if a session can still be used.
+     * @param id Session id.
+     * @returns True if the session exists and has not been revoked.
+     */
+    async isActive(id: string): Promise<boolean> {
+        return await this.sessionRepository.exists({
+            where: { id: id, revokedAt: IsNull() },
+        });
+    }
+
+    /**
+     * Revoke a session, its refresh tokens cannot be used anymore.
+     * @param id Session id.
+     */
+    async revoke(id: string): Promise<void> {
+        await this.sessionRepository.update(
+            { id: id, revokedAt: IsNull() },
+            { revokedAt: new Date() }
+        );
+    }
+
+    /**
+     * Revoke a session owned by the specified user.
+     * @param userId Owner of the session.
+     * @param id Session id.
+     */
+    async revokeUserSession(userId: number, id: string): Promise<void> {
+        const result = await this.sessionRepository.update(
+            { id: id, userId: userId, revokedAt: IsNull() },
+            { revokedAt: new Date() }
+        );
+        if (result.affected === 0) {
+            throw new AppError(
+                "Session not found.",
+                404,
+                ErrorCode.SESSION_NOT_FOUND
+            );
+        }
+    }
+
+    /**
+     * Revoke every session of an user.
+     * @param userId userId.
+     */
+    async revokeAll(userId: number): Promise<void> {
+        await this.sessionRepository.update(
+            { userId: userId, revokedAt: IsNull() },
+            { revokedAt: new Date() }
+        );
+    }
+}
+
+export const sessionService = SessionService.getInstance();
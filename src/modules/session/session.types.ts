@@ -0,0 +1,13 @@
+export interface SessionContext {
+    userAgent: string | null;
+    ip: string | null;
+}
+
+export interface SessionResponse {
+    id: string;
+    userAgent: string | null;
+    ip: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    current: boolean;
+}
@@ -0,0 +1,141 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { AuditAction } from "../../models/AuditEvent.js";
+import { auditService } from "../audit/audit.service.js";
+import { twoFactorService } from "./twoFactor.service.js";
+
+export class TwoFactorController {
+
+    constructor() {
+        this.setup = this.setup.bind(this);
+        this.confirm = this.confirm.bind(this);
+        this.disable = this.disable.bind(this);
+        this.regenerateRecoveryCodes = this.regenerateRecoveryCodes.bind(this);
+    }
+
+    /**
+     * Start the 2FA enrollment of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async setup(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const setup = await twoFactorService.setup(req.user.id);
+            res.status(200).json({ status: "success", data: setup });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Enable 2FA for the currently logged in user with the first code of its authenticator application.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async confirm(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { code } = req.body;
+            if (!code) {
+                throw new AppError(
+                    "Missing two-factor code.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const recoveryCodes = await twoFactorService.confirm(
+                req.user.id,
+                `${code}`
+            );
+            await auditService.record(req, {
+                action: AuditAction.TWO_FACTOR_ENABLED,
+                targetType: "user",
+                targetId: req.user.id,
+            });
+            res.status(200).json({
+                status: "success",
+                data: { recoveryCodes },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Disable 2FA for the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async disable(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { password, code } = req.body;
+            if (!password || !code) {
+                throw new AppError(
+                    "You need your password and a two-factor code to disable two-factor authentication.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            await twoFactorService.disable(req.user.id, password, `${code}`);
+            await auditService.record(req, {
+                action: AuditAction.TWO_FACTOR_DISABLED,
+                targetType: "user",
+                targetId: req.user.id,
+            });
+            res.status(200).json({
+                status: "success",
+                message: "Two-factor authentication disabled.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Replace the recovery codes of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async regenerateRecoveryCodes(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { code } = req.body;
+            if (!code) {
+                throw new AppError(
+                    "Missing two-factor code.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+                req.user.id,
+                `${code}`
+            );
+            res.status(200).json({
+                status: "success",
+                data: { recoveryCodes },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
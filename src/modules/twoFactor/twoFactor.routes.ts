@@ -0,0 +1,185 @@
+import { Router } from "express";
+import { authenticateWith } from "../../middlewares/authMiddleware.js";
+import { apiLimiter, loginLimiter } from "../../middlewares/rateLimiter.js";
+import { TwoFactorController } from "./twoFactor.controller.js";
+
+const router = Router();
+const controller = new TwoFactorController();
+//Two-factor settings cannot be changed with an API key nor while impersonating
+const authenticate = authenticateWith({
+    allowApiKey: false,
+    allowImpersonation: false,
+});
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Two-factor
+ *   description: TOTP two-factor authentication management for the current user.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TwoFactorCode:
+ *       type: object
+ *       required:
+ *         - code
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: 6 digits code generated by the authenticator application
+ *       example:
+ *         code: "123456"
+ *     RecoveryCodesResponse:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           example: success
+ *         data:
+ *           type: object
+ *           properties:
+ *             recoveryCodes:
+ *               type: array
+ *               description: Single use codes replacing a TOTP code during login, only shown once
+ *               items:
+ *                 type: string
+ *       example:
+ *         status: "success"
+ *         data:
+ *           recoveryCodes: ["a1b2c-3d4e5", "f6a7b-8c9d0"]
+ */
+
+/**
+ * @swagger
+ * /users/2fa/setup:
+ *   post:
+ *     summary: Start the two-factor enrollment
+ *     description: Return a new secret, two-factor authentication is only enabled once a first code is confirmed.
+ *     tags: [Two-factor]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       description: Base32 encoded secret
+ *                     otpauthUri:
+ *                       type: string
+ *                       description: URI to display as a QR code
+ *       401:
+ *         description: Not logged in
+ *       409:
+ *         description: Two-factor authentication already enabled
+ */
+router.post("/setup", authenticate, controller.setup);
+
+/**
+ * @swagger
+ * /users/2fa/confirm:
+ *   post:
+ *     summary: Enable two-factor authentication with a first code
+ *     tags: [Two-factor]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCode'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodesResponse'
+ *       400:
+ *         description: Missing code or setup not started
+ *       401:
+ *         description: Not logged in or invalid code
+ *       409:
+ *         description: Two-factor authentication already enabled
+ */
+router.post("/confirm", authenticate, loginLimiter, controller.confirm);
+
+/**
+ * @swagger
+ * /users/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Two-factor]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Missing data or two-factor authentication not enabled
+ *       401:
+ *         description: Not logged in, incorrect password or invalid code
+ *       403:
+ *         description: Two-factor authentication is mandatory for this role
+ */
+router.post("/disable", authenticate, loginLimiter, controller.disable);
+
+/**
+ * @swagger
+ * /users/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace the recovery codes
+ *     tags: [Two-factor]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCode'
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodesResponse'
+ *       400:
+ *         description: Missing code or two-factor authentication not enabled
+ *       401:
+ *         description: Not logged in or invalid code
+ */
+router.post("/recovery-codes", authenticate, loginLimiter, controller.regenerateRecoveryCodes);
+
+export default router;
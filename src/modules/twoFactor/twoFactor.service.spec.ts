@@ -0,0 +1,287 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import type { User } from "../../models/User.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { twoFactorService } from "./twoFactor.service.js";
+
+//Secret of the RFC 6238 test vectors, its code at 59 seconds is 287082 (step 1)
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const userRepository = twoFactorService["userRepository"];
+const recoveryCodeRepository = twoFactorService["recoveryCodeRepository"];
+
+/**
+ * Make the user repository work on a single row with 2FA enabled, as the database would:
+ * the last used step is only replaced by a newer one and counters are incremented.
+ * @param values Values overriding the defaults.
+ * @returns Row of the user.
+ */
+const mockUser = (values: Partial<User> = {}) => {
+    const row = {
+        id: 1,
+        email: "john@example.com",
+        role: "USER",
+        twoFactorSecret: SECRET,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: null,
+        twoFactorFailedAttempts: 0,
+        lockedUntil: null,
+        ...values,
+    } as User;
+    mock.method(userRepository, "createQueryBuilder", () => {
+        let changes: Record<string, unknown> = {};
+        let newerThan: number | undefined;
+        const queryBuilder = {
+            addSelect: () => queryBuilder,
+            where: () => queryBuilder,
+            getOne: async () => ({ ...row }),
+            update: () => queryBuilder,
+            set: (values: Record<string, unknown>) => {
+                changes = values;
+                return queryBuilder;
+            },
+            andWhere: (condition: string, parameters: { step: number }) => {
+                newerThan = parameters.step;
+                return queryBuilder;
+            },
+            returning: () => queryBuilder,
+            execute: async () => {
+                if (
+                    newerThan !== undefined &&
+                    row.twoFactorLastUsedStep !== null &&
+                    row.twoFactorLastUsedStep >= newerThan
+                ) {
+                    return { affected: 0, raw: [] };
+                }
+                for (const [key, value] of Object.entries(changes)) {
+                    const column = key as keyof User;
+                    Object.assign(row, {
+                        [column]:
+                            typeof value === "function"
+                                ? (row[column] as number) + 1
+                                : value,
+                    });
+                }
+                return { affected: 1, raw: [{ ...row }] };
+            },
+        };
+        return queryBuilder;
+    });
+    return row;
+};
+
+const updateResult = (affected: number) => ({
+    affected: affected,
+    raw: [],
+    generatedMaps: [],
+});
+
+describe("twoFactorService.verifyLogin", () => {
+    beforeEach(() => {
+        mock.method(Date, "now", () => 59000);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("accepts a valid code and remembers its step", async () => {
+        const row = mockUser();
+
+        await twoFactorService.verifyLogin(1, "287082", undefined);
+
+        assert.equal(row.twoFactorLastUsedStep, 1);
+    });
+
+    it("refuses a code already used", async () => {
+        mockUser({ twoFactorLastUsedStep: 1 });
+
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, "287082", undefined),
+            { statusCode: 401, code: ErrorCode.INVALID_TWO_FACTOR_CODE }
+        );
+    });
+
+    it("accepts a code only once when it is sent concurrently", async () => {
+        const row = mockUser();
+
+        const results = await Promise.allSettled([
+            twoFactorService.verifyLogin(1, "287082", undefined),
+            twoFactorService.verifyLogin(1, "287082", undefined),
+        ]);
+
+        assert.deepEqual(
+            results.map(({ status }) => status).sort(),
+            ["fulfilled", "rejected"]
+        );
+        const rejected = results.find(
+            (result) => result.status === "rejected"
+        ) as PromiseRejectedResult;
+        assert.equal(rejected.reason.code, ErrorCode.INVALID_TWO_FACTOR_CODE);
+        assert.equal(row.twoFactorLastUsedStep, 1);
+    });
+
+    it("refuses a wrong code and counts it", async () => {
+        const row = mockUser();
+
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, "123456", undefined),
+            { code: ErrorCode.INVALID_TWO_FACTOR_CODE }
+        );
+        assert.equal(row.twoFactorFailedAttempts, 1);
+    });
+
+    it("locks the account after too many wrong codes", async () => {
+        mockUser({ twoFactorFailedAttempts: 4 });
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, "123456", undefined),
+            { code: ErrorCode.INVALID_TWO_FACTOR_CODE }
+        );
+
+        const lock = update.mock.calls[0]?.arguments[1] as Partial<User>;
+        assert.equal(lock.twoFactorFailedAttempts, 0);
+        assert.equal(lock.lockedUntil?.getTime(), 59000 + 15 * 60 * 1000);
+    });
+
+    it("refuses even a valid code while the account is locked", async () => {
+        const row = mockUser({ lockedUntil: new Date(60000) });
+
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, "287082", undefined),
+            { statusCode: 401, code: ErrorCode.INVALID_TWO_FACTOR_CHALLENGE }
+        );
+        assert.equal(row.twoFactorLastUsedStep, null);
+    });
+
+    it("resets the wrong codes counter after a successful login", async () => {
+        mockUser({ twoFactorFailedAttempts: 3 });
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+
+        await twoFactorService.verifyLogin(1, "287082", undefined);
+
+        assert.deepEqual(update.mock.calls[0]?.arguments, [
+            { id: 1 },
+            { twoFactorFailedAttempts: 0 },
+        ]);
+    });
+
+    it("marks a recovery code as used only if it was unused", async () => {
+        mockUser();
+        const update = mock.method(
+            recoveryCodeRepository,
+            "update",
+            async () => updateResult(1)
+        );
+
+        await twoFactorService.verifyLogin(1, undefined, "ABCDE-12345");
+
+        const [criteria, values] = update.mock.calls[0]?.arguments ?? [];
+        const { userId, codeHash, usedAt } = criteria as {
+            userId: number;
+            codeHash: string;
+            usedAt: unknown;
+        };
+        assert.equal(userId, 1);
+        //Spaces and case are ignored
+        assert.equal(
+            codeHash,
+            createHash("sha256").update("abcde-12345").digest("hex")
+        );
+        assert.ok(usedAt);
+        assert.ok((values as { usedAt: Date }).usedAt instanceof Date);
+    });
+
+    it("refuses a used or unknown recovery code and counts it", async () => {
+        const row = mockUser();
+        mock.method(recoveryCodeRepository, "update", async () =>
+            updateResult(0)
+        );
+
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, undefined, "abcde-12345"),
+            { statusCode: 401, code: ErrorCode.INVALID_RECOVERY_CODE }
+        );
+        assert.equal(row.twoFactorFailedAttempts, 1);
+    });
+
+    it("refuses users without 2FA and logins without a code", async () => {
+        mockUser({ twoFactorEnabledAt: null });
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, "287082", undefined),
+            { code: ErrorCode.TWO_FACTOR_NOT_ENABLED }
+        );
+
+        mockUser();
+        await assert.rejects(
+            twoFactorService.verifyLogin(1, undefined, undefined),
+            { code: ErrorCode.MISSING_PARAMETER }
+        );
+    });
+});
+
+describe("twoFactorService.confirm", () => {
+    beforeEach(() => {
+        mock.method(Date, "now", () => 59000);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("enables 2FA and returns new recovery codes once a code is confirmed", async () => {
+        mockUser({ twoFactorEnabledAt: null });
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+        const deleteCodes = mock.method(
+            recoveryCodeRepository,
+            "delete",
+            async () => ({ affected: 10, raw: [] })
+        );
+        mock.method(
+            recoveryCodeRepository,
+            "create",
+            (values: object) => values
+        );
+        const save = mock.method(
+            recoveryCodeRepository,
+            "save",
+            async (values: object) => values
+        );
+
+        const codes = await twoFactorService.confirm(1, "287082");
+
+        assert.equal(codes.length, 10);
+        assert.equal(new Set(codes).size, 10);
+        codes.forEach((code) => assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/));
+        assert.ok(
+            (update.mock.calls[0]?.arguments[1] as Partial<User>)
+                .twoFactorEnabledAt instanceof Date
+        );
+        assert.deepEqual(deleteCodes.mock.calls[0]?.arguments, [{ userId: 1 }]);
+        //Only the hashes are stored
+        const stored = save.mock.calls[0]?.arguments[0] as unknown as Array<{
+            codeHash: string;
+        }>;
+        assert.ok(stored.every(({ codeHash }) => !codes.includes(codeHash)));
+    });
+
+    it("keeps 2FA disabled when the code is wrong", async () => {
+        mockUser({ twoFactorEnabledAt: null });
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+
+        await assert.rejects(twoFactorService.confirm(1, "123456"), {
+            code: ErrorCode.INVALID_TWO_FACTOR_CODE,
+        });
+        assert.equal(update.mock.callCount(), 0);
+    });
+});
@@ -0,0 +1,381 @@
+import bcrypt from "bcrypt";
+import { createHash, randomBytes } from "crypto";
+import { IsNull, type Repository } from "typeorm";
+import { AppDataSource } from "../../config/database.js";
+import { logger } from "../../config/logger.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { RecoveryCode } from "../../models/RecoveryCode.js";
+import { DefaultRole } from "../../models/Role.js";
+import { User } from "../../models/User.js";
+import { TotpService } from "../core/totp.service.js";
+import type { TwoFactorSetupResponse } from "./twoFactor.types.js";
+
+const twoFactorLogger = logger.getSubLogger({ name: "twoFactor" });
+
+class TwoFactorService {
+    private userRepository: Repository<User>;
+    private recoveryCodeRepository: Repository<RecoveryCode>;
+    private forceAdmin: boolean;
+    private lockThreshold: number;
+    private lockDuration: number;
+    private static RECOVERY_CODES_COUNT = 10;
+    private static instance: TwoFactorService;
+
+    static getInstance() {
+        if (!TwoFactorService.instance) {
+            TwoFactorService.instance = new TwoFactorService();
+        }
+        return TwoFactorService.instance;
+    }
+
+    constructor() {
+        this.userRepository = AppDataSource.getRepository(User);
+        this.recoveryCodeRepository = AppDataSource.getRepository(RecoveryCode);
+        this.forceAdmin = process.env.TWO_FACTOR_FORCE_ADMIN === "true";
+        //Same limits as the failed passwords: wrong codes before the account is locked and lock duration in minutes
+        this.lockThreshold = Number(process.env.LOGIN_LOCK_THRESHOLD) || 5;
+        this.lockDuration = Number(process.env.LOGIN_LOCK_DURATION) || 15;
+    }
+
+    /**
+     * Check if the configuration forces an user with the specified role to use 2FA.
+     * @param role Role of the user.
+     * @returns True if 2FA is mandatory for this role.
+     */
+    isRequiredFor(role: string): boolean {
+        return this.forceAdmin && role.toUpperCase() === DefaultRole.ADMIN;
+    }
+
+    /**
+     * Load an user along with its 2FA secret.
+     * @param userId userId.
+     * @returns User with 2FA columns.
+     */
+    private async getUserWithSecret(userId: number): Promise<User> {
+        const user = await this.userRepository
+            .createQueryBuilder("user")
+            .addSelect(["user.twoFactorSecret", "user.twoFactorLastUsedStep"])
+            .where("user.id = :id", { id: userId })
+            .getOne();
+        if (!user) {
+            throw new AppError(
+                "User not found.",
+                404,
+                ErrorCode.USER_NOT_FOUND
+            );
+        }
+        return user;
+    }
+
+    /**
+     * Hash a recovery code, spaces and case are ignored.
+     * @param code Recovery code.
+     * @returns Hex encoded SHA-256 of the code.
+     */
+    private hashRecoveryCode(code: string): string {
+        return createHash("sha256")
+            .update(code.replace(/\s/g, "").toLowerCase())
+            .digest("hex");
+    }
+
+    /**
+     * Check a TOTP code and remember its time step so it cannot be used again, even by a concurrent request.
+     * @param user User with 2FA columns.
+     * @param code TOTP code.
+     * @returns True if the code is valid.
+     */
+    private async consumeCode(user: User, code: string): Promise<boolean> {
+        if (!user.twoFactorSecret) {
+            return false;
+        }
+        const step = TotpService.verify(
+            user.twoFactorSecret,
+            code,
+            user.twoFactorLastUsedStep
+        );
+        if (step === null) {
+            return false;
+        }
+        //Conditional update so two concurrent requests cannot both use the same code
+        const result = await this.userRepository
+            .createQueryBuilder()
+            .update(User)
+            .set({ twoFactorLastUsedStep: step })
+            .where("id = :id", { id: user.id })
+            .andWhere(
+                `("twoFactorLastUsedStep" IS NULL OR "twoFactorLastUsedStep" < :step)`,
+                { step: step }
+            )
+            .execute();
+        return result.affected !== 0;
+    }
+
+    /**
+     * Count a wrong code sent during a login and lock the account once the threshold is reached.
+     * @param user User who failed to verify its login.
+     */
+    private async registerFailedVerification(user: User) {
+        //Incremented by the database so concurrent failures are all counted
+        const result = await this.userRepository
+            .createQueryBuilder()
+            .update(User)
+            .set({
+                twoFactorFailedAttempts: () => `"twoFactorFailedAttempts" + 1`,
+            })
+            .where("id = :id", { id: user.id })
+            .returning(["twoFactorFailedAttempts"])
+            .execute();
+
+        const attempts: number =
+            result.raw[0]?.twoFactorFailedAttempts ??
+            user.twoFactorFailedAttempts + 1;
+        if (attempts >= this.lockThreshold) {
+            await this.userRepository.update(
+                { id: user.id },
+                {
+                    twoFactorFailedAttempts: 0,
+                    lockedUntil: new Date(
+                        Date.now() + this.lockDuration * 60 * 1000
+                    ),
+                }
+            );
+            twoFactorLogger.warn(
+                `User id: ${user.id} locked for ${this.lockDuration} minutes after ${attempts} wrong two-factor codes.`
+            );
+        }
+    }
+
+    /**
+     * Replace the recovery codes of an user with new ones.
+     * @param userId userId.
+     * @returns Raw recovery codes, only shown once.
+     */
+    private async generateRecoveryCodes(userId: number): Promise<Array<string>> {
+        await this.recoveryCodeRepository.delete({ userId: userId });
+
+        const codes = Array.from({ length: TwoFactorService.RECOVERY_CODES_COUNT }, () => {
+            const hex = randomBytes(5).toString("hex");
+            return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+        });
+        await this.recoveryCodeRepository.save(
+            codes.map((code) =>
+                this.recoveryCodeRepository.create({
+                    userId: userId,
+                    codeHash: this.hashRecoveryCode(code),
+                })
+            )
+        );
+        return codes;
+    }
+
+    /**
+     * Start the 2FA enrollment by creating a new secret, 2FA stays disabled until the first code is confirmed.
+     * @param userId userId.
+     * @returns Secret and otpauth URI to add inside an authenticator application.
+     */
+    async setup(userId: number): Promise<TwoFactorSetupResponse> {
+        const user = await this.getUserWithSecret(userId);
+        if (user.twoFactorEnabledAt) {
+            throw new AppError(
+                "Two-factor authentication is already enabled.",
+                409,
+                ErrorCode.TWO_FACTOR_ALREADY_ENABLED
+            );
+        }
+
+        const secret = TotpService.generateSecret();
+        await this.userRepository.update(
+            { id: user.id },
+            { twoFactorSecret: secret, twoFactorLastUsedStep: null }
+        );
+        return {
+            secret: secret,
+            otpauthUri: TotpService.buildUri(secret, user.email),
+        };
+    }
+
+    /**
+     * Enable 2FA once the user proves its authenticator application works.
+     * @param userId userId.
+     * @param code First TOTP code generated by the application.
+     * @returns Raw recovery codes, only shown once.
+     */
+    async confirm(userId: number, code: string): Promise<Array<string>> {
+        const user = await this.getUserWithSecret(userId);
+        if (user.twoFactorEnabledAt) {
+            throw new AppError(
+                "Two-factor authentication is already enabled.",
+                409,
+                ErrorCode.TWO_FACTOR_ALREADY_ENABLED
+            );
+        }
+        if (!user.twoFactorSecret) {
+            throw new AppError(
+                "Two-factor setup has not been started.",
+                400,
+                ErrorCode.TWO_FACTOR_SETUP_NOT_STARTED
+            );
+        }
+        if (!(await this.consumeCode(user, code))) {
+            throw new AppError(
+                "Invalid two-factor code.",
+                401,
+                ErrorCode.INVALID_TWO_FACTOR_CODE
+            );
+        }
+
+        await this.userRepository.update(
+            { id: user.id },
+            { twoFactorEnabledAt: new Date() }
+        );
+        return await this.generateRecoveryCodes(user.id);
+    }
+
+    /**
+     * Disable 2FA, the password and a valid code are needed.
+     * @param userId userId.
+     * @param password Password of the user.
+     * @param code TOTP code.
+     */
+    async disable(userId: number, password: string, code: string): Promise<void> {
+        const user = await this.getUserWithSecret(userId);
+        if (!user.twoFactorEnabledAt) {
+            throw new AppError(
+                "Two-factor authentication is not enabled.",
+                400,
+                ErrorCode.TWO_FACTOR_NOT_ENABLED
+            );
+        }
+        if (this.isRequiredFor(user.role)) {
+            throw new AppError(
+                "Forbidden: Two-factor authentication is mandatory for your role.",
+                403,
+                ErrorCode.TWO_FACTOR_REQUIRED
+            );
+        }
+        if (!(await bcrypt.compare(password, user.password))) {
+            throw new AppError(
+                "Incorrect password.",
+                401,
+                ErrorCode.INCORRECT_PASSWORD
+            );
+        }
+        if (!(await this.consumeCode(user, code))) {
+            throw new AppError(
+                "Invalid two-factor code.",
+                401,
+                ErrorCode.INVALID_TWO_FACTOR_CODE
+            );
+        }
+
+        await this.userRepository.update(
+            { id: user.id },
+            {
+                twoFactorSecret: null,
+                twoFactorEnabledAt: null,
+                twoFactorLastUsedStep: null,
+            }
+        );
+        await this.recoveryCodeRepository.delete({ userId: user.id });
+    }
+
+    /**
+     * Replace the recovery codes of an user, a valid code is needed.
+     * @param userId userId.
+     * @param code TOTP code.
+     * @returns Raw recovery codes, only shown once.
+     */
+    async regenerateRecoveryCodes(userId: number, code: string): Promise<Array<string>> {
+        const user = await this.getUserWithSecret(userId);
+        if (!user.twoFactorEnabledAt) {
+            throw new AppError(
+                "Two-factor authentication is not enabled.",
+                400,
+                ErrorCode.TWO_FACTOR_NOT_ENABLED
+            );
+        }
+        if (!(await this.consumeCode(user, code))) {
+            throw new AppError(
+                "Invalid two-factor code.",
+                401,
+                ErrorCode.INVALID_TWO_FACTOR_CODE
+            );
+        }
+        return await this.generateRecoveryCodes(user.id);
+    }
+
+    /**
+     * Verify the second factor of a login, either a TOTP code or an unused recovery code.
+     * Wrong codes are counted and lock the account once the threshold is reached, the challenge
+     * of a locked account is refused until the lock is over.
+     * @param userId userId.
+     * @param code TOTP code.
+     * @param recoveryCode Recovery code, used when no TOTP code is provided.
+     */
+    async verifyLogin(
+        userId: number,
+        code: string | undefined,
+        recoveryCode: string | undefined
+    ): Promise<void> {
+        const user = await this.getUserWithSecret(userId);
+        if (!user.twoFactorEnabledAt) {
+            throw new AppError(
+                "Two-factor authentication is not enabled.",
+                400,
+                ErrorCode.TWO_FACTOR_NOT_ENABLED
+            );
+        }
+        if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+            throw new AppError(
+                "Invalid or expired two-factor challenge.",
+                401,
+                ErrorCode.INVALID_TWO_FACTOR_CHALLENGE
+            );
+        }
+
+        if (code) {
+            if (!(await this.consumeCode(user, code))) {
+                await this.registerFailedVerification(user);
+                throw new AppError(
+                    "Invalid two-factor code.",
+                    401,
+                    ErrorCode.INVALID_TWO_FACTOR_CODE
+                );
+            }
+        } else if (recoveryCode) {
+            //Conditional update so a recovery code cannot be used twice concurrently
+            const result = await this.recoveryCodeRepository.update(
+                {
+                    userId: user.id,
+                    codeHash: this.hashRecoveryCode(recoveryCode),
+                    usedAt: IsNull(),
+                },
+                { usedAt: new Date() }
+            );
+            if (result.affected === 0) {
+                await this.registerFailedVerification(user);
+                throw new AppError(
+                    "Invalid recovery code.",
+                    401,
+                    ErrorCode.INVALID_RECOVERY_CODE
+                );
+            }
+        } else {
+            throw new AppError(
+                "You need a two-factor code or a recovery code.",
+                400,
+                ErrorCode.MISSING_PARAMETER
+            );
+        }
+
+        if (user.twoFactorFailedAttempts > 0) {
+            await this.userRepository.update(
+                { id: user.id },
+                { twoFactorFailedAttempts: 0 }
+            );
+        }
+    }
+}
+
+export const twoFactorService = TwoFactorService.getInstance();
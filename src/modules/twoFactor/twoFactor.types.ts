@@ -0,0 +1,9 @@
+export interface TwoFactorSetupResponse {
+    secret: string;
+    otpauthUri: string;
+}
+
+export interface TwoFactorChallengeResponse {
+    twoFactorRequired: true;
+    challengeToken: string;
+}
@@ -1,42 +1,93 @@
-import { AppError } from "../../middlewares/errorHandler.js";
+import { logger } from "../../config/logger.js";
+import { AppError, ValidationError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { AuditAction } from "../../models/AuditEvent.js";
+import { Permission } from "../../models/Permission.js";
 import type { User } from "../../models/User.js";
+import { auditService } from "../audit/audit.service.js";
 import { JwtService } from "../core/jwt.service.js";
+import { refreshTokenService } from "../core/refreshToken.service.js";
+import { impersonationService } from "../impersonation/impersonation.service.js";
+import { roleService } from "../role/role.service.js";
+import { twoFactorService } from "../twoFactor/twoFactor.service.js";
+import type { TwoFactorChallengeResponse } from "../twoFactor/twoFactor.types.js";
+import type {
+    CreateUserDto,
+    DeleteUserDto,
+    LoginDto,
+    PasswordChangeDto,
+    RegisterDto,
+    UpdateUserDto,
+} from "./user.dto.js";
 import { userService } from "./user.service.js";
 import type { Request, Response, NextFunction } from "express";
 import type { UserProfile } from "./user.types.js";
 
+//The refresh cookie is sent to every /users route so logout can revoke it
+export const REFRESH_COOKIE_PATH = "/users";
+
 export class UserController {
 
     constructor() {
         this.createUser = this.createUser.bind(this);
         this.loginUser = this.loginUser.bind(this);
+        this.verifyTwoFactorLogin = this.verifyTwoFactorLogin.bind(this);
         this.logoutUser = this.logoutUser.bind(this);
         this.refreshToken = this.refreshToken.bind(this);
+        this.verifyEmail = this.verifyEmail.bind(this);
+        this.resendEmailVerification = this.resendEmailVerification.bind(this);
+        this.forgotPassword = this.forgotPassword.bind(this);
+        this.resetPassword = this.resetPassword.bind(this);
         this.getProfile = this.getProfile.bind(this);
         this.getAllUser = this.getAllUser.bind(this);
         this.getUser = this.getUser.bind(this);
         this.updateUser = this.updateUser.bind(this);
+        this.createUserAsAdmin = this.createUserAsAdmin.bind(this);
+        this.updateUserById = this.updateUserById.bind(this);
+        this.disableUser = this.disableUser.bind(this);
+        this.enableUser = this.enableUser.bind(this);
         this.updatePassword = this.updatePassword.bind(this);
         this.deleteUser = this.deleteUser.bind(this);
         this.deleteUserById = this.deleteUserById.bind(this);
+        this.restoreUser = this.restoreUser.bind(this);
+        this.unlockUser = this.unlockUser.bind(this);
+        this.updateUserRole = this.updateUserRole.bind(this);
+        this.impersonateUser = this.impersonateUser.bind(this);
+        this.stopImpersonation = this.stopImpersonation.bind(this);
     }
 
     /**
-     * Log an User then add it's accessToken to response body and refreshToken to the cookies.
-     * @param res Response to send back with JWT Tokens.
-     * @param status HTTP Status of the response.
-     * @param user User getting logged in.
+     * Store the refresh token inside the response cookies.
+     * @param res Response to send back with the refresh token.
+     * @param refreshToken Refresh token to store.
      */
-    async prepareTokens(res: Response, status: number, user: User) {
-        const { accessToken, refreshToken } = userService.login(user);
-
+    setRefreshCookie(res: Response, refreshToken: string) {
         res.cookie("refreshToken", refreshToken, {
             httpOnly: true,
             secure: process.env.NODE_ENV === "production",
             sameSite: "strict",
             maxAge: 30 * 24 * 60 * 60 * 1000, //30 days
-            path: "/users/refresh",
+            path: REFRESH_COOKIE_PATH,
+        });
+    }
+
+    /**
+     * Log an User then add it's accessToken to response body and refreshToken to the cookies.
+     * A new session is created using the device informations of the request.
+     * @param req Incoming HTTP request.
+     * @param res Response to send back with JWT Tokens.
+     * @param status HTTP Status of the response.
+     * @param user User getting logged in.
+     */
+    async prepareTokens(req: Request, res: Response, status: number, user: User) {
+        //Also covers the logins which do not go through testCredentials (2FA, OpenID Connect)
+        userService.checkAccountEnabled(user);
+        const { accessToken, refreshToken } = await userService.login(user, {
+            userAgent: req.get("user-agent") ?? null,
+            ip: req.ip ?? null,
         });
+
+        this.setRefreshCookie(res, refreshToken);
         res.status(status).json({
             status: "success",
             data: {
@@ -44,12 +95,39 @@ export class UserController {
                     id: user.id,
                     name: user.name,
                     role: user.role,
+                    passwordChangeRequired: user.passwordChangeRequired,
                 },
                 accessToken,
             },
         });
     }
 
+    /**
+     * Finish the login of an user whose identity has been checked.
+     * If the user enabled 2FA, a challenge token is returned instead of the JWT tokens.
+     * @param req Incoming HTTP request.
+     * @param res Response to send back with JWT Tokens or the 2FA challenge.
+     * @param user User getting logged in.
+     */
+    async completeLogin(req: Request, res: Response, user: User) {
+        if (user.twoFactorEnabledAt) {
+            const challenge: TwoFactorChallengeResponse = {
+                twoFactorRequired: true,
+                challengeToken: JwtService.generateTwoFactorChallengeToken({
+                    id: user.id,
+                    tokenVersion: user.tokenVersion,
+                }),
+            };
+            res.status(200).json({ status: "success", data: challenge });
+            return;
+        }
+        await this.prepareTokens(req, res, 200, user);
+        await auditService.record(req, {
+            action: AuditAction.USER_LOGIN,
+            actorId: user.id,
+        });
+    }
+
     /**
      * Create a new user then proceed to log in the newly created user.
      * @param req Incoming HTTP request.
@@ -62,45 +140,19 @@ export class UserController {
         next: NextFunction
     ): Promise<void> {
         try {
-            const { name, email, password } = req.body;
-            if (!name || !email || !password) {
-                throw new AppError(
-                    "You need a name, an e-mail and a password to create a user account.",
-                    400
-                );
-            }
-
-            try {
-                if (await userService.getUserByEmail(email)) {
-                    throw new AppError(
-                        `E-mail :${email} is already in use, please try a different one.`,
-                        409
-                    );
-                }
-            } catch (error) {
-                if (error instanceof AppError && error.statusCode !== 404) {
-                    throw error;
-                }
-            }
-
-            try {
-                if (await userService.getUserByName(name)) {
-                    throw new AppError(
-                        `Username :${email} is already in use, please try a different one.`,
-                        409
-                    );
-                }
-            } catch (error) {
-                if (error instanceof AppError && error.statusCode !== 404) {
-                    throw error;
-                }
-            }
+            const { name, email, password } = req.body as RegisterDto;
             const user = await userService.createUser(
                 name,
                 email,
                 password
             );
-            await this.prepareTokens(res, 201, user);
+            await auditService.record(req, {
+                action: AuditAction.USER_REGISTERED,
+                actorId: user.id,
+                targetType: "user",
+                targetId: user.id,
+            });
+            await this.prepareTokens(req, res, 201, user);
         } catch (error) {
             next(error);
         }
@@ -108,6 +160,7 @@ export class UserController {
 
     /**
      * Log a user by using its username or email and its password.
+     * If the user enabled 2FA, a challenge token is returned instead of the JWT tokens.
      * @param req Incoming HTTP request.
      * @param res Response or the incoming HTTP request.
      * @param next Following function.
@@ -118,23 +171,92 @@ export class UserController {
         next: NextFunction
     ): Promise<void> {
         try {
-            const { name, email, password } = req.body;
-            if (!password || (!name && !email)) {
-                throw new AppError("Invalid credentials.", 400);
+            const { name, email, password } = req.body as LoginDto;
+            //Checked after the validation of the body, so both fields keep their type checks when both are sent
+            if (!name && !email) {
+                throw new ValidationError([
+                    { field: "email", messages: ["name or email is required"] },
+                ]);
             }
-            const user = await userService.testCredentials(
-                name,
-                email,
-                password
-            );
-            await this.prepareTokens(res, 200, user);
+            let user: User;
+            try {
+                user = await userService.testCredentials(name, email, password);
+            } catch (error) {
+                await auditService.record(req, {
+                    action: AuditAction.USER_LOGIN_FAILED,
+                    actorId: null,
+                    targetType: email ? "email" : "name",
+                    targetId: `${email || name}`,
+                });
+                throw error;
+            }
+            await this.completeLogin(req, res, user);
         } catch (error) {
             next(error);
         }
     }
 
     /**
-     * Logout the user by clearing its refresh token from its cookies.
+     * Second step of the login for users with 2FA enabled, exchange the challenge token and a TOTP
+     * or recovery code for the JWT tokens.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async verifyTwoFactorLogin(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { challengeToken, code, recoveryCode } = req.body;
+            if (!challengeToken) {
+                throw new AppError(
+                    "Missing two-factor challenge.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const challenge =
+                JwtService.verifyTwoFactorChallengeToken(challengeToken);
+
+            const user = await userService.getUserById(challenge.id);
+            //Password changed since the challenge was issued
+            if (user.tokenVersion !== challenge.tokenVersion) {
+                throw new AppError(
+                    "Invalid or expired two-factor challenge.",
+                    401,
+                    ErrorCode.INVALID_TWO_FACTOR_CHALLENGE
+                );
+            }
+
+            try {
+                await twoFactorService.verifyLogin(
+                    user.id,
+                    code ? `${code}` : undefined,
+                    recoveryCode ? `${recoveryCode}` : undefined
+                );
+            } catch (error) {
+                await auditService.record(req, {
+                    action: AuditAction.USER_LOGIN_FAILED,
+                    actorId: null,
+                    targetType: "user",
+                    targetId: user.id,
+                });
+                throw error;
+            }
+            await this.prepareTokens(req, res, 200, user);
+            await auditService.record(req, {
+                action: AuditAction.USER_LOGIN,
+                actorId: user.id,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Logout the user by revoking its refresh token family and clearing the token from its cookies.
      * @param req Incoming HTTP request.
      * @param res Response or the incoming HTTP request.
      * @param next Following function.
@@ -145,7 +267,11 @@ export class UserController {
         next: NextFunction
     ): Promise<void> {
         try {
-            res.clearCookie("refreshToken", { path: "/users/refresh" });
+            const refreshToken = req.cookies.refreshToken;
+            if (refreshToken) {
+                await refreshTokenService.revoke(refreshToken);
+            }
+            res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
             res.status(200).json({
                 status: "success",
                 message: "Logout successful.",
@@ -157,6 +283,7 @@ export class UserController {
 
     /**
      * Refresh access token by using the provided refresh token stored inside the user's cookies.
+     * The refresh token is rotated, the used one cannot be presented again.
      * @param req Incoming HTTP request.
      * @param res Response or the incoming HTTP request.
      * @param next Following function.
@@ -170,16 +297,24 @@ export class UserController {
             const refreshToken = req.cookies.refreshToken;
 
             if (!refreshToken) {
-                throw new AppError("Missing refresh token.", 400);
+                throw new AppError(
+                    "Missing refresh token.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
             }
-            const decoded = JwtService.verifyRefreshToken(refreshToken);
+            const { user, refreshToken: newRefreshToken, sessionId } =
+                await refreshTokenService.rotate(refreshToken);
 
             const newAccessToken = JwtService.generateAccessToken({
-                id: decoded.id,
-                name: decoded.name,
-                role: decoded.role,
+                id: user.id,
+                name: user.name,
+                role: user.role,
+                tokenVersion: user.tokenVersion,
+                sessionId: sessionId,
             });
 
+            this.setRefreshCookie(res, newRefreshToken);
             res.status(200).json({
                 status: "success",
                 data: {
@@ -191,6 +326,59 @@ export class UserController {
         }
     }
 
+    /**
+     * Verify the e-mail address of an user with the token sent by mail.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async verifyEmail(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { token } = req.body;
+            if (!token) {
+                throw new AppError(
+                    "Missing verification token.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            await userService.verifyEmail(token);
+            res.status(200).json({
+                status: "success",
+                message: "E-mail address verified successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Send a new verification link to the e-mail address of the currently logged in user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async resendEmailVerification(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const user = await userService.getUserById(req.user.id);
+            await userService.sendEmailVerification(user);
+            res.status(202).json({
+                status: "success",
+                message: "Verification e-mail sent.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * Get user profile informations.
      * @param req Incoming HTTP request.
@@ -206,20 +394,26 @@ export class UserController {
             if (!req.user.id) {
                 throw new AppError(
                     "You need to be logged in to access your profile.",
-                    401
+                    401,
+                    ErrorCode.AUTHENTICATION_REQUIRED
                 );
             }
 
             const user: User = await userService.getUserById(req.user.id);
 
             if (!user) {
-                throw new AppError("User not found.", 404);
+                throw new AppError(
+                    "User not found.",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
             }
 
             const userProfile: UserProfile = {
                 id: req.user.id,
                 name: user.name,
                 email: user.email,
+                emailVerified: user.emailVerifiedAt !== null,
                 role: user.role,
             };
 
@@ -233,7 +427,7 @@ export class UserController {
     }
 
     /**
-     * Return a list of all users.
+     * Return a page of users, filtered and sorted according to the query string.
      * @param req Incoming HTTP request.
      * @param res Response or the incoming HTTP request.
      * @param next Following function.
@@ -244,11 +438,8 @@ export class UserController {
         next: NextFunction
     ): Promise<void> {
         try {
-            const users = await userService.getAllUsers();
-            if (users) {
-                res.json({ status: "success", data: users });
-            }
-            res.json({ status: "success", data: [] });
+            const { data, meta } = await userService.getAllUsers(req.query);
+            res.status(200).json({ status: "success", data, meta });
         } catch (error) {
             next(error);
         }
@@ -267,13 +458,21 @@ export class UserController {
     ): Promise<void> {
         try {
             if (req.params.id === undefined) {
-                throw new AppError("Missing userId.", 404);
+                throw new AppError(
+                    "Missing userId.",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
             } else {
                 const user = await userService.getUserById(
                     parseInt(req.params.id)
                 );
                 if (!user) {
-                    throw new AppError("User not found.", 404);
+                    throw new AppError(
+                        "User not found.",
+                        404,
+                        ErrorCode.USER_NOT_FOUND
+                    );
                 }
                 const response = {
                     id: user.id,
@@ -304,24 +503,177 @@ export class UserController {
             if (!req.user.id) {
                 throw new AppError(
                     "You need to be logged in to update your profile.",
-                    401
+                    401,
+                    ErrorCode.AUTHENTICATION_REQUIRED
+                );
+            }
+            const { email, name, role } = req.body as UpdateUserDto;
+            if (
+                role &&
+                !(await roleService.hasPermissions(req.user.role, [
+                    Permission.ROLES_ASSIGN,
+                ]))
+            ) {
+                throw new AppError(
+                    "Forbidden: Insuffisant rights to change your role.",
+                    403,
+                    ErrorCode.INSUFFICIENT_PERMISSIONS
                 );
             }
-            const { email, name, role } = req.body;
+            const previous = await userService.getUserById(req.user.id);
             const user = await userService.updateUser(req.user.id, {
                 name: name,
                 email: email,
                 role: role,
             });
+            await auditService.record(req, {
+                action: AuditAction.USER_UPDATED,
+                targetType: "user",
+                targetId: user.id,
+                before: {
+                    name: previous.name,
+                    email: previous.email,
+                    role: previous.role,
+                },
+                after: { name: user.name, email: user.email, role: user.role },
+            });
+            //The new tokens start a new session, the current one is closed
+            if (req.user.sessionId) {
+                await refreshTokenService.revokeFamily(req.user.sessionId);
+            }
             //Login user again to get new tokens based on the updated data
-            await this.prepareTokens(res, 200, user);
+            await this.prepareTokens(req, res, 200, user);
         } catch (error) {
             next(error);
         }
     }
 
+    /**
+     * Create a user on behalf of an administrator, invited by mail or given a temporary password.
+     * A role can only be given with the roles:assign permission.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async createUserAsAdmin(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { name, email, role, invite } = req.body as CreateUserDto;
+            await this.checkCanAssignRole(req, role);
+
+            const { user, temporaryPassword } =
+                await userService.createUserAsAdmin(
+                    {
+                        name: name,
+                        email: email,
+                        ...(role !== undefined && { role }),
+                    },
+                    invite !== false
+                );
+            await auditService.record(req, {
+                action: AuditAction.USER_CREATED,
+                targetType: "user",
+                targetId: user.id,
+                after: { name: user.name, email: user.email, role: user.role },
+            });
+            res.status(201).json({
+                status: "success",
+                data: {
+                    id: user.id,
+                    name: user.name,
+                    email: user.email,
+                    role: user.role,
+                    temporaryPassword: temporaryPassword,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Update the name, e-mail address or role of a user.
+     * A role can only be changed with the roles:assign permission.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async updateUserById(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            const { email, name, role } = req.body as UpdateUserDto;
+            await this.checkCanAssignRole(req, role);
+
+            const previous = await userService.getUserById(parseInt(userId));
+            const user = await userService.updateUser(previous.id, {
+                name: name,
+                email: email,
+                role: role,
+            });
+            await auditService.record(req, {
+                action: AuditAction.USER_UPDATED,
+                targetType: "user",
+                targetId: user.id,
+                before: {
+                    name: previous.name,
+                    email: previous.email,
+                    role: previous.role,
+                },
+                after: { name: user.name, email: user.email, role: user.role },
+            });
+            res.status(200).json({
+                status: "success",
+                data: {
+                    id: user.id,
+                    name: user.name,
+                    email: user.email,
+                    emailVerified: user.emailVerifiedAt !== null,
+                    role: user.role,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Reject a request giving a role without the roles:assign permission.
+     * @param req Incoming HTTP request.
+     * @param role Role sent in the request body.
+     */
+    private async checkCanAssignRole(req: Request, role: string | undefined) {
+        if (
+            role &&
+            !(await roleService.hasPermissions(req.user.role, [
+                Permission.ROLES_ASSIGN,
+            ]))
+        ) {
+            throw new AppError(
+                "Forbidden: Insuffisant rights to assign a role.",
+                403,
+                ErrorCode.INSUFFICIENT_PERMISSIONS
+            );
+        }
+    }
+
     /**
      * Update user password. The provided password is hashed before being stored inside the database.
+     * Every other session of the user is closed.
      * @param req Incoming HTTP request.
      * @param res Response or the incoming HTTP request.
      * @param next Following function.
@@ -335,19 +687,96 @@ export class UserController {
             if (!req.user.id) {
                 throw new AppError(
                     "You need to be logged in to update your profile.",
-                    401
+                    401,
+                    ErrorCode.AUTHENTICATION_REQUIRED
                 );
             }
 
-            const { oldPassword, newPassword } = req.body;
+            const { oldPassword, newPassword } = req.body as PasswordChangeDto;
             const user = await userService.updatePassword(
                 req.user.id,
                 oldPassword,
                 newPassword
             );
+            await auditService.record(req, {
+                action: AuditAction.USER_PASSWORD_CHANGED,
+                targetType: "user",
+                targetId: user.id,
+            });
 
             //Login user again to get new tokens based on the updated data
-            await this.prepareTokens(res, 200, user);
+            await this.prepareTokens(req, res, 200, user);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Send a password reset link by mail. The response is always the same, whether the account exists or not,
+     * and is sent before the mail is processed so the response time does not reveal it either.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async forgotPassword(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { email } = req.body;
+            if (!email) {
+                throw new AppError(
+                    "You need an e-mail to reset a password.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            userService
+                .requestPasswordReset(email)
+                .catch((error) => logger.error(error));
+
+            res.status(202).json({
+                status: "success",
+                message: "If an account use this e-mail, a reset link has been sent.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Set a new password using the token received by mail, every session of the user is closed.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async resetPassword(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const { token, newPassword } = req.body;
+            if (!token || !newPassword) {
+                throw new AppError(
+                    "You need a reset token and a new password to reset a password.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const user = await userService.resetPassword(token, newPassword);
+            await auditService.record(req, {
+                action: AuditAction.USER_PASSWORD_RESET,
+                actorId: user.id,
+                targetType: "user",
+                targetId: user.id,
+            });
+            res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
+            res.status(200).json({
+                status: "success",
+                message: "Password reset successfully, please log in again.",
+            });
         } catch (error) {
             next(error);
         }
@@ -369,12 +798,18 @@ export class UserController {
             if (!req.user.id) {
                 throw new AppError(
                     "You need to be logged in to update your profile.",
-                    401
+                    401,
+                    ErrorCode.AUTHENTICATION_REQUIRED
                 );
             }
-            const { password } = req.body;
+            const { password } = req.body as DeleteUserDto;
             if (await userService.deleteUser(req.user.id, password)) {
-                res.clearCookie("refreshToken", { path: "/users/refresh" });
+                await auditService.record(req, {
+                    action: AuditAction.USER_DELETED,
+                    targetType: "user",
+                    targetId: req.user.id,
+                });
+                res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
 
                 res.status(200).json({
                     message: "Account deleted successfully.",
@@ -382,7 +817,8 @@ export class UserController {
             } else {
                 throw new AppError(
                     "Cannot delete user account : Incorrect password.",
-                    401
+                    401,
+                    ErrorCode.INCORRECT_PASSWORD
                 );
             }
         } catch (error) {
@@ -405,9 +841,18 @@ export class UserController {
             const userId = req.params.id;
 
             if (userId === undefined) {
-                throw new AppError("Missing userId", 404);
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
             }
-            userService.deleteUserById(parseInt(userId));
+            await userService.deleteUserById(parseInt(userId));
+            await auditService.record(req, {
+                action: AuditAction.USER_DELETED,
+                targetType: "user",
+                targetId: userId,
+            });
             res.status(200).json({
                 status: "success",
                 message: `User: ${userId} has been deleted successfully.`,
@@ -416,4 +861,285 @@ export class UserController {
             next(error);
         }
     }
+
+    /**
+     * Unlock a user account locked after too many failed logins.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async unlockUser(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            await userService.unlockUser(parseInt(userId));
+            await auditService.record(req, {
+                action: AuditAction.USER_UNLOCKED,
+                targetType: "user",
+                targetId: userId,
+            });
+            res.status(200).json({
+                status: "success",
+                message: `User: ${userId} has been unlocked successfully.`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Restore a deleted user account before it is purged.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async restoreUser(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            await userService.restoreUserById(parseInt(userId));
+            await auditService.record(req, {
+                action: AuditAction.USER_RESTORED,
+                targetType: "user",
+                targetId: userId,
+            });
+            res.status(200).json({
+                status: "success",
+                message: `User: ${userId} has been restored successfully.`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Disable a user account without deleting it, its tokens, sessions and API keys stop working.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async disableUser(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            if (parseInt(userId) === req.user.id) {
+                throw new AppError(
+                    "You cannot disable your own account.",
+                    400,
+                    ErrorCode.CANNOT_DISABLE_SELF
+                );
+            }
+            await userService.disableUser(parseInt(userId));
+            await auditService.record(req, {
+                action: AuditAction.USER_DISABLED,
+                targetType: "user",
+                targetId: userId,
+            });
+            res.status(200).json({
+                status: "success",
+                message: `User: ${userId} has been disabled successfully.`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Enable a disabled user account.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async enableUser(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            await userService.enableUser(parseInt(userId));
+            await auditService.record(req, {
+                action: AuditAction.USER_ENABLED,
+                targetType: "user",
+                targetId: userId,
+            });
+            res.status(200).json({
+                status: "success",
+                message: `User: ${userId} has been enabled successfully.`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Assign a role to a user, its previous tokens are invalidated.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async updateUserRole(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+            const { role } = req.body;
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            if (typeof role !== "string" || !role) {
+                throw new AppError(
+                    "Missing role.",
+                    400,
+                    ErrorCode.MISSING_PARAMETER
+                );
+            }
+            const previous = await userService.getUserById(parseInt(userId));
+            const user = await userService.updateRole(parseInt(userId), role);
+            await auditService.record(req, {
+                action: AuditAction.USER_ROLE_CHANGED,
+                targetType: "user",
+                targetId: user.id,
+                before: { role: previous.role },
+                after: { role: user.role },
+            });
+            res.status(200).json({
+                status: "success",
+                message: `Role ${user.role} has been assigned to user: ${userId}.`,
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Start impersonating a user, the response contains a short-lived access token of this user.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async impersonateUser(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const userId = req.params.id;
+            const { reason } = req.body ?? {};
+
+            if (userId === undefined) {
+                throw new AppError(
+                    "Missing userId",
+                    404,
+                    ErrorCode.USER_NOT_FOUND
+                );
+            }
+            const impersonationReason =
+                typeof reason === "string" && reason ? reason : null;
+            const impersonation = await impersonationService.start(
+                { id: req.user.id, name: req.user.name, role: req.user.role },
+                parseInt(userId),
+                impersonationReason
+            );
+            await auditService.record(req, {
+                action: AuditAction.IMPERSONATION_STARTED,
+                targetType: "user",
+                targetId: userId,
+                after: {
+                    impersonationId: impersonation.impersonationId,
+                    reason: impersonationReason,
+                    expiresAt: impersonation.expiresAt,
+                },
+            });
+            res.status(201).json({ status: "success", data: impersonation });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Stop the impersonation used by the request, its access token is revoked.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async stopImpersonation(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            if (!req.user.actor || !req.user.impersonationId) {
+                throw new AppError(
+                    "You are not impersonating an user.",
+                    400,
+                    ErrorCode.NOT_IMPERSONATING
+                );
+            }
+            await impersonationService.stop(
+                req.user.impersonationId,
+                req.user.actor.id
+            );
+            await auditService.record(req, {
+                action: AuditAction.IMPERSONATION_STOPPED,
+                targetType: "user",
+                targetId: req.user.id,
+                after: { impersonationId: req.user.impersonationId },
+            });
+            res.status(200).json({
+                status: "success",
+                message: "Impersonation stopped successfully.",
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
 }
@@ -0,0 +1,89 @@
+import {
+    IsBoolean,
+    IsEmail,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Length,
+} from "class-validator";
+
+export class RegisterDto {
+    @IsString()
+    @Length(3, 100)
+    name!: string;
+
+    @IsEmail()
+    email!: string;
+
+    //Strength is checked by the user service, the same rule applies to every password change
+    @IsString()
+    @Length(8, 100)
+    password!: string;
+}
+
+export class LoginDto {
+    //Either name or email identifies the user, the controller checks one of them is given
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    name?: string;
+
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+
+    @IsString()
+    @IsNotEmpty()
+    password!: string;
+}
+
+export class UpdateUserDto {
+    @IsOptional()
+    @IsString()
+    @Length(3, 100)
+    name?: string;
+
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    role?: string;
+}
+
+export class CreateUserDto {
+    @IsString()
+    @Length(3, 100)
+    name!: string;
+
+    @IsEmail()
+    email!: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    role?: string;
+
+    //Send an invitation link instead of a temporary password
+    @IsOptional()
+    @IsBoolean()
+    invite?: boolean;
+}
+
+export class PasswordChangeDto {
+    @IsString()
+    @IsNotEmpty()
+    oldPassword!: string;
+
+    @IsString()
+    @Length(8, 100)
+    newPassword!: string;
+}
+
+export class DeleteUserDto {
+    @IsString()
+    @IsNotEmpty()
+    password!: string;
+}
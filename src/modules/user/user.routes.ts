@@ -1,15 +1,45 @@
 import { Router } from "express";
-import { authenticate, authorize } from "../../middlewares/authMiddleware.js";
+import {
+    authenticate,
+    authenticateWith,
+    authorize,
+    requirePermission,
+} from "../../middlewares/authMiddleware.js";
+import { isSelfOrAdmin } from "../../middlewares/policies.js";
+import { validateBody } from "../../middlewares/validationMiddleware.js";
+import { Permission } from "../../models/Permission.js";
 import {
     apiLimiter,
     loginLimiter,
+    mailLimiter,
     refreshLimiter,
     registerLimiter,
 } from "../../middlewares/rateLimiter.js";
 import { UserController } from "./user.controller.js";
+import {
+    CreateUserDto,
+    DeleteUserDto,
+    LoginDto,
+    PasswordChangeDto,
+    RegisterDto,
+    UpdateUserDto,
+} from "./user.dto.js";
 
 const router = Router();
 const controller = new UserController();
+//Credentials can only be changed after a real login, not with an API key nor while impersonating
+const authenticateCredentials = authenticateWith({
+    allowApiKey: false,
+    allowImpersonation: false,
+});
+//Only route open to users who still have to replace the password set by an administrator
+const authenticatePasswordChange = authenticateWith({
+    allowApiKey: false,
+    allowImpersonation: false,
+    allowPasswordChangeRequired: true,
+});
+//Destructive administration cannot be done while impersonating an user
+const authenticateActor = authenticateWith({ allowImpersonation: false });
 
 router.use(apiLimiter);
 
@@ -39,8 +69,7 @@ router.use(apiLimiter);
  *           description: Username (must be unique)
  *         role:
  *           type: string
- *           enum: [User, Admin]
- *           description: User role, used to manage access to different ressources inside this application
+ *           description: Name of the user role, its permissions manage access to different ressources inside this application
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -53,7 +82,7 @@ router.use(apiLimiter);
  *         id: 1
  *         email: "contact@jdoe.com"
  *         name: "John Doe"
- *         role: "Admin"
+ *         role: "ADMIN"
  *         createdAt: "2025-06-12T00:00:00.000Z"
  *         updatedAt: "2025-06-12T00:00:00.000Z"
  *     UserInput:
@@ -111,8 +140,7 @@ router.use(apiLimiter);
  *           description: New email address (optional)
  *         role:
  *           type: string
- *           enum: [USER, ADMIN]
- *           description: New user role (optional)
+ *           description: New user role (optional, needs the roles:assign permission)
  *       example:
  *         name: "John Doe"
  *         email: "john.doe@test.com"
@@ -155,6 +183,9 @@ router.use(apiLimiter);
  *                 role:
  *                   type: string
  *                   description: User role
+ *                 passwordChangeRequired:
+ *                   type: boolean
+ *                   description: The password was set by an administrator, every route but PUT /users/passwordChange answers 403 until it is changed
  *             accessToken:
  *               type: string
  *               description: JWT access token
@@ -165,19 +196,71 @@ router.use(apiLimiter);
  *             id: 1
  *             name: "John Doe"
  *             role: "User"
+ *             passwordChangeRequired: false
  *           accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  *     Error:
  *       type: object
+ *       description: Problem details (RFC 7807), sent as application/problem+json
  *       properties:
+ *         type:
+ *           type: string
+ *           description: URL documenting the error code, about:blank if PROBLEM_TYPE_BASE_URL is not set
+ *         title:
+ *           type: string
+ *           description: Reason phrase of the HTTP status
  *         status:
+ *           type: integer
+ *           description: HTTP status code
+ *         detail:
+ *           type: string
+ *           description: Human readable message, may change at any time
+ *         instance:
  *           type: string
- *           example: error
- *         message:
+ *           description: Path of the request
+ *         code:
  *           type: string
- *           description: Error message
+ *           description: Stable machine-readable error code, clients must use it instead of the message
+ *         requestId:
+ *           type: string
+ *           description: Id of the request, also sent in the X-Request-Id header
+ *       example:
+ *         type: "about:blank"
+ *         title: "Unauthorized"
+ *         status: 401
+ *         detail: "Invalid credentials."
+ *         instance: "/users/login"
+ *         code: "INVALID_CREDENTIALS"
+ *         requestId: "3f1c7a52-8a9e-4c0e-9d4b-6f1a2b3c4d5e"
+ *     ValidationError:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Error'
+ *         - type: object
+ *           properties:
+ *             errors:
+ *               type: array
+ *               description: Invalid fields of the request
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   field:
+ *                     type: string
+ *                     description: Path of the invalid field
+ *                   messages:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     description: Failed constraints of the field
  *       example:
- *         status: "error"
- *         message: "Invalid credentials"
+ *         type: "about:blank"
+ *         title: "Unprocessable Entity"
+ *         status: 422
+ *         detail: "Validation failed."
+ *         instance: "/users/register"
+ *         code: "VALIDATION_FAILED"
+ *         requestId: "3f1c7a52-8a9e-4c0e-9d4b-6f1a2b3c4d5e"
+ *         errors:
+ *           - field: "email"
+ *             messages: ["email must be an email"]
  */
 
 /**
@@ -207,15 +290,21 @@ router.use(apiLimiter);
  *       400:
  *         description: Invalid data
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       409:
  *         description: User already exist
+ *       422:
+ *         description: Invalid fields
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  *       429:
  *         description: Too many attempts
  */
-router.post("/register", registerLimiter, controller.createUser);
+router.post("/register", registerLimiter, validateBody(RegisterDto), controller.createUser);
 
 /**
  * @swagger
@@ -231,7 +320,7 @@ router.post("/register", registerLimiter, controller.createUser);
  *             $ref: '#/components/schemas/LoginInput'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or two-factor challenge (data.twoFactorRequired and data.challengeToken) if the user enabled two-factor authentication
  *         content:
  *           application/json:
  *             schema:
@@ -242,24 +331,75 @@ router.post("/register", registerLimiter, controller.createUser);
  *               type: string
  *               example: jwt=abcde12345; HttpOnly; Secure
  *       401:
- *         description: Invalid credentials
+ *         description: Invalid credentials, also answered while the account is temporarily locked
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Invalid fields, or neither name nor email given
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         description: Too many attempts from this IP
+ */
+router.post("/login", loginLimiter, validateBody(LoginDto), controller.loginUser);
+
+/**
+ * @swagger
+ * /users/login/2fa:
+ *   post:
+ *     summary: Complete the login of an user with two-factor authentication enabled
+ *     description: Exchange the challenge token returned by /users/login and a TOTP code (or a recovery code) for the JWT tokens.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Challenge token returned by /users/login
+ *               code:
+ *                 type: string
+ *                 description: 6 digits code generated by the authenticator application
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Single use recovery code, used when no code is provided
+ *             example:
+ *               challengeToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *               code: "123456"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Missing challenge or code
+ *       401:
+ *         description: Invalid or expired challenge, invalid code
  *       429:
  *         description: Too many attempts
  */
-router.post("/login", loginLimiter, controller.loginUser);
+router.post("/login/2fa", loginLimiter, controller.verifyTwoFactorLogin);
 
 /**
  * @swagger
  * /users/refresh:
  *   post:
  *     summary: Refresh JWT access token
+ *     description: The refresh token is rotated on every call, presenting an already used token revokes every token issued from the same login.
  *     tags: [Users]
  *     security:
- *       - bearerAuth: []
+ *       - cookieAuth: []
  *     responses:
  *       200:
  *         description: JWT access token refreshed
@@ -275,18 +415,75 @@ router.post("/login", loginLimiter, controller.loginUser);
  *           Set-Cookie:
  *             schema:
  *               type: string
+ *       400:
+ *         description: Missing refresh token
  *       401:
- *         description: Invalid or expired token
+ *         description: Invalid, expired, revoked or already used refresh token
  *       429:
  *         description: Too many attempts
  */
 router.post("/refresh", refreshLimiter, controller.refreshToken);
 
+/**
+ * @swagger
+ * /users/verify-email:
+ *   post:
+ *     summary: Verify the e-mail address of an account with the token received by mail
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Verification token sent by mail
+ *     responses:
+ *       200:
+ *         description: E-mail address verified
+ *       400:
+ *         description: Missing, invalid, expired or already used token
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/verify-email", controller.verifyEmail);
+
+/**
+ * @swagger
+ * /users/verify-email/resend:
+ *   post:
+ *     summary: Send a new verification e-mail to the current user
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Verification e-mail sent
+ *       401:
+ *         description: Not logged in
+ *       409:
+ *         description: E-mail address already verified
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many attempts
+ */
+router.post("/verify-email/resend", authenticate, mailLimiter, controller.resendEmailVerification);
+
 /**
  * @swagger
  * /users/logout:
  *   post:
  *     summary: Disconnect current user and destroy ant JWT
+ *     description: Revoke the refresh token stored in the cookies along with every token rotated from the same login.
  *     tags: [Users]
  *     responses:
  *       200:
@@ -314,10 +511,48 @@ router.post("/logout", controller.logoutUser);
  * @swagger
  * /users:
  *   get:
- *     summary: Get every users data, need to be Admin
+ *     summary: Get a page of users, need the users:read permission
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/limit'
+ *       - $ref: '#/components/parameters/offset'
+ *       - $ref: '#/components/parameters/cursor'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [id, -id, name, -name, email, -email, createdAt, -createdAt]
+ *           default: -createdAt
+ *         description: Sorted field, prefixed by "-" for descending order
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *         description: Role names, comma separated
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *         description: Part of the e-mail address, case insensitive
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Part of the username, case insensitive
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Users created at or after this date
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Users created at or before this date
  *     responses:
  *       200:
  *         description: User datas
@@ -342,18 +577,115 @@ router.post("/logout", controller.logoutUser);
  *                         type: string
  *                       role:
  *                         type: string
+ *                       disabledAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
  *                       createdAt:
  *                         type: string
  *                         format: date-time
  *                       updatedAt:
  *                         type: string
  *                         format: date-time
+ *                 meta:
+ *                   $ref: '#/components/schemas/ListMeta'
+ *       400:
+ *         description: Invalid query parameter
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ */
+router.get("/", authenticate, requirePermission(Permission.USERS_READ), controller.getAllUser);
+
+/**
+ * @swagger
+ * /users:
+ *   post:
+ *     summary: Create a user, need the users:create permission
+ *     description: By default the user receives an invitation by mail to choose a password (valid USER_INVITATION_TTL hours). With invite set to false a temporary password is generated and only returned by this call, the user has to change it (PUT /users/passwordChange) before using any other route. Giving a role also needs the roles:assign permission.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - email
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 description: Name of an existing role, USER by default
+ *               invite:
+ *                 type: boolean
+ *                 default: true
+ *           example:
+ *             name: "jane"
+ *             email: "jane@example.com"
+ *             role: "USER"
+ *             invite: false
+ *     responses:
+ *       201:
+ *         description: User created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     name:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                     temporaryPassword:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Only set when the user is not invited
+ *       400:
+ *         description: Missing name or e-mail, or unknown role
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Not logged in
  *       403:
  *         description: Access denied
+ *       409:
+ *         description: E-mail or username already in use
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Invalid fields
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  */
-router.get("/", authenticate, authorize(["admin"]), controller.getAllUser);
+router.post("/", authenticateActor, requirePermission(Permission.USERS_CREATE), validateBody(CreateUserDto), controller.createUserAsAdmin);
 
 /**
  * @swagger
@@ -386,16 +718,37 @@ router.get("/", authenticate, authorize(["admin"]), controller.getAllUser);
  *                           type: string
  *                         email:
  *                           type: string
+ *                         emailVerified:
+ *                           type: boolean
  *       401:
  *         description: Not logged in
  */
 router.get("/profile", authenticate, controller.getProfile);
 
+/**
+ * @swagger
+ * /users/impersonate/stop:
+ *   post:
+ *     summary: Stop the current impersonation
+ *     description: Must be called with the impersonation access token, which is revoked.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Impersonation stopped
+ *       400:
+ *         description: Not impersonating an user
+ *       401:
+ *         description: Not logged in or impersonation already ended
+ */
+router.post("/impersonate/stop", authenticate, controller.stopImpersonation);
+
 /**
  * @swagger
  * /users/{id}:
  *   get:
- *     summary: Get user data by specified id, need to be Admin
+ *     summary: Get user data by specified id, need to be this user or to have the users:read permission
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -428,10 +781,12 @@ router.get("/profile", authenticate, controller.getProfile);
  *                       type: string
  *       401:
  *         description: Not logged in
+ *       403:
+ *         description: Access denied
  *       404:
  *         description: User not found
  */
-router.get("/:id", authenticate, authorize(["admin"]), controller.getUser);
+router.get("/:id", authenticate, authorize(isSelfOrAdmin(Permission.USERS_READ)), controller.getUser);
 
 /**
  * @swagger
@@ -462,11 +817,19 @@ router.get("/:id", authenticate, authorize(["admin"]), controller.getUser);
  *       401:
  *         description: Not logged in
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Role change without the roles:assign permission
+ *       422:
+ *         description: Invalid fields
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  */
-router.put("/", authenticate, controller.updateUser);
+router.put("/", authenticateCredentials, validateBody(UpdateUserDto), controller.updateUser);
 
 /**
  * @swagger
@@ -497,23 +860,102 @@ router.put("/", authenticate, controller.updateUser);
  *       400:
  *         description: Invalid password format
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Not logged in or incorrect current password
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Invalid fields
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  */
-router.put("/passwordChange", authenticate, controller.updatePassword);
+router.put("/passwordChange", authenticatePasswordChange, validateBody(PasswordChangeDto), controller.updatePassword);
+
+/**
+ * @swagger
+ * /users/password/forgot:
+ *   post:
+ *     summary: Send a password reset link by mail
+ *     description: The response is the same whether an account use the e-mail address or not.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *             example:
+ *               email: "contact@jdoe.com"
+ *     responses:
+ *       202:
+ *         description: Request accepted
+ *       400:
+ *         description: Missing e-mail
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many attempts
+ */
+router.post("/password/forgot", mailLimiter, controller.forgotPassword);
+
+/**
+ * @swagger
+ * /users/password/reset:
+ *   post:
+ *     summary: Choose a new password with the token received by mail
+ *     description: Every session of the user is revoked.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Reset token sent by mail
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *                 pattern: '^.*(?=.{8,})(?=.*[a-zA-Z])(?=.*\\d)(?=.*[!#$%&? "]).*$'
+ *                 description: New password (8 characters minimum, must contain letters, numbers and special characters)
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         description: Invalid password format, invalid, expired or already used token
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/password/reset", controller.resetPassword);
 
 /**
  * @swagger
  * /users:
  *   delete:
  *     summary: Delete current user account
+ *     description: The account can be restored by logging in until the end of the retention period (USER_DELETION_RETENTION days), then it is permanently purged.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -550,17 +992,24 @@ router.put("/passwordChange", authenticate, controller.updatePassword);
  *       401:
  *         description: Not logged in or incorrect password
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Invalid fields
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  */
-router.delete("/", authenticate, controller.deleteUser);
+router.delete("/", authenticateCredentials, validateBody(DeleteUserDto), controller.deleteUser);
 
 /**
  * @swagger
  * /users/{id}:
  *   delete:
- *     summary: Delete user by id, need to be Admin
+ *     summary: Delete user by id, need the users:delete permission
+ *     description: The account can be restored until the end of the retention period (USER_DELETION_RETENTION days), then it is permanently purged.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -588,22 +1037,371 @@ router.delete("/", authenticate, controller.deleteUser);
  *       401:
  *         description: Not logged in
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
  *         description: Access denied
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete("/:id", authenticateActor, requirePermission(Permission.USERS_DELETE), controller.deleteUserById);
+
+/**
+ * @swagger
+ * /users/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted user before it is purged, need the users:restore permission
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id to restore
+ *     responses:
+ *       200:
+ *         description: User restored successfully
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: User not found or already purged
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: User is not deleted
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/:id/restore", authenticateActor, requirePermission(Permission.USERS_RESTORE), controller.restoreUser);
+
+/**
+ * @swagger
+ * /users/{id}/unlock:
+ *   post:
+ *     summary: Unlock an account locked after too many failed logins, need the users:unlock permission
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id to unlock
+ *     responses:
+ *       200:
+ *         description: User unlocked successfully
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/:id/unlock", authenticate, requirePermission(Permission.USERS_UNLOCK), controller.unlockUser);
+
+/**
+ * @swagger
+ * /users/{id}/disable:
+ *   post:
+ *     summary: Disable an account without deleting it, need the users:disable permission
+ *     description: The user cannot log in anymore, its tokens, sessions and API keys stop working until the account is enabled.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id to disable
+ *     responses:
+ *       200:
+ *         description: User disabled successfully
+ *       400:
+ *         description: Cannot disable your own account
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: User already disabled
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/:id/disable", authenticateActor, requirePermission(Permission.USERS_DISABLE), controller.disableUser);
+
+/**
+ * @swagger
+ * /users/{id}/enable:
+ *   post:
+ *     summary: Enable a disabled account, need the users:disable permission
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id to enable
+ *     responses:
+ *       200:
+ *         description: User enabled successfully
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: User not disabled
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/:id/enable", authenticateActor, requirePermission(Permission.USERS_DISABLE), controller.enableUser);
+
+/**
+ * @swagger
+ * /users/{id}/role:
+ *   put:
+ *     summary: Assign a role to an user, need the roles:assign permission
+ *     description: Every token previously issued to the user is invalidated.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 description: Name of an existing role
+ *             example:
+ *               role: "SUPPORT"
+ *     responses:
+ *       200:
+ *         description: Role assigned successfully
+ *       400:
+ *         description: Unknown role
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put("/:id/role", authenticateActor, requirePermission(Permission.ROLES_ASSIGN), controller.updateUserRole);
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   patch:
+ *     summary: Update the name, e-mail address or role of a user, need the users:update permission
+ *     description: Changing the role also needs the roles:assign permission and invalidates the tokens of the user. A new e-mail address needs to be verified.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id to update
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *           example:
+ *             email: "jane.doe@example.com"
+ *             role: "ADMIN"
+ *     responses:
+ *       200:
+ *         description: User updated
+ *         content:
  *           application/json:
  *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     name:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     emailVerified:
+ *                       type: boolean
+ *                     role:
+ *                       type: string
+ *       400:
+ *         description: Unknown role
+ *         content:
+ *           application/problem+json:
+ *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied
  *       404:
  *         description: User not found
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Invalid fields
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.patch("/:id", authenticateActor, requirePermission(Permission.USERS_UPDATE), validateBody(UpdateUserDto), controller.updateUserById);
+
+/**
+ * @swagger
+ * /users/{id}/impersonate:
+ *   post:
+ *     summary: Log in as another user, need the users:impersonate permission
+ *     description: |
+ *       Return a short-lived access token of the user carrying an "act" claim with the real actor, no refresh token is issued.
+ *       Users with more rights than the actor cannot be impersonated. Credential and destructive routes are refused while impersonating.
+ *       Start and stop are recorded.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User id to impersonate
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Why the user is impersonated, kept in the audit trail
+ *             example:
+ *               reason: "Ticket #1234, profile page error"
+ *     responses:
+ *       201:
+ *         description: Impersonation started
+ *         content:
  *           application/json:
  *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accessToken:
+ *                       type: string
+ *                     impersonationId:
+ *                       type: string
+ *                       format: uuid
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Impersonating yourself
+ *       401:
+ *         description: Not logged in
+ *       403:
+ *         description: Access denied, target with more rights or already impersonating
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete("/:id", authenticate, authorize(["admin"]), controller.deleteUserById);
+router.post("/:id/impersonate", authenticateCredentials, requirePermission(Permission.USERS_IMPERSONATE), controller.impersonateUser);
 
 export default router;
@@ -0,0 +1,253 @@
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import { afterEach, before, beforeEach, describe, it, mock } from "node:test";
+import { QueryFailedError } from "typeorm";
+import type { User } from "../../models/User.js";
+import { AppError } from "../../middlewares/errorHandler.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
+import { userService } from "./user.service.js";
+
+const PASSWORD = "Secret1!";
+//Answer of every failed login, whatever the reason
+const INVALID_CREDENTIALS = {
+    message: "Invalid credentials.",
+    statusCode: 401,
+    code: ErrorCode.INVALID_CREDENTIALS,
+};
+
+const userRepository = userService["userRepository"];
+
+const updateResult = (affected: number) => ({
+    affected: affected,
+    raw: [],
+    generatedMaps: [],
+});
+
+describe("userService.testCredentials", () => {
+    let passwordHash: string;
+    let user: User;
+    //Values set by the failed login counter
+    let failedLogins: Array<Record<string, unknown>>;
+    let attemptsAfterFailure: number;
+
+    before(async () => {
+        passwordHash = await bcrypt.hash(PASSWORD, 4);
+    });
+
+    beforeEach(() => {
+        user = {
+            id: 1,
+            name: "john",
+            email: "john@example.com",
+            password: passwordHash,
+            failedLoginAttempts: 0,
+            lastFailedLoginAt: null,
+            lockedUntil: null,
+            disabledAt: null,
+            deletedAt: null,
+        } as User;
+        failedLogins = [];
+        attemptsAfterFailure = 1;
+        mock.method(userRepository, "findOne", async () => user);
+        const queryBuilder = {
+            update: () => queryBuilder,
+            set: (values: Record<string, unknown>) => {
+                failedLogins.push(values);
+                return queryBuilder;
+            },
+            where: () => queryBuilder,
+            returning: () => queryBuilder,
+            execute: async () => ({
+                raw: [{ failedLoginAttempts: attemptsAfterFailure }],
+            }),
+        };
+        mock.method(
+            userRepository,
+            "createQueryBuilder",
+            () => queryBuilder
+        );
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    /**
+     * Try to log in and describe the error thrown.
+     * @param password Password typed by the user.
+     * @returns Message, status and code of the error thrown by testCredentials.
+     */
+    const loginError = async (password: string) => {
+        try {
+            await userService.testCredentials(undefined, user.email, password);
+        } catch (error) {
+            assert.ok(error instanceof AppError);
+            const { message, statusCode, code } = error;
+            return { message, statusCode, code };
+        }
+        assert.fail("The login should have failed");
+    };
+
+    it("returns the user and resets its failed logins", async () => {
+        user.failedLoginAttempts = 2;
+        user.lastFailedLoginAt = new Date(Date.now() - 10000);
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+
+        const result = await userService.testCredentials(
+            undefined,
+            user.email,
+            PASSWORD
+        );
+
+        assert.equal(result, user);
+        assert.deepEqual(update.mock.calls[0]?.arguments, [
+            { id: 1 },
+            {
+                failedLoginAttempts: 0,
+                lastFailedLoginAt: null,
+                lockedUntil: null,
+            },
+        ]);
+    });
+
+    it("answers unknown and locked accounts the same way, after hashing the password", async () => {
+        const compare = mock.method(bcrypt, "compare");
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+
+        mock.method(userRepository, "findOne", async () => null);
+        const unknownError = await loginError(PASSWORD);
+        assert.equal(compare.mock.callCount(), 1);
+
+        user.lockedUntil = new Date(Date.now() + 60000);
+        mock.method(userRepository, "findOne", async () => user);
+        const lockedError = await loginError(PASSWORD);
+        assert.equal(compare.mock.callCount(), 2);
+        //The right password is not even tested
+        assert.notEqual(compare.mock.calls[1]?.arguments[1], passwordHash);
+
+        assert.deepEqual(lockedError, unknownError);
+        assert.deepEqual(lockedError, INVALID_CREDENTIALS);
+        //Attempts made while locked are not counted
+        assert.equal(failedLogins.length, 0);
+        assert.equal(update.mock.callCount(), 0);
+    });
+
+    it("refuses the right password until the back-off delay is over", async () => {
+        mock.method(userRepository, "update", async () => updateResult(1));
+        //After two failures the next attempt waits 2 seconds (LOGIN_BACKOFF_BASE * 2)
+        user.failedLoginAttempts = 2;
+        user.lastFailedLoginAt = new Date(Date.now() - 1000);
+        assert.deepEqual(await loginError(PASSWORD), INVALID_CREDENTIALS);
+
+        user.lastFailedLoginAt = new Date(Date.now() - 3000);
+        await userService.testCredentials(undefined, user.email, PASSWORD);
+    });
+
+    it("counts wrong passwords and locks the account at the threshold", async () => {
+        const update = mock.method(userRepository, "update", async () =>
+            updateResult(1)
+        );
+
+        await loginError("Wrong1!");
+        assert.equal(failedLogins.length, 1);
+        assert.equal(typeof failedLogins[0]?.failedLoginAttempts, "function");
+        assert.equal(update.mock.callCount(), 0);
+
+        //Default LOGIN_LOCK_THRESHOLD and LOGIN_LOCK_DURATION: 5 attempts, 15 minutes
+        attemptsAfterFailure = 5;
+        assert.deepEqual(await loginError("Wrong1!"), INVALID_CREDENTIALS);
+        const lock = update.mock.calls[0]?.arguments[1] as Partial<User>;
+        assert.equal(lock.failedLoginAttempts, 0);
+        const lockedFor = (lock.lockedUntil as Date).getTime() - Date.now();
+        assert.ok(lockedFor > 14 * 60000 && lockedFor <= 15 * 60000);
+    });
+});
+
+describe("userService.resetPassword", () => {
+    const passwordResetRepository = userService["passwordResetRepository"];
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("refuses the token of a deleted account without consuming it", async () => {
+        mock.method(passwordResetRepository, "findOne", async () => ({
+            id: 5,
+            userId: 1,
+        }));
+        //Deleted accounts are not found without withDeleted
+        mock.method(userRepository, "findOne", async () => null);
+        const update = mock.method(
+            passwordResetRepository,
+            "update",
+            async () => updateResult(1)
+        );
+
+        await assert.rejects(userService.resetPassword("token", PASSWORD), {
+            statusCode: 400,
+            code: ErrorCode.INVALID_RESET_TOKEN,
+        });
+        assert.equal(update.mock.callCount(), 0);
+    });
+});
+
+describe("userService.createExternalUser", () => {
+    beforeEach(() => {
+        mock.method(userRepository, "create", (values: object) => ({
+            ...values,
+        }));
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("adds a random suffix to the name once the database reports it taken", async () => {
+        const names: string[] = [];
+        mock.method(userRepository, "save", async (user: User) => {
+            names.push(user.name);
+            if (names.length === 1) {
+                throw new QueryFailedError(
+                    "INSERT ...",
+                    [],
+                    Object.assign(new Error("duplicate key"), {
+                        code: "23505",
+                        detail: "Key (name)=(john) already exists.",
+                    })
+                );
+            }
+            return { ...user, id: 1 };
+        });
+
+        const user = await userService.createExternalUser(
+            "john",
+            "john@example.com",
+            true
+        );
+
+        assert.equal(names[0], "john");
+        assert.match(user.name, /^john-[0-9a-f]{8}$/);
+    });
+
+    it("refuses an e-mail address already in use", async () => {
+        mock.method(userRepository, "save", async () => {
+            throw new QueryFailedError(
+                "INSERT ...",
+                [],
+                Object.assign(new Error("duplicate key"), {
+                    code: "23505",
+                    detail: "Key (email)=(john@example.com) already exists.",
+                })
+            );
+        });
+
+        await assert.rejects(
+            userService.createExternalUser("john", "john@example.com", true),
+            { statusCode: 409, code: ErrorCode.EMAIL_IN_USE }
+        );
+    });
+});
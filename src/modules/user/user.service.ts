@@ -1,16 +1,58 @@
-import type { Repository } from "typeorm";
+import { createHash, randomBytes } from "crypto";
+import { IsNull, LessThan, MoreThan, type Repository } from "typeorm";
 import { AppDataSource } from "../../config/database.js";
+import { PasswordResetToken } from "../../models/PasswordResetToken.js";
+import { DefaultRole } from "../../models/Role.js";
 import { User } from "../../models/User.js";
 import { AppError } from "../../middlewares/errorHandler.js";
+import { onUniqueViolation } from "../../middlewares/databaseErrors.js";
+import { ErrorCode } from "../../middlewares/errorCodes.js";
 import bcrypt from "bcrypt";
 import { JwtService } from "../core/jwt.service.js";
-import type { TokensResponse } from "./user.types.js";
+import {
+    applyListQuery,
+    parseListQuery,
+    type ListQueryDefinition,
+    type ListResult,
+} from "../core/listQuery.js";
+import { refreshTokenService } from "../core/refreshToken.service.js";
+import type { AuthState, TokensResponse } from "./user.types.js";
+import type { SessionContext } from "../session/session.types.js";
 import { logger } from "../../config/logger.js";
-import { toRole } from "../../models/Role.js";
+import { mailService } from "../mail/mail.service.js";
+import { roleService } from "../role/role.service.js";
 
 class UserService {
     private userRepository: Repository<User>;
+    private passwordResetRepository: Repository<PasswordResetToken>;
     private passwordRegex: RegExp;
+    private passwordResetTtl: number;
+    private invitationTtl: number;
+    private loginLockThreshold: number;
+    private loginLockDuration: number;
+    private loginBackoffBase: number;
+    private loginBackoffMax: number;
+    private deletionRetention: number;
+    private purgeInterval: number;
+    private purgeTimer: NodeJS.Timeout | undefined;
+    //Compared when the user does not exist so the response time does not reveal it
+    private static DUMMY_HASH =
+        "$2b$10$G7lfvNn4IeXLxnuwrLZShO6LN37y7zqG3Re3tkcv8QM1wgN5sDz5y";
+    private static LIST_DEFINITION: ListQueryDefinition = {
+        filters: {
+            role: { type: "exact", column: "role" },
+            email: { type: "contains", column: "email" },
+            name: { type: "contains", column: "name" },
+            created: { type: "dateRange", column: "createdAt" },
+        },
+        sortFields: {
+            id: { column: "id", type: "number" },
+            name: { column: "name", type: "string" },
+            email: { column: "email", type: "string" },
+            createdAt: { column: "createdAt", type: "date" },
+        },
+        defaultSort: "-createdAt",
+    };
     private static instance: UserService;
 
     static getInstance() {
@@ -22,58 +64,277 @@ class UserService {
 
     constructor() {
         this.userRepository = AppDataSource.getRepository(User);
+        this.passwordResetRepository =
+            AppDataSource.getRepository(PasswordResetToken);
         this.passwordRegex =
             /^.*(?=.{8,})(?=.*[a-zA-Z])(?=.*\d)(?=.*[!@#$%&? "]).*$/;
+        //Password reset token lifetime in minutes
+        this.passwordResetTtl = Number(process.env.PASSWORD_RESET_TTL) || 30;
+        //Lifetime in hours of the link sent to users created by an administrator
+        this.invitationTtl = Number(process.env.USER_INVITATION_TTL) || 72;
+        //Failed logins before the account is locked
+        this.loginLockThreshold = Number(process.env.LOGIN_LOCK_THRESHOLD) || 5;
+        //Lock duration in minutes
+        this.loginLockDuration = Number(process.env.LOGIN_LOCK_DURATION) || 15;
+        //Delay in seconds after the first failed login, doubled after each new failure
+        this.loginBackoffBase = Number(process.env.LOGIN_BACKOFF_BASE) || 1;
+        this.loginBackoffMax = Number(process.env.LOGIN_BACKOFF_MAX) || 60;
+        //Days a deleted account can be restored before it is purged
+        this.deletionRetention = Number(process.env.USER_DELETION_RETENTION) || 30;
+        //Minutes between two purges of the deleted accounts
+        this.purgeInterval = Number(process.env.USER_PURGE_INTERVAL) || 60;
     }
 
     /**
      * Test user credentials, an email or a username is needed to identify an user.
      * If credentials are correct, returns the user identified by it's username or email.
-     * If the test fails or the user cannot be found, throw an exception.
+     * If the test fails or the user cannot be found, throw the same exception so the existence of an account is not revealed.
+     * Failed attempts are counted per account: each one doubles the delay before the next attempt is allowed
+     * and the account is temporarily locked once the threshold is reached. Attempts made in the meantime
+     * are rejected as invalid credentials, even with the right password.
      * @param name Username of the user trying to log in.
      * @param email Email of the user trying to log in.
      * @param password Password of the user trying to log in.
      * @returns Promise containing the user.
      */
     async testCredentials(
-        name: string,
-        email: string,
+        name: string | undefined,
+        email: string | undefined,
         password: string
     ): Promise<User> {
         let user;
         if (email) {
-            user = await this.userRepository.findOne({ where: { email } });
-        } else {
-            user = await this.userRepository.findOne({ where: { name } });
+            user = await this.userRepository.findOne({
+                where: { email },
+                withDeleted: true,
+            });
+        } else if (name) {
+            user = await this.userRepository.findOne({
+                where: { name },
+                withDeleted: true,
+            });
         }
 
-        if (!user) {
-            throw new AppError(`Unable to find user.`, 404);
+        //Locked accounts answer like unknown ones, a burst of failures must not reveal which accounts exist
+        if (
+            !user ||
+            (user.deletedAt && !this.isRestorable(user)) ||
+            this.isLoginThrottled(user)
+        ) {
+            await bcrypt.compare(password, UserService.DUMMY_HASH);
+            throw new AppError(
+                "Invalid credentials.",
+                401,
+                ErrorCode.INVALID_CREDENTIALS
+            );
         }
 
         const isPasswordValid = await bcrypt.compare(password, user.password);
         if (!isPasswordValid) {
-            throw new AppError("Incorrect password.", 401);
+            await this.registerFailedLogin(user);
+            throw new AppError(
+                "Invalid credentials.",
+                401,
+                ErrorCode.INVALID_CREDENTIALS
+            );
+        }
+
+        this.checkAccountEnabled(user);
+
+        if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+            await this.userRepository.update(
+                { id: user.id },
+                { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+            );
+        }
+        await this.restoreOnLogin(user);
+        return user;
+    }
+
+    /**
+     * Check if a deleted account is still in its retention period.
+     * @param user Deleted user.
+     * @returns True if the account can be restored.
+     */
+    private isRestorable(user: User): boolean {
+        return (
+            user.deletedAt !== null &&
+            user.deletedAt.getTime() + this.deletionRetention * 86400000 >
+                Date.now()
+        );
+    }
+
+    /**
+     * Restore the account of an user logging in during the retention period of its deletion.
+     * Does nothing if the account is not deleted.
+     * @param user User logging in, loaded with deleted users.
+     */
+    async restoreOnLogin(user: User): Promise<void> {
+        if (!user.deletedAt) {
+            return;
+        }
+        if (!this.isRestorable(user)) {
+            throw new AppError(
+                "Invalid credentials.",
+                401,
+                ErrorCode.INVALID_CREDENTIALS
+            );
+        }
+        await this.userRepository.restore(user.id);
+        user.deletedAt = null;
+        logger.info(`User id: ${user.id} restored on login.`);
+    }
+
+    /**
+     * Reject the login of an user disabled by an administrator.
+     * @param user User trying to log in.
+     */
+    checkAccountEnabled(user: User) {
+        if (user.disabledAt) {
+            throw new AppError(
+                "This account has been disabled.",
+                403,
+                ErrorCode.ACCOUNT_DISABLED
+            );
+        }
+    }
+
+    /**
+     * Check if the account is locked or if the back-off delay since the last failure is not over.
+     * @param user User trying to log in.
+     * @returns True if the login attempt must be rejected without testing the password.
+     */
+    private isLoginThrottled(user: User): boolean {
+        const now = Date.now();
+        if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+            return true;
+        }
+        if (user.failedLoginAttempts > 0 && user.lastFailedLoginAt) {
+            const delay = Math.min(
+                this.loginBackoffBase * 2 ** (user.failedLoginAttempts - 1),
+                this.loginBackoffMax
+            );
+            return user.lastFailedLoginAt.getTime() + delay * 1000 > now;
+        }
+        return false;
+    }
+
+    /**
+     * Count a failed login and lock the account once the threshold is reached.
+     * @param user User who failed to log in.
+     */
+    private async registerFailedLogin(user: User) {
+        //Incremented by the database so concurrent failures are all counted
+        const result = await this.userRepository
+            .createQueryBuilder()
+            .update(User)
+            .set({
+                failedLoginAttempts: () => `"failedLoginAttempts" + 1`,
+                lastFailedLoginAt: new Date(),
+            })
+            .where("id = :id", { id: user.id })
+            .returning(["failedLoginAttempts"])
+            .execute();
+
+        const attempts: number =
+            result.raw[0]?.failedLoginAttempts ?? user.failedLoginAttempts + 1;
+        if (attempts >= this.loginLockThreshold) {
+            await this.userRepository.update(
+                { id: user.id },
+                {
+                    failedLoginAttempts: 0,
+                    lastFailedLoginAt: null,
+                    lockedUntil: new Date(
+                        Date.now() + this.loginLockDuration * 60 * 1000
+                    ),
+                }
+            );
+            logger.warn(
+                `User id: ${user.id} locked for ${this.loginLockDuration} minutes after ${attempts} failed login attempts.`
+            );
+        }
+    }
+
+    /**
+     * Remove the lock and the failed login counter of an user.
+     * @param id userId.
+     */
+    async unlockUser(id: number): Promise<void> {
+        const user = await this.getUserById(id);
+        await this.userRepository.update(
+            { id: user.id },
+            {
+                failedLoginAttempts: 0,
+                lastFailedLoginAt: null,
+                lockedUntil: null,
+                twoFactorFailedAttempts: 0,
+            }
+        );
+    }
+
+    /**
+     * Disable an user, every token, session and API key of the user stops working until it is enabled again.
+     * @param id userId.
+     * @returns Disabled user.
+     */
+    async disableUser(id: number): Promise<User> {
+        const userToDisable = await this.getUserById(id);
+        if (userToDisable.disabledAt) {
+            throw new AppError(
+                "User is already disabled.",
+                409,
+                ErrorCode.USER_ALREADY_DISABLED
+            );
+        }
+        userToDisable.disabledAt = new Date();
+        userToDisable.tokenVersion += 1;
+
+        const user = await this.userRepository.save(userToDisable);
+        await refreshTokenService.revokeAllForUser(user.id);
+        logger.info(`User id: ${user.id} disabled.`);
+        return user;
+    }
+
+    /**
+     * Enable an user disabled by disableUser, the user needs to log in again.
+     * @param id userId.
+     * @returns Enabled user.
+     */
+    async enableUser(id: number): Promise<User> {
+        const userToEnable = await this.getUserById(id);
+        if (!userToEnable.disabledAt) {
+            throw new AppError(
+                "User is not disabled.",
+                409,
+                ErrorCode.USER_NOT_DISABLED
+            );
         }
+        userToEnable.disabledAt = null;
+
+        const user = await this.userRepository.save(userToEnable);
+        logger.info(`User id: ${user.id} enabled.`);
         return user;
     }
 
     /**
      * Generate an accessToken and a refreshToken for a specified User.
+     * The refresh token starts a new session stored in the database.
      * @param user User to generate tokens for.
+     * @param context Device informations of the new session.
      * @returns Object with both access and refresh token.
      */
-    login(user: User): TokensResponse {
-        const accessToken = JwtService.generateAccessToken({
-            id: user.id,
-            name: user.name,
-            role: user.role,
-        });
+    async login(user: User, context: SessionContext): Promise<TokensResponse> {
+        const { refreshToken, sessionId } = await refreshTokenService.issue(
+            user,
+            context
+        );
 
-        const refreshToken = JwtService.generateRefreshToken({
+        const accessToken = JwtService.generateAccessToken({
             id: user.id,
             name: user.name,
             role: user.role,
+            tokenVersion: user.tokenVersion,
+            sessionId: sessionId,
         });
         return {
             accessToken: accessToken,
@@ -91,13 +352,18 @@ class UserService {
             where: { id: userId },
         });
         if (!user) {
-            throw new AppError("User not found.", 404);
+            throw new AppError(
+                "User not found.",
+                404,
+                ErrorCode.USER_NOT_FOUND
+            );
         }
         return user;
     }
 
     /**
      * Verify if a user ID correspond to a user saved in the database.
+     * Deleted users waiting to be purged do not exist anymore.
      * @param userId ID of requested user.
      * @returns True if user exist, false otherwise.
      */
@@ -106,13 +372,43 @@ class UserService {
             const user = await this.userRepository.findOne({
                 where: { id: userId },
             });
-            return user !== undefined;
+            return user !== null;
         } catch (error) {
             logger.error(error);
             return false;
         }
     }
 
+    /**
+     * Return the state of an user needed to authenticate a request.
+     * Tokens carrying a different version than the current one are stale.
+     * @param userId ID of requested user.
+     * @returns Token version, e-mail verification, 2FA and disabled status, null if the user does not exist or is deleted.
+     */
+    async getAuthState(userId: number): Promise<AuthState | null> {
+        const user = await this.userRepository.findOne({
+            where: { id: userId },
+            select: [
+                "id",
+                "tokenVersion",
+                "emailVerifiedAt",
+                "twoFactorEnabledAt",
+                "disabledAt",
+                "passwordChangeRequired",
+            ],
+        });
+        if (!user) {
+            return null;
+        }
+        return {
+            tokenVersion: user.tokenVersion,
+            emailVerified: user.emailVerifiedAt !== null,
+            twoFactorEnabled: user.twoFactorEnabledAt !== null,
+            disabled: user.disabledAt !== null,
+            passwordChangeRequired: user.passwordChangeRequired,
+        };
+    }
+
     /**
      * Find an user based on its username.
      * @param name Name of the user.
@@ -123,7 +419,11 @@ class UserService {
             where: { name: name },
         });
         if (!user) {
-            throw new AppError("User not found.", 404);
+            throw new AppError(
+                "User not found.",
+                404,
+                ErrorCode.USER_NOT_FOUND
+            );
         }
         return user;
     }
@@ -138,63 +438,355 @@ class UserService {
             where: { email: email },
         });
         if (!user) {
-            throw new AppError("User not found.", 404);
+            throw new AppError(
+                "User not found.",
+                404,
+                ErrorCode.USER_NOT_FOUND
+            );
         }
         return user;
     }
 
+    /**
+     * Save an user, the unique constraints of the database answer for the e-mail address and the name.
+     * Deleted users waiting to be purged still hold their name and e-mail address.
+     * @param user User to save.
+     * @returns Saved user.
+     */
+    private async saveUser(user: User): Promise<User> {
+        return await onUniqueViolation(this.userRepository.save(user), {
+            email: () =>
+                new AppError(
+                    `E-mail :${user.email} is already in use, please try a different one.`,
+                    409,
+                    ErrorCode.EMAIL_IN_USE
+                ),
+            name: () =>
+                new AppError(
+                    `Username :${user.name} is already in use, please try a different one.`,
+                    409,
+                    ErrorCode.USERNAME_IN_USE
+                ),
+        });
+    }
+
     async createUser(
         name: string,
         email: string,
         password: string
     ): Promise<User> {
         if (!this.passwordRegex.test(password)) {
-            throw new AppError("Invalid password format.", 400);
+            throw new AppError(
+                "Invalid password format.",
+                400,
+                ErrorCode.INVALID_PASSWORD_FORMAT
+            );
         }
 
         const hash = await bcrypt.hash(password, 10);
-        const user = this.userRepository.create({
-            name: name,
+        const user = await this.saveUser(
+            this.userRepository.create({
+                name: name,
+                email: email,
+                password: hash,
+            })
+        );
+
+        //The account is usable even if the mail cannot be delivered, the user can ask for a new one
+        try {
+            await this.sendEmailVerification(user);
+        } catch (error) {
+            logger.error(error);
+        }
+        return user;
+    }
+
+    /**
+     * Create an user authenticated by an external identity provider.
+     * The username gets a random suffix if it is taken and the password is random, the user can set one with the password reset flow.
+     * @param name Preferred username.
+     * @param email E-mail address shared by the provider.
+     * @param emailVerified True if the provider verified the e-mail address.
+     * @returns Created user.
+     */
+    async createExternalUser(
+        name: string,
+        email: string,
+        emailVerified: boolean
+    ): Promise<User> {
+        const preferredName = name.trim().substring(0, 90).padEnd(3, "_");
+        const userToCreate = this.userRepository.create({
+            name: preferredName,
             email: email,
-            password: hash,
+            password: await bcrypt.hash(randomBytes(32).toString("hex"), 10),
+            emailVerifiedAt: emailVerified ? new Date() : null,
         });
-        return await this.userRepository.save(user);
+
+        let user: User;
+        try {
+            user = await this.saveUser(userToCreate);
+        } catch (error) {
+            if (
+                !(error instanceof AppError) ||
+                error.code !== ErrorCode.USERNAME_IN_USE
+            ) {
+                throw error;
+            }
+            userToCreate.name = `${preferredName}-${randomBytes(4).toString("hex")}`;
+            user = await this.saveUser(userToCreate);
+        }
+
+        if (!emailVerified) {
+            try {
+                await this.sendEmailVerification(user);
+            } catch (error) {
+                logger.error(error);
+            }
+        }
+        return user;
+    }
+
+    /**
+     * Create an user on behalf of an administrator.
+     * With an invitation the user receives a link to choose its password,
+     * otherwise a temporary password is generated and returned once so the administrator can share it.
+     * The user then has to replace it before accessing anything else, see authenticateWith.
+     * @param data Name, e-mail address and optional role of the user.
+     * @param invite True to send an invitation instead of generating a temporary password.
+     * @returns Created user and its temporary password, null when invited.
+     */
+    async createUserAsAdmin(
+        data: { name: string; email: string; role?: string },
+        invite: boolean
+    ): Promise<{ user: User; temporaryPassword: string | null }> {
+        const temporaryPassword = invite ? null : this.generatePassword();
+        const userToCreate = this.userRepository.create({
+            name: data.name,
+            email: data.email,
+            password: await bcrypt.hash(
+                temporaryPassword ?? randomBytes(32).toString("hex"),
+                10
+            ),
+            //The temporary password only gives access to the password change
+            passwordChangeRequired: temporaryPassword !== null,
+        });
+        if (data.role) {
+            const role = data.role.toUpperCase();
+            if (!(await roleService.roleExists(role))) {
+                throw new AppError(
+                    `Unknown role : ${data.role}`,
+                    400,
+                    ErrorCode.UNKNOWN_ROLE
+                );
+            }
+            userToCreate.role = role;
+        }
+        const user = await this.saveUser(userToCreate);
+
+        try {
+            if (invite) {
+                const { token, expiresAt } = await this.createPasswordResetToken(
+                    user,
+                    this.invitationTtl * 60
+                );
+                await mailService.sendAccountInvitation(
+                    user.email,
+                    user.name,
+                    token,
+                    expiresAt
+                );
+            } else {
+                await this.sendEmailVerification(user);
+            }
+        } catch (error) {
+            //The administrator can still send a password reset link
+            logger.error(error);
+        }
+        logger.info(`User id: ${user.id} created by an administrator.`);
+        return { user, temporaryPassword };
     }
 
     /**
-     * Find every user in the database.
-     * @returns An array of all the users.
+     * Generate a random password matching the password format.
+     * @returns Random password.
      */
-    async getAllUsers(): Promise<Array<User>> {
-        const users = await this.userRepository.find({
-            select: ["id", "name", "email", "role", "createdAt", "updatedAt"],
+    private generatePassword(): string {
+        //A letter, a digit and a special character are required by the password format
+        return `${randomBytes(12).toString("base64url")}a1!`;
+    }
+
+    /**
+     * Send a verification link to the e-mail address of an user.
+     * @param user User whose address needs to be verified.
+     */
+    async sendEmailVerification(user: User): Promise<void> {
+        if (user.emailVerifiedAt) {
+            throw new AppError(
+                "E-mail address is already verified.",
+                409,
+                ErrorCode.EMAIL_ALREADY_VERIFIED
+            );
+        }
+        const token = JwtService.generateEmailVerificationToken({
+            id: user.id,
+            email: user.email,
         });
-        return users;
+        await mailService.sendEmailVerification(user.email, user.name, token);
+    }
+
+    /**
+     * Mark the e-mail address of an user as verified.
+     * A token can only be used once and only for the address it was issued for.
+     * @param token E-mail verification token.
+     * @returns User with a verified e-mail address.
+     */
+    async verifyEmail(token: string): Promise<User> {
+        const payload = JwtService.verifyEmailVerificationToken(token);
+        const user = await this.userRepository.findOne({
+            where: { id: payload.id },
+        });
+
+        if (!user || user.email !== payload.email || user.emailVerifiedAt) {
+            throw new AppError(
+                "Invalid or expired verification token.",
+                400,
+                ErrorCode.INVALID_VERIFICATION_TOKEN
+            );
+        }
+
+        user.emailVerifiedAt = new Date();
+        return await this.userRepository.save(user);
+    }
+
+    /**
+     * Find a page of users, see parseListQuery for the supported parameters.
+     * Users can be filtered by role, e-mail or name substring and creation date and sorted by id, name, email or createdAt.
+     * @param query Query string of the request.
+     * @returns Users of the page and pagination metadata.
+     */
+    async getAllUsers(query: Record<string, unknown>): Promise<ListResult<User>> {
+        const listQuery = parseListQuery(query, UserService.LIST_DEFINITION);
+        const queryBuilder = this.userRepository
+            .createQueryBuilder("user")
+            .select([
+                "user.id",
+                "user.name",
+                "user.email",
+                "user.role",
+                "user.disabledAt",
+                "user.createdAt",
+                "user.updatedAt",
+            ]);
+        return await applyListQuery(
+            queryBuilder,
+            "user",
+            listQuery,
+            UserService.LIST_DEFINITION
+        );
     }
 
     /**
      * Update user informations. Can be use to update email address, username and permission of a specific user.
+     * A role change invalidates every token previously issued to the user,
+     * an e-mail change requires the new address to be verified.
      * @param id userId.
      * @param newData New data for the user (name, email and role).
-     * @returns
+     * @returns User with updated informations.
      */
     async updateUser(
         id: number,
-        newData: { name: string; email: string; role: string }
+        newData: {
+            name?: string | undefined;
+            email?: string | undefined;
+            role?: string | undefined;
+        }
     ): Promise<User> {
         const userToUpdate = await this.getUserById(id);
         const { email, name, role } = newData;
-        if (email) userToUpdate.email = email;
+        const emailChanged = !!email && email !== userToUpdate.email;
+        if (emailChanged) {
+            userToUpdate.email = email;
+            userToUpdate.emailVerifiedAt = null;
+        }
         if (name) userToUpdate.name = name;
-        if (role) userToUpdate.role = toRole(role);
+        if (role) {
+            await this.applyRole(userToUpdate, role);
+        }
 
-        this.userRepository.save(userToUpdate);
-        return userToUpdate;
+        const user = await this.saveUser(userToUpdate);
+        if (emailChanged) {
+            try {
+                await this.sendEmailVerification(user);
+            } catch (error) {
+                logger.error(error);
+            }
+        }
+        return user;
+    }
+
+    /**
+     * Give a role to an user entity without saving it.
+     * A role change invalidates every token previously issued to the user.
+     * @param user User to update.
+     * @param role Name of an existing role.
+     */
+    private async applyRole(user: User, role: string): Promise<void> {
+        const newRole = role.toUpperCase();
+        if (!(await roleService.roleExists(newRole))) {
+            throw new AppError(
+                `Unknown role : ${role}`,
+                400,
+                ErrorCode.UNKNOWN_ROLE
+            );
+        }
+        if (newRole !== user.role) {
+            user.role = newRole;
+            user.tokenVersion += 1;
+        }
+    }
+
+    /**
+     * Assign a role to the user found by the specified id.
+     * @param id userId.
+     * @param role Name of an existing role.
+     * @returns User with updated role.
+     */
+    async updateRole(id: number, role: string): Promise<User> {
+        const userToUpdate = await this.getUserById(id);
+        await this.applyRole(userToUpdate, role);
+        const user = await this.userRepository.save(userToUpdate);
+        logger.info(`Role ${user.role} assigned to user id: ${id}.`);
+        return user;
+    }
+
+    /**
+     * Give the ADMIN role to the user whose email is ADMIN_EMAIL, called on startup.
+     * Lets the first administrator be created, or access be recovered, without editing the database.
+     */
+    async bootstrapAdmin(): Promise<void> {
+        const email = process.env.ADMIN_EMAIL;
+        if (!email) {
+            return;
+        }
+        const user = await this.userRepository.findOneBy({ email });
+        if (!user) {
+            logger.warn(`ADMIN_EMAIL ${email} does not match any user.`);
+            return;
+        }
+        if (user.role === DefaultRole.ADMIN) {
+            return;
+        }
+        await this.applyRole(user, DefaultRole.ADMIN);
+        await this.userRepository.save(user);
+        logger.warn(
+            `Role ADMIN assigned to user id: ${user.id} from ADMIN_EMAIL.`
+        );
     }
 
     /**
      * Change the user found by the specified id to the new password.
      * Only work if oldPassword correspond to the user current password and if oldPassword and newPassword are different.
+     * Every token and session previously issued to the user are invalidated.
      * @param id userId.
      * @param oldPassword Password used to verify user identity.
      * @param newPassword New password.
@@ -208,7 +800,8 @@ class UserService {
         if (oldPassword === newPassword) {
             throw new AppError(
                 "New password cannot be the same as old one.",
-                405
+                405,
+                ErrorCode.PASSWORD_UNCHANGED
             );
         }
         const userToUpdate = await this.getUserById(id);
@@ -217,32 +810,152 @@ class UserService {
             userToUpdate.password
         );
         if (!isPasswordValid) {
-            throw new AppError("Incorrect password.", 401);
+            throw new AppError(
+                "Incorrect password.",
+                401,
+                ErrorCode.INCORRECT_PASSWORD
+            );
         }
         if (!this.passwordRegex.test(newPassword)) {
-            throw new AppError("Invalid password format.", 400);
+            throw new AppError(
+                "Invalid password format.",
+                400,
+                ErrorCode.INVALID_PASSWORD_FORMAT
+            );
         }
 
         const hash = await bcrypt.hash(newPassword, 10);
 
         userToUpdate.password = hash;
+        userToUpdate.passwordChangeRequired = false;
+        userToUpdate.tokenVersion += 1;
+
+        const user = await this.userRepository.save(userToUpdate);
+        await refreshTokenService.revokeAllForUser(user.id);
+        return user;
+    }
+
+    /**
+     * Send a password reset link to the owner of an e-mail address.
+     * Nothing happens if no account use this address, so the caller must not tell the difference to the client.
+     * Previous reset tokens of the user are invalidated.
+     * @param email E-mail address of the account.
+     */
+    async requestPasswordReset(email: string): Promise<void> {
+        const user = await this.userRepository.findOne({ where: { email } });
+        if (!user) {
+            return;
+        }
+
+        const { token, expiresAt } = await this.createPasswordResetToken(
+            user,
+            this.passwordResetTtl
+        );
+        await mailService.sendPasswordReset(user.email, user.name, token, expiresAt);
+    }
+
+    /**
+     * Create a token used to choose a new password, previous tokens of the user are invalidated.
+     * @param user Owner of the token.
+     * @param ttl Lifetime of the token in minutes.
+     * @returns Raw token and its expiration date.
+     */
+    private async createPasswordResetToken(
+        user: User,
+        ttl: number
+    ): Promise<{ token: string; expiresAt: Date }> {
+        await this.passwordResetRepository.update(
+            { userId: user.id, usedAt: IsNull() },
+            { usedAt: new Date() }
+        );
+
+        const token = randomBytes(32).toString("base64url");
+        const expiresAt = new Date(Date.now() + ttl * 60 * 1000);
+        await this.passwordResetRepository.save(
+            this.passwordResetRepository.create({
+                tokenHash: createHash("sha256").update(token).digest("hex"),
+                userId: user.id,
+                expiresAt: expiresAt,
+            })
+        );
+        return { token, expiresAt };
+    }
+
+    /**
+     * Set a new password using a token sent by requestPasswordReset.
+     * The token can only be used once, every token and session of the user are invalidated.
+     * @param token Password reset token.
+     * @param newPassword New password.
+     * @returns User with updated informations.
+     */
+    async resetPassword(token: string, newPassword: string): Promise<User> {
+        if (!this.passwordRegex.test(newPassword)) {
+            throw new AppError(
+                "Invalid password format.",
+                400,
+                ErrorCode.INVALID_PASSWORD_FORMAT
+            );
+        }
+
+        const resetToken = await this.passwordResetRepository.findOne({
+            where: {
+                tokenHash: createHash("sha256").update(token).digest("hex"),
+                usedAt: IsNull(),
+                expiresAt: MoreThan(new Date()),
+            },
+        });
+        //The owner is loaded first so the token of a deleted account is refused without being consumed
+        const userToUpdate = resetToken
+            ? await this.userRepository.findOne({
+                  where: { id: resetToken.userId },
+              })
+            : null;
+        if (!resetToken || !userToUpdate) {
+            throw new AppError(
+                "Invalid or expired reset token.",
+                400,
+                ErrorCode.INVALID_RESET_TOKEN
+            );
+        }
 
-        return this.userRepository.save(userToUpdate);
+        //Conditional update so the token cannot be consumed twice concurrently
+        const result = await this.passwordResetRepository.update(
+            { id: resetToken.id, usedAt: IsNull() },
+            { usedAt: new Date() }
+        );
+        if (result.affected === 0) {
+            throw new AppError(
+                "Invalid or expired reset token.",
+                400,
+                ErrorCode.INVALID_RESET_TOKEN
+            );
+        }
+
+        userToUpdate.password = await bcrypt.hash(newPassword, 10);
+        userToUpdate.passwordChangeRequired = false;
+        userToUpdate.tokenVersion += 1;
+
+        const user = await this.userRepository.save(userToUpdate);
+        await refreshTokenService.revokeAllForUser(user.id);
+        return user;
     }
 
     /**
-     * Delete an user from the database by its id.
+     * Delete an user by its id. The account is only marked as deleted and can be restored
+     * until the end of the retention period, every token and session of the user is revoked.
      * @param id userId.
      * @returns True if the user is deleted.
      */
     async deleteUserById(id: number): Promise<boolean> {
         const userToDelete = await this.getUserById(id);
-        this.userRepository.delete(userToDelete.id);
+        await this.userRepository.softDelete(userToDelete.id);
+        await refreshTokenService.revokeAllForUser(userToDelete.id);
         return true;
     }
 
     /**
      * Delete an user by its id but check if the password is correct before hand.
+     * The account can be restored by logging in until the end of the retention period.
      * @param id userId.
      * @param password User password.
      * @returns True is the user is deleted.
@@ -251,15 +964,83 @@ class UserService {
         const userToDelete = await this.getUserById(id);
 
         if (await bcrypt.compare(password, userToDelete.password)) {
-            await this.userRepository.delete(userToDelete.id);
+            await this.userRepository.softDelete(userToDelete.id);
+            await refreshTokenService.revokeAllForUser(userToDelete.id);
             return true;
         } else {
             throw new AppError(
                 "Cannot delete user account : Incorrect password.",
-                401
+                401,
+                ErrorCode.INCORRECT_PASSWORD
             );
         }
     }
+
+    /**
+     * Restore a deleted user by its id, only possible until the end of the retention period.
+     * @param id userId.
+     * @returns Restored user.
+     */
+    async restoreUserById(id: number): Promise<User> {
+        const user = await this.userRepository.findOne({
+            where: { id: id },
+            withDeleted: true,
+        });
+        if (!user || (user.deletedAt && !this.isRestorable(user))) {
+            throw new AppError(
+                "User not found.",
+                404,
+                ErrorCode.USER_NOT_FOUND
+            );
+        }
+        if (!user.deletedAt) {
+            throw new AppError(
+                "User is not deleted.",
+                409,
+                ErrorCode.USER_NOT_DELETED
+            );
+        }
+        await this.userRepository.restore(user.id);
+        user.deletedAt = null;
+        logger.info(`User id: ${user.id} restored.`);
+        return user;
+    }
+
+    /**
+     * Permanently remove the users deleted before the retention period, along with all their data.
+     * @returns Number of purged users.
+     */
+    async purgeDeletedUsers(): Promise<number> {
+        const result = await this.userRepository.delete({
+            deletedAt: LessThan(
+                new Date(Date.now() - this.deletionRetention * 86400000)
+            ),
+        });
+        return result.affected ?? 0;
+    }
+
+    /**
+     * Purge the deleted users now and then every USER_PURGE_INTERVAL minutes.
+     * The timer does not keep the process alive.
+     */
+    startPurgeJob(): void {
+        if (this.purgeTimer) {
+            return;
+        }
+        const purge = async () => {
+            try {
+                const purged = await this.purgeDeletedUsers();
+                if (purged > 0) {
+                    logger.info(`${purged} deleted user(s) purged.`);
+                }
+            } catch (error) {
+                logger.error("Deleted users purge failed:", error);
+            }
+        };
+        void purge();
+        this.purgeTimer = setInterval(purge, this.purgeInterval * 60000);
+        this.purgeTimer.unref();
+    }
 }
 
-export const userService = UserService.getInstance();
\ No newline at end of file
+export const userService = UserService.getInstance();
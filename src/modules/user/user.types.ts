@@ -1,5 +1,3 @@
-import type { Role } from "../../models/Role.js";
-
 export interface TokensResponse {
     accessToken: string;
     refreshToken: string;
@@ -9,5 +7,14 @@ export interface UserProfile {
     id: number,
     name: string,
     email: string,
-    role: Role
+    emailVerified: boolean,
+    role: string
+}
+
+export interface AuthState {
+    tokenVersion: number;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    disabled: boolean;
+    passwordChangeRequired: boolean;
 }
\ No newline at end of file
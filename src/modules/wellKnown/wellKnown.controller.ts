@@ -0,0 +1,28 @@
+import type { Request, Response, NextFunction } from "express";
+import { JwtService } from "../core/jwt.service.js";
+
+export class WellKnownController {
+
+    constructor() {
+        this.getJwks = this.getJwks.bind(this);
+    }
+
+    /**
+     * Publish the public keys used to verify access tokens so other services can validate them without any secret.
+     * @param req Incoming HTTP request.
+     * @param res Response or the incoming HTTP request.
+     * @param next Following function.
+     */
+    async getJwks(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            res.set("Cache-Control", "public, max-age=300");
+            res.status(200).json(JwtService.getJwks());
+        } catch (error) {
+            next(error);
+        }
+    }
+}
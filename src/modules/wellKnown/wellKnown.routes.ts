@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { apiLimiter } from "../../middlewares/rateLimiter.js";
+import { WellKnownController } from "./wellKnown.controller.js";
+
+const router = Router();
+const controller = new WellKnownController();
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Well-known
+ *   description: Public metadata for other services.
+ */
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Public keys used to verify access tokens
+ *     description: JSON Web Key Set (RFC 7517), tokens reference their key with the "kid" header. Empty when tokens are signed with a shared secret.
+ *     tags: [Well-known]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *             example:
+ *               keys:
+ *                 - kty: "EC"
+ *                   crv: "P-256"
+ *                   x: "f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU"
+ *                   y: "x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0"
+ *                   kid: "2026-01"
+ *                   alg: "ES256"
+ *                   use: "sig"
+ *       429:
+ *         description: Too many requests
+ */
+router.get("/jwks.json", controller.getJwks);
+
+export default router;